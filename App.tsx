@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User } from './types';
+import { AccountStatus, User } from './types';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
 import { Auth } from './components/Auth';
@@ -46,6 +46,32 @@ const App: React.FC = () => {
     return <Auth onLoginSuccess={handleLoginSuccess} />;
   }
 
+  // Signed in but not (or no longer) approved: no access to data
+  if (currentUser.status !== AccountStatus.ACTIVE) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+        <div className="max-w-md w-full bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+          <h2 className="text-xl font-bold text-slate-900">
+            {currentUser.status === AccountStatus.PENDING ? 'Awaiting Approval' : 'Account Deactivated'}
+          </h2>
+          <p className="mt-2 text-sm text-slate-600">
+            {currentUser.status === AccountStatus.PENDING
+              ? `Welcome, ${currentUser.name}. A Super Admin must approve your enrollment and assign your role before you can access reservoir data.`
+              : 'This account has been deactivated. Contact a Super Admin if you believe this is a mistake.'}
+          </p>
+          <div className="mt-6 flex justify-center gap-3">
+            <button onClick={handleLoginSuccess} className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+              Check Again
+            </button>
+            <button onClick={handleLogout} className="px-4 py-2 text-sm font-medium rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50">
+              Sign Out
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <Layout user={currentUser} onLogout={handleLogout}>
       <Dashboard user={currentUser} />
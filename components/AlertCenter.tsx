@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, AlertSeverity, Reservoir, User } from '../types';
+import { alertService } from '../services/alertService';
+import { reservoirService } from '../services/reservoirService';
+import { canHandleAlerts } from '../services/permissionService';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'border-l-red-500 bg-red-50',
+  warning: 'border-l-yellow-500 bg-yellow-50',
+  info: 'border-l-blue-500 bg-blue-50'
+};
+
+interface AlertCenterProps {
+  user: User;
+}
+
+export const AlertCenter: React.FC<AlertCenterProps> = ({ user }) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [reservoirs, setReservoirs] = useState<Reservoir[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+
+  useEffect(() => alertService.subscribe(setAlerts), []);
+
+  useEffect(() => {
+    reservoirService.getReservoirs().then(({ data }) => setReservoirs(data));
+  }, []);
+
+  const openCount = alerts.filter(a => a.state === 'OPEN').length;
+  const visible = alerts
+    .filter(a => showResolved || a.state !== 'RESOLVED')
+    .sort((a, b) => b.openedAt - a.openedAt);
+
+  const handle = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Alerts"
+        className="relative text-slate-500 hover:text-blue-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {openCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-600 text-white text-[10px] font-bold rounded-full h-4 min-w-[1rem] px-1 flex items-center justify-center">
+            {openCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-xl shadow-lg border border-slate-200 z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+            <h3 className="font-semibold text-slate-800">Alert Centre</h3>
+            <label className="text-xs text-slate-500 flex items-center gap-1">
+              <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+              Show resolved
+            </label>
+          </div>
+          <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+            {visible.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-slate-400">No active alerts.</li>
+            )}
+            {visible.map(item => (
+              <li key={item.id} className={`px-4 py-3 border-l-4 ${SEVERITY_STYLES[item.severity]} ${item.state === 'RESOLVED' ? 'opacity-60' : ''}`}>
+                <div className="flex justify-between gap-2">
+                  <p className="text-sm font-semibold text-slate-900">
+                    {reservoirs.find(r => r.id === item.reservoirId)?.name || item.reservoirId}
+                  </p>
+                  <span className="text-[10px] font-bold uppercase text-slate-500">{item.state}</span>
+                </div>
+                <p className="text-sm text-slate-700">{item.message}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {new Date(item.openedAt).toLocaleString()}
+                  {item.acknowledgedBy && ` · acknowledged by ${item.acknowledgedBy}`}
+                </p>
+                {item.state !== 'RESOLVED' && canHandleAlerts(user) && (
+                  <div className="flex gap-3 mt-2 text-xs font-medium">
+                    {item.state === 'OPEN' && (
+                      <button onClick={() => handle(() => alertService.acknowledge(item, user))} className="text-blue-600 hover:underline">Acknowledge</button>
+                    )}
+                    <button onClick={() => handle(() => alertService.resolve(item))} className="text-slate-600 hover:underline">Resolve</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
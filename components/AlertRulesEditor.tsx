@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { AlertRule, AlertRuleType, AlertSeverity, Reservoir, ReservoirStatus } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { alertService } from '../services/alertService';
+import { notificationService } from '../services/notificationService';
+
+const RULE_LABELS: Record<AlertRuleType, { label: string, unit?: string }> = {
+  STATUS_CHANGE: { label: 'Status becomes' },
+  LEVEL_ABOVE: { label: 'Level above', unit: 'm MSL' },
+  RISE_RATE: { label: 'Rising faster than', unit: 'm/hr' },
+  NO_READING: { label: 'No reading for', unit: 'hours' }
+};
+
+const describeRule = (rule: AlertRule) => {
+  const { label, unit } = RULE_LABELS[rule.type];
+  return rule.type === 'STATUS_CHANGE'
+    ? `${label} ${(rule.statuses || []).join(' or ')}`
+    : `${label} ${rule.threshold} ${unit}`;
+};
+
+interface AlertRulesEditorProps {
+  reservoir: Reservoir;
+}
+
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ reservoir }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [type, setType] = useState<AlertRuleType>('LEVEL_ABOVE');
+  const [threshold, setThreshold] = useState<number | ''>('');
+  const [statuses, setStatuses] = useState<ReservoirStatus[]>([ReservoirStatus.SPILLING]);
+  const [severity, setSeverity] = useState<AlertSeverity>('warning');
+  const [channels, setChannels] = useState<string[]>(['browser']);
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  const availableChannels = notificationService.getChannels();
+
+  const loadRules = async () => {
+    const all = await alertService.getRules();
+    setRules(all.filter(r => !r.reservoirId || r.reservoirId === reservoir.id));
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, [reservoir.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await loadRules();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (type !== 'STATUS_CHANGE' && threshold === '') return;
+    const rule: AlertRule = {
+      id: crypto.randomUUID(),
+      reservoirId: reservoir.id,
+      type,
+      statuses: type === 'STATUS_CHANGE' ? statuses : undefined,
+      threshold: type === 'STATUS_CHANGE' ? undefined : Number(threshold),
+      severity,
+      channels,
+      enabled: true
+    };
+    setThreshold('');
+    run(() => alertService.saveRule(rule));
+  };
+
+  const handleTest = async (rule: AlertRule) => {
+    const results = await notificationService.deliver({
+      id: `test:${rule.id}:${Date.now()}`,
+      ruleId: rule.id,
+      reservoirId: reservoir.id,
+      type: rule.type,
+      severity: rule.severity,
+      message: `Test alert: ${describeRule(rule)}`,
+      state: 'OPEN',
+      openedAt: Date.now()
+    }, reservoir, rule.channels);
+    setTestResult(results.map(r => `${r.channel}: ${r.ok ? 'sent' : r.error}`).join(' · ') || 'No channels selected');
+  };
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+  return (
+    <Card title="Alert Rules">
+      <ul className="divide-y divide-slate-100 text-sm mb-4">
+        {rules.map(rule => (
+          <li key={rule.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className={rule.enabled ? '' : 'opacity-50'}>
+              <p className="font-medium text-slate-900">{describeRule(rule)}</p>
+              <p className="text-xs text-slate-500">
+                {rule.severity} &middot; {rule.channels.join(', ') || 'no delivery'}
+                {!rule.reservoirId && ' · applies to all reservoirs'}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => handleTest(rule)}>Test</Button>
+              {rule.reservoirId && (
+                <>
+                  <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => run(() => alertService.saveRule({ ...rule, enabled: !rule.enabled }))}>
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => run(() => alertService.deleteRule(rule.id))}>Delete</Button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {testResult && <p className="text-xs text-slate-500 mb-4">{testResult}</p>}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm border-t border-slate-100 pt-4">
+        <select value={type} onChange={(e) => setType(e.target.value as AlertRuleType)} className="border border-slate-300 rounded-lg px-2 py-1.5">
+          {(Object.keys(RULE_LABELS) as AlertRuleType[]).map(t => (
+            <option key={t} value={t}>{RULE_LABELS[t].label}</option>
+          ))}
+        </select>
+        {type === 'STATUS_CHANGE' ? (
+          <div className="flex flex-wrap gap-3 items-center">
+            {Object.values(ReservoirStatus).map(s => (
+              <label key={s} className="flex items-center gap-1 text-xs">
+                <input type="checkbox" checked={statuses.includes(s)} onChange={() => setStatuses(toggle(statuses, s))} />
+                {s}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <input
+            type="number"
+            step="any"
+            required
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value === '' ? '' : Number(e.target.value))}
+            placeholder={RULE_LABELS[type].unit}
+            className="border border-slate-300 rounded-lg px-2 py-1.5"
+          />
+        )}
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertSeverity)} className="border border-slate-300 rounded-lg px-2 py-1.5">
+          <option value="info">Info</option>
+          <option value="warning">Warning</option>
+          <option value="critical">Critical</option>
+        </select>
+        <div className="flex flex-wrap gap-3 items-center">
+          {availableChannels.map(channel => (
+            <label key={channel.name} className="flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={channels.includes(channel.name)} onChange={() => setChannels(toggle(channels, channel.name))} />
+              {channel.label}
+            </label>
+          ))}
+        </div>
+        <Button type="submit" variant="secondary" className="sm:col-span-2">Add Rule</Button>
+      </form>
+    </Card>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AuditAction, AuditChainResult, AuditEvent, AuditFilters } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { AUDIT_EXPORT_MAX_EVENTS, auditService } from '../services/auditService';
+
+// Typing in the text fields waits this long before querying
+const TEXT_DEBOUNCE_MS = 400;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  ENTRY_CREATE: 'Reading submitted',
+  ENTRY_UPDATE: 'Reading corrected',
+  ENTRY_DELETE: 'Reading deleted',
+  ENTRY_RESTORE: 'Reading restored',
+  ROLE_CHANGE: 'Role changed',
+  STATUS_CHANGE: 'Account status changed',
+  DEVICE_ENROLL: 'Device enrolled',
+  DEVICE_REVOKE: 'Device revoked',
+  FACE_ENROLL: 'Face enrolled',
+  FACE_TEMPLATE_DELETE: 'Face template removed',
+  FACE_LOGIN_SUCCESS: 'Face login matched',
+  FACE_LOGIN_FAILURE: 'Face login rejected',
+  PIN_LOGIN_SUCCESS: 'PIN accepted',
+  PIN_LOGIN_FAILURE: 'PIN rejected',
+  SIGN_IN: 'Signed in'
+};
+
+const isFailure = (action: AuditAction) =>
+  action.endsWith('_FAILURE') || action === 'ENTRY_DELETE' || action === 'DEVICE_REVOKE';
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-2 py-1.5 text-sm';
+
+/**
+ * SUPER_ADMIN view of the hash-chained audit log: filter, page, verify and export.
+ */
+export const AuditLogViewer: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [actor, setActor] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextBeforeSeq, setNextBeforeSeq] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSeq, setExpandedSeq] = useState<number | null>(null);
+  const [verification, setVerification] = useState<AuditChainResult | null>(null);
+  const [verifyProgress, setVerifyProgress] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  // Ignore responses to requests superseded by a newer filter
+  const request = useRef(0);
+
+  useEffect(() => {
+    const next = { actor: actor.trim() || undefined, targetId: targetId.trim() || undefined };
+    if (next.actor === filters.actor && next.targetId === filters.targetId) return;
+    const timer = setTimeout(() => setFilters({ ...filters, ...next }), TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [actor, targetId, filters]);
+
+  const load = async (beforeSeq: number | null) => {
+    const id = ++request.current;
+    setIsLoading(true);
+    try {
+      const page = await auditService.getEvents(filters, beforeSeq);
+      if (id !== request.current) return;
+      setEvents(previous => (beforeSeq === null ? page.events : [...previous, ...page.events]));
+      setNextBeforeSeq(page.nextBeforeSeq);
+      setError(null);
+    } catch (e: any) {
+      if (id === request.current) setError(e.message);
+    } finally {
+      if (id === request.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(null);
+  }, [filters]);
+
+  const handleVerify = async () => {
+    setVerification(null);
+    setVerifyProgress(0);
+    try {
+      setVerification(await auditService.verifyChain(setVerifyProgress));
+    } catch (e: any) {
+      alert(`Verification failed to run: ${e.message}`);
+    } finally {
+      setVerifyProgress(null);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setIsExporting(true);
+    try {
+      const { events: matching, truncated } = await auditService.collectEvents(filters);
+      if (matching.length === 0) {
+        alert("No events match the current filters.");
+        return;
+      }
+      if (truncated && !confirm(`Only the ${AUDIT_EXPORT_MAX_EVENTS} most recent matching events will be exported. Narrow the filters to export the rest. Continue?`)) {
+        return;
+      }
+      auditService.exportEvents(format, matching);
+    } catch (e: any) {
+      alert(`Export failed: ${e.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const set = (changes: Partial<AuditFilters>) => setFilters({ ...filters, ...changes });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Audit Log</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Every data change, enrollment, login attempt and role change, recorded by the database in a hash chain.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" className="text-xs px-2 py-1" disabled={isExporting} onClick={() => handleExport('csv')}>CSV</Button>
+          <Button variant="secondary" className="text-xs px-2 py-1" disabled={isExporting} onClick={() => handleExport('xlsx')}>Excel</Button>
+          <Button className="text-xs px-2 py-1" isLoading={verifyProgress !== null} onClick={handleVerify}>Verify Chain</Button>
+        </div>
+      </div>
+
+      {verifyProgress !== null && (
+        <p className="text-xs text-slate-500 animate-pulse">Verifying... {verifyProgress} events checked</p>
+      )}
+      {verification && (
+        <div className={`rounded-xl border p-4 text-sm ${verification.brokenAt === null ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+          {verification.brokenAt === null ? (
+            <>
+              <p className="font-semibold">Chain intact: {verification.checked} events verified.</p>
+              {verification.headHash && (
+                <p className="text-xs mt-1 break-all">
+                  Head hash <span className="font-mono">{verification.headHash}</span>. Keep a copy outside the database; a later head that does not extend this one means the log was rewritten.
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="font-semibold">Chain broken at event #{verification.brokenAt}: {verification.problem}.</p>
+              <p className="text-xs mt-1">{verification.checked} earlier events verified. Events from #{verification.brokenAt} on cannot be trusted.</p>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">From</span>
+          <input type="date" value={filters.from || ''} max={filters.to} onChange={(e) => set({ from: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">To</span>
+          <input type="date" value={filters.to || ''} min={filters.from} onChange={(e) => set({ to: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Action</span>
+          <select value={filters.action || ''} onChange={(e) => set({ action: (e.target.value || undefined) as AuditAction | undefined })} className={inputClass}>
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Actor</span>
+          <input type="text" value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Name contains" className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Target ID</span>
+          <input type="text" value={targetId} onChange={(e) => setTargetId(e.target.value)} placeholder="Reading or user ID" className={inputClass} />
+        </label>
+      </div>
+
+      <Card className="p-0 overflow-hidden">
+        {error && <p className="p-4 text-sm text-red-600">Audit log unavailable: {error}</p>}
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50">
+            <tr className="text-left text-xs text-slate-500">
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">Time</th>
+              <th className="px-3 py-2">Actor</th>
+              <th className="px-3 py-2">Action</th>
+              <th className="px-3 py-2">Target</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {events.map(event => (
+              <React.Fragment key={event.seq}>
+                <tr
+                  className="cursor-pointer hover:bg-slate-50"
+                  onClick={() => setExpandedSeq(expandedSeq === event.seq ? null : event.seq)}
+                >
+                  <td className="px-3 py-2 text-xs text-slate-400">{event.seq}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-slate-600">{new Date(event.occurredAt).toLocaleString()}</td>
+                  <td className="px-3 py-2 text-slate-900">{event.actorName}</td>
+                  <td className="px-3 py-2">
+                    <span className={`text-xs font-medium ${isFailure(event.action) ? 'text-red-700' : 'text-slate-700'}`}>
+                      {ACTION_LABELS[event.action] || event.action}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-500 font-mono break-all">{event.targetId ?? '-'}</td>
+                </tr>
+                {expandedSeq === event.seq && (
+                  <tr className="bg-slate-50">
+                    <td colSpan={5} className="px-3 py-2">
+                      <pre className="text-xs text-slate-700 whitespace-pre-wrap break-all">{JSON.stringify(event.details, null, 2)}</pre>
+                      <p className="text-[10px] text-slate-400 font-mono mt-1 break-all">hash {event.hash}</p>
+                      <p className="text-[10px] text-slate-400 font-mono break-all">prev {event.prevHash}</p>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+            {!isLoading && !error && events.length === 0 && (
+              <tr><td colSpan={5} className="px-3 py-6 text-center text-slate-400">No events match the current filters.</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="p-3 text-center">
+          {isLoading && <p className="text-xs text-slate-400 animate-pulse">Loading...</p>}
+          {!isLoading && nextBeforeSeq !== null && (
+            <Button variant="ghost" className="text-xs" onClick={() => load(nextBeforeSeq)}>Load older events</Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
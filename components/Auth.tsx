@@ -1,5 +1,4 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { UserRole } from '../types';
 import { authService } from '../services/authService';
 import { Button } from './Button';
 
@@ -17,9 +16,19 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
 
   // Enrollment State
   const [name, setName] = useState('');
-  const [role, setRole] = useState<UserRole>(UserRole.DATA_ENTRY_WORKER);
   const [isEnrollmentStarted, setIsEnrollmentStarted] = useState(false);
 
+  // Enrollment: set once the live face check passes; the passkey ceremony then needs a tap (user gesture)
+  const [faceVerified, setFaceVerified] = useState(false);
+
+  // Sign-in: set once the passkey is verified; the face (or PIN) check then completes it
+  const [passkeyVerified, setPasskeyVerified] = useState(false);
+
+  // PIN fallback after repeated face mismatches; PIN is chosen at enrollment
+  const [pin, setPin] = useState('');
+  const [pinRequired, setPinRequired] = useState(false);
+  const enrollImageRef = useRef<string | null>(null);
+
   // Camera Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -35,14 +44,14 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
 
   // 2. Start Camera when mode is VERIFY or Enrollment Started
   useEffect(() => {
-    if (mode === 'VERIFY' || (mode === 'ENROLL' && isEnrollmentStarted)) {
+    if ((mode === 'VERIFY' && passkeyVerified && !pinRequired) || (mode === 'ENROLL' && isEnrollmentStarted)) {
       startCamera();
     }
     return () => {
       stopCamera();
       stopScanningLoop();
     };
-  }, [mode, isEnrollmentStarted]);
+  }, [mode, isEnrollmentStarted, passkeyVerified, pinRequired]);
 
   // 3. Auto-Start Scanning Logic
   useEffect(() => {
@@ -129,17 +138,44 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
     setError(null);
 
     try {
-      await authService.faceLogin(image);
+      await authService.verifyFace(image);
       stopScanningLoop();
       stopCamera();
       setStatusMessage("Identity Verified");
       onLoginSuccess();
     } catch (err: any) {
       console.log("Scan failed, retrying...", err.message);
-      // Don't set hard error, just status update
-      setStatusMessage("Adjust face position...");
       setIsLoading(false);
       isScanningRef.current = false;
+      // The login ticket lapsed while scanning: start over from the passkey
+      if (/expired/i.test(err.message || '')) {
+        stopScanningLoop();
+        stopCamera();
+        setPasskeyVerified(false);
+        setError(err.message);
+        return;
+      }
+      if (await authService.isPinFallbackRequired().catch(() => false)) {
+        stopScanningLoop();
+        stopCamera();
+        setPinRequired(true);
+        setError("Face not recognised. Enter your PIN.");
+        return;
+      }
+      // Don't set hard error, just status update
+      setStatusMessage("Adjust face position...");
+    }
+  };
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await authService.verifyPin(pin);
+      setPin('');
+      onLoginSuccess();
+    } catch (err: any) {
+      setError(err.message || "Incorrect PIN");
     }
   };
 
@@ -179,9 +215,11 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
       }
 
       try {
-          await authService.enrollDevice(name, role, image);
+          await authService.checkFace(image);
+          enrollImageRef.current = image;
           stopCamera();
-          onLoginSuccess();
+          setFaceVerified(true);
+          setIsLoading(false);
       } catch (err: any) {
           setError(err.message || "Enrollment Failed");
           setIsLoading(false);
@@ -189,6 +227,30 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
       }
   };
 
+  // --- PASSKEY CEREMONY (runs from the button tap) ---
+  const handlePasskey = async () => {
+      setIsLoading(true);
+      setError(null);
+      setStatusMessage(mode === 'ENROLL' ? "Creating Device Passkey..." : "Waiting for Passkey...");
+
+      try {
+          if (mode === 'ENROLL') {
+              await authService.enrollDevice(name, enrollImageRef.current!, pin);
+              setStatusMessage("Identity Verified");
+              onLoginSuccess();
+              return;
+          }
+          const { pinRequired: required } = await authService.passkeyLogin();
+          setPinRequired(required);
+          setPasskeyVerified(true);
+          if (required) setError("Face not recognised. Enter your PIN.");
+          setIsLoading(false);
+      } catch (err: any) {
+          setError(err.message || "Passkey Failed");
+          setIsLoading(false);
+      }
+  };
+
   const handleReset = () => {
       if (confirm("This will remove the current user from this device. Continue?")) {
           authService.resetEnrollment();
@@ -197,6 +259,10 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
           setError(null);
           setName('');
           setIsEnrollmentStarted(false);
+          setFaceVerified(false);
+          setPasskeyVerified(false);
+          setPinRequired(false);
+          setPin('');
       }
   };
 
@@ -218,7 +284,7 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
         </div>
 
         {/* Camera Feed Area */}
-        { (mode === 'VERIFY' || isEnrollmentStarted) ? (
+        { ((mode === 'VERIFY' && passkeyVerified && !pinRequired) || isEnrollmentStarted) && !faceVerified ? (
             <div className="relative mx-auto w-64 h-64 bg-black rounded-full border-4 border-slate-700 overflow-hidden shadow-inner flex items-center justify-center group">
             <video 
                 ref={videoRef} 
@@ -277,7 +343,11 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
                 <p className="text-cyan-400 text-sm font-mono animate-pulse">{statusMessage}</p>
             ) : error ? (
                 <p className="text-red-400 text-sm font-bold animate-bounce">{error}</p>
-            ) : mode === 'VERIFY' ? (
+            ) : faceVerified ? (
+                <p className="text-green-400 text-sm font-bold">Face captured. Create your device passkey.</p>
+            ) : mode === 'VERIFY' && !passkeyVerified ? (
+                <p className="text-slate-400 text-sm">Unlock with your device passkey to begin.</p>
+            ) : mode === 'VERIFY' && !pinRequired ? (
                 <p className="text-slate-400 text-sm animate-pulse">Scanning...</p>
             ) : (
                 <p className="text-slate-400 text-sm">Waiting for input</p>
@@ -299,17 +369,22 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
                />
             </div>
             <div>
-               <label className="text-xs text-slate-400 uppercase font-bold ml-1">Clearance Level</label>
-               <select 
-                 value={role}
-                 onChange={(e) => setRole(e.target.value as UserRole)}
-                 className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-cyan-500 outline-none"
-               >
-                 <option value={UserRole.DATA_ENTRY_WORKER}>Field Worker</option>
-                 <option value={UserRole.ADMIN}>Admin</option>
-                 <option value={UserRole.SUPER_ADMIN}>Super Admin</option>
-               </select>
+               <label className="text-xs text-slate-400 uppercase font-bold ml-1">Fallback PIN</label>
+               <input 
+                 type="password" 
+                 required
+                 inputMode="numeric"
+                 pattern="[0-9]{4,8}"
+                 title="4 to 8 digits"
+                 value={pin}
+                 onChange={(e) => setPin(e.target.value)}
+                 className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-cyan-500 outline-none tracking-widest"
+                 placeholder="Used if face recognition fails"
+               />
             </div>
+            <p className="text-xs text-slate-500">
+                New officers join as Field Workers pending approval. A Super Admin assigns clearance.
+            </p>
             <Button 
                 type="submit" 
                 disabled={isLoading}
@@ -323,6 +398,38 @@ export const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
           </form>
         )}
         
+        {mode === 'VERIFY' && passkeyVerified && pinRequired && (
+          <form onSubmit={handlePinSubmit} className="space-y-4">
+            <input 
+              type="password" 
+              required
+              autoFocus
+              inputMode="numeric"
+              pattern="[0-9]{4,8}"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white text-center text-2xl focus:ring-2 focus:ring-cyan-500 outline-none tracking-[0.5em]"
+              placeholder="PIN"
+            />
+            <Button 
+                type="submit" 
+                className="w-full py-4 bg-cyan-600 hover:bg-cyan-500 text-white font-bold tracking-widest uppercase border-none"
+            >
+                Verify PIN
+            </Button>
+          </form>
+        )}
+
+        {((mode === 'ENROLL' && faceVerified) || (mode === 'VERIFY' && !passkeyVerified)) && (
+            <Button
+                onClick={handlePasskey}
+                disabled={isLoading}
+                className="w-full py-4 bg-cyan-600 hover:bg-cyan-500 text-white font-bold tracking-widest uppercase shadow-[0_0_20px_rgba(8,145,178,0.4)] border-none"
+            >
+                {mode === 'ENROLL' ? 'Create Device Passkey' : 'Unlock with Passkey'}
+            </Button>
+        )}
+
         {mode === 'VERIFY' && (
            <div className="text-center pt-2">
                <button 
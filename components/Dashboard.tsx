@@ -1,15 +1,36 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { User, UserRole, ReservoirEntry, ReservoirStatus } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { User, UserRole, UserProfile, EntryCursor, EntryFilters, LocalOnlyReason, ReservoirAssignment, ReservoirForecast, OutboxRecord, ReconciliationReport, Reservoir, ReservoirEntry, ReservoirStatus, RealtimeStatus, ReviewStatus, SyncConflict } from '../types';
 import { DataEntryForm } from './DataEntryForm';
 import { Card } from './Card';
 import { Button } from './Button';
-import { dataService } from '../services/dataService';
+import { ENTRY_PAGE_SIZE, dataService } from '../services/dataService';
+import { applyEntryChange } from '../services/reconciliationService';
+import { reservoirService } from '../services/reservoirService';
+import { outboxService } from '../services/outboxService';
+import { userService } from '../services/userService';
+import { UserManagement } from './UserManagement';
+import { ReservoirDetail } from './ReservoirDetail';
+import { EntryFilterBar } from './EntryFilterBar';
+import { ExportMenu } from './ExportMenu';
+import { ImportWizard } from './ImportWizard';
+import { EntryEditForm } from './EntryEditForm';
+import { EntryHistoryDrawer } from './EntryHistoryDrawer';
+import { ReviewQueue } from './ReviewQueue';
+import { AuditLogViewer } from './AuditLogViewer';
+import { EntryPhotos } from './EntryPhotos';
+import { OperationalSummary } from './OperationalFields';
+import { openQualityFlags } from '../services/validationService';
+import { REVIEW_STATUS_LABELS, reviewStatusOf } from '../services/reviewService';
+import { compareEntries, filtersFromSearch, filtersToSearch, hasFilters, isAfterCursor, matchesFilters } from '../services/entryFilterService';
+import { describeForecast, forecastReservoir } from '../services/forecastService';
+import { alertService } from '../services/alertService';
+import { canDeleteEntry, canEditEntry, canExportEntries, canImportEntries, canManageAlertRules, canManageUsers, canResolveSync, canReviewEntries, canReviewQuality, canSubmitEntries, canViewAuditLog, canViewEntry } from '../services/permissionService';
 
 // Google Maps API Key from environment
 const apiKey = process.env.API_KEY || '';
 
 // Internal Map Component using Google Maps JS API
-const MapView: React.FC<{ entries: ReservoirEntry[] }> = ({ entries }) => {
+const MapView: React.FC<{ entries: ReservoirEntry[], forecasts: Map<string, ReservoirForecast | null> }> = ({ entries, forecasts }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
@@ -146,6 +167,9 @@ const MapView: React.FC<{ entries: ReservoirEntry[] }> = ({ entries }) => {
              <span style="font-size: 10px; font-weight: bold; text-transform: uppercase; color: ${color};">
                ${entry.status}
              </span>
+             ${forecasts.has(entry.reservoirId)
+               ? `<p style="margin: 4px 0 0 0; font-size: 11px; color: #6d28d9;">${describeForecast(forecasts.get(entry.reservoirId) ?? null)}</p>`
+               : ''}
           </div>
         </div>
       `;
@@ -170,7 +194,7 @@ const MapView: React.FC<{ entries: ReservoirEntry[] }> = ({ entries }) => {
         google.maps.event.removeListener(listener); 
       });
     }
-  }, [entries, isMapLoaded, mapError]);
+  }, [entries, forecasts, isMapLoaded, mapError]);
 
   if (mapError) {
     return (
@@ -190,33 +214,245 @@ const MapView: React.FC<{ entries: ReservoirEntry[] }> = ({ entries }) => {
   return <div ref={mapContainerRef} className="h-[600px] w-full rounded-xl z-0 border border-slate-200 shadow-inner bg-slate-100" />;
 };
 
+const LOCAL_ONLY_LABELS: Record<LocalOnlyReason, string> = {
+  'pending': 'Awaiting upload',
+  'failed': 'Upload failed',
+  'conflict': 'Conflicts with server',
+  'cache-only': 'Only on this device'
+};
+
+const REVIEW_BADGE_STYLES: Record<ReviewStatus, string> = {
+  PENDING: 'bg-slate-100 text-slate-600 border-slate-200',
+  APPROVED: 'bg-green-100 text-green-800 border-green-200',
+  REJECTED: 'bg-red-100 text-red-800 border-red-200',
+  CORRECTION_REQUESTED: 'bg-amber-100 text-amber-800 border-amber-200'
+};
+
+const REALTIME_STYLES: Record<RealtimeStatus, { label: string, className: string, dot: string }> = {
+  live: { label: 'Live Updates', className: 'bg-green-50 text-green-700 border-green-200', dot: 'bg-green-500 animate-pulse' },
+  polling: { label: 'Polling (Realtime unavailable)', className: 'bg-orange-50 text-orange-700 border-orange-200', dot: 'bg-orange-500' },
+  connecting: { label: 'Connecting…', className: 'bg-slate-50 text-slate-600 border-slate-200', dot: 'bg-slate-400' }
+};
+
+// Wait for a burst of pushed changes to settle before re-running alert rules
+const ALERT_EVALUATION_DELAY_MS = 2000;
+
+interface ReservoirGroup {
+  key: string;
+  reservoir: Reservoir | null; // null for legacy readings without a registry reference
+  entries: ReservoirEntry[]; // newest first
+}
+
+// Group readings by registry reservoir, most recently reported first
+const groupByReservoir = (entries: ReservoirEntry[], reservoirs: Reservoir[]): ReservoirGroup[] => {
+  const byKey = new Map<string, ReservoirGroup>();
+  entries.forEach(entry => {
+    const key = entry.reservoirId || 'unassigned';
+    if (!byKey.has(key)) {
+      byKey.set(key, {
+        key,
+        reservoir: reservoirs.find(r => r.id === entry.reservoirId) || null,
+        entries: []
+      });
+    }
+    byKey.get(key)!.entries.push(entry);
+  });
+  return Array.from(byKey.values())
+    .map(group => ({ ...group, entries: [...group.entries].sort((a, b) => b.timestamp - a.timestamp) }))
+    .sort((a, b) => b.entries[0].timestamp - a.entries[0].timestamp);
+};
+
 interface DashboardProps {
   user: User;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
-  const [entries, setEntries] = useState<ReservoirEntry[]>([]);
+  const [allEntries, setAllEntries] = useState<ReservoirEntry[]>([]);
+  const [reservoirs, setReservoirs] = useState<Reservoir[]>([]);
+  const [assignments, setAssignments] = useState<ReservoirAssignment[]>([]);
   const [dbSource, setDbSource] = useState<'MYSQL' | 'LOCAL'>('LOCAL');
-  const [activeTab, setActiveTab] = useState<'overview' | 'entry' | 'map'>('overview');
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('connecting');
+  const [activeTab, setActiveTab] = useState<'overview' | 'entry' | 'map' | 'import' | 'users' | 'audit' | 'review'>('overview');
   const [isLoading, setIsLoading] = useState(true);
   const [isMissingTable, setIsMissingTable] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxRecord[]>([]);
+  const [report, setReport] = useState<ReconciliationReport>({ localOnly: [], conflicts: [] });
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [selectedGroupKey, setSelectedGroupKey] = useState<string | null>(null);
+  const [pendingUsers, setPendingUsers] = useState<UserProfile[]>([]);
+  const [approvalRoles, setApprovalRoles] = useState<Record<string, UserRole>>({});
+  const [filters, setFilters] = useState<EntryFilters>(() => filtersFromSearch(window.location.search));
+  const [listEntries, setListEntries] = useState<ReservoirEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<EntryCursor | null>(null);
+  const [isListLoading, setIsListLoading] = useState(true);
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<ReservoirEntry | null>(null);
+  const [deletedEntries, setDeletedEntries] = useState<ReservoirEntry[]>([]);
+  const listRequest = useRef(0);
+  const filtersRef = useRef(filters);
+  const listSizeRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  filtersRef.current = filters;
+  listSizeRef.current = listEntries.length;
 
   // Load data from Service
   const loadData = async () => {
     setIsLoading(true);
-    const { data, source, isMissingTable: missing } = await dataService.getEntries();
-    setEntries(data);
+    const [{ data, source, isMissingTable: missing, report: syncReport }, registry, ownAssignments] = await Promise.all([
+      dataService.getEntries(),
+      reservoirService.getReservoirs(),
+      userService.getOwnAssignments(user.id)
+    ]);
+    setAllEntries(data);
+    setReservoirs(registry.data);
+    setAssignments(ownAssignments);
     setDbSource(source);
     setIsMissingTable(!!missing);
+    setReport(syncReport);
     setIsLoading(false);
   };
 
+  // Overview list: one query per page; only the latest request may update the list
+  const fetchList = async (activeFilters: EntryFilters, cursor: EntryCursor | null, limit: number = ENTRY_PAGE_SIZE) => {
+    const request = ++listRequest.current;
+    setIsListLoading(true);
+    const page = await dataService.queryEntries(activeFilters, cursor, limit);
+    if (request !== listRequest.current) return;
+    setListEntries(prev => (cursor
+      ? [...prev.filter(e => !page.entries.some(p => p.id === e.id)), ...page.entries].sort(compareEntries)
+      : page.entries));
+    setNextCursor(page.nextCursor);
+    setIsListLoading(false);
+  };
+
+  // Reload as many readings as are already shown, so refreshing does not lose the scroll position
+  const refreshList = () => fetchList(filtersRef.current, null, Math.max(ENTRY_PAGE_SIZE, listSizeRef.current));
+
+  // Soft-deleted readings, for admins to restore
+  const loadDeletedEntries = async () => {
+    if (user.role === UserRole.DATA_ENTRY_WORKER) return;
+    try {
+      setDeletedEntries(await dataService.getDeletedEntries());
+    } catch (e: any) {
+      console.warn("Deleted readings unavailable:", e.message);
+    }
+  };
+
+  const refresh = () => Promise.all([loadData(), refreshList(), loadDeletedEntries()]);
+
+  const loadMore = () => {
+    if (nextCursor && !isListLoading) fetchList(filters, nextCursor);
+  };
+
+  // Filters live in the URL so a filtered view can be bookmarked or shared
+  useEffect(() => {
+    const search = filtersToSearch(filters);
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    fetchList(filters, null);
+  }, [filters]);
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(([item]) => {
+      if (item.isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isListLoading, filters, activeTab, selectedGroupKey]);
+
+  // Live updates: changes are pushed over Realtime, with polling while the channel is down
   useEffect(() => {
     loadData();
-    // Auto-refresh every 30s to keep data live
-    const interval = setInterval(loadData, 30000);
-    return () => clearInterval(interval);
+    return dataService.subscribeToChanges(
+      change => {
+        setAllEntries(prev => applyEntryChange(prev, change));
+        setListEntries(prev => applyEntryChange(prev, change));
+      },
+      setRealtimeStatus,
+      refresh
+    );
   }, []);
+
+  // Offline outbox: live sync state plus retry when connectivity returns
+  useEffect(() => {
+    const unsubscribe = outboxService.subscribe(setOutbox);
+    const stopSync = dataService.startBackgroundSync();
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, []);
+
+  // Enrollment approvals (SUPER_ADMIN only)
+  const loadPendingUsers = async () => {
+    try {
+      setPendingUsers(await userService.getPendingUsers());
+    } catch (e: any) {
+      console.warn("Pending users unavailable:", e.message);
+    }
+  };
+
+  useEffect(() => {
+    if (canManageUsers(user)) loadPendingUsers();
+  }, [user.role]);
+
+  useEffect(() => {
+    loadDeletedEntries();
+  }, [user.role]);
+
+  const handleApproveUser = async (pending: UserProfile) => {
+    try {
+      await userService.approveUser(pending.id, approvalRoles[pending.id] || UserRole.DATA_ENTRY_WORKER);
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await loadPendingUsers();
+  };
+
+  const handleRejectUser = async (pending: UserProfile) => {
+    if (!confirm(`Reject the enrollment of ${pending.name}?`)) return;
+    try {
+      await userService.rejectUser(pending.id);
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await loadPendingUsers();
+  };
+
+  // The database already filters by scope; this also covers the offline cache and outbox
+  const entries = useMemo(
+    () => allEntries.filter(entry => canViewEntry(user, assignments, reservoirs, entry)),
+    [allEntries, user, assignments, reservoirs]
+  );
+
+  const unsyncedRecords = useMemo(
+    () => report.localOnly.filter(({ entry }) => canResolveSync(user, assignments, reservoirs, entry)),
+    [report, user, assignments, reservoirs]
+  );
+
+  // Alerts opened or handled on other clients; admins are notified of new ones here
+  useEffect(() => alertService.watch(user), [user]);
+
+  // Alert rules run against what this user can see; a burst of pushed changes is evaluated once
+  useEffect(() => {
+    if (reservoirs.length === 0) return;
+    const timer = setTimeout(() => {
+      alertService.evaluate(entries, reservoirs, user).catch(e => console.warn("Alert evaluation failed", e));
+    }, ALERT_EVALUATION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [entries, reservoirs, user]);
+
+  const pendingCount = outbox.filter(r => r.state === 'pending').length;
+  const failedCount = outbox.filter(r => r.state === 'failed').length;
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await dataService.syncPending(true);
+    setIsSyncing(false);
+    await refresh();
+  };
   
   // Set default tab based on role on mount
   useEffect(() => {
@@ -225,19 +461,92 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
   }, [user.role]);
 
+  const groups = useMemo(() => groupByReservoir(entries, reservoirs), [entries, reservoirs]);
+
+  // The overview list pages through the query results. Pushed changes are merged in and
+  // re-checked against the filters; anything past the loaded pages waits for its page.
+  const listedEntries = useMemo(
+    () => listEntries.filter(entry =>
+      canViewEntry(user, assignments, reservoirs, entry)
+      && matchesFilters(entry, filters, reservoirs)
+      && !(nextCursor && isAfterCursor(entry, nextCursor))
+    ),
+    [listEntries, filters, nextCursor, user, assignments, reservoirs]
+  );
+  const listGroups = useMemo(() => groupByReservoir(listedEntries, reservoirs), [listedEntries, reservoirs]);
+
+  const latestEntries = useMemo(() => groups.map(g => g.entries[0]), [groups]);
+  const selectedGroup = groups.find(g => g.key === selectedGroupKey) || null;
+
+  const forecasts = useMemo(() => {
+    const byReservoir = new Map<string, ReservoirForecast | null>();
+    groups.forEach(group => {
+      if (group.reservoir) byReservoir.set(group.reservoir.id, forecastReservoir(group.reservoir, group.entries));
+    });
+    return byReservoir;
+  }, [groups]);
+
   const handleNewEntry = async (entry: ReservoirEntry) => {
     await dataService.addEntry(entry);
-    await loadData(); // Refresh data
+    await refresh();
     setActiveTab('overview');
   };
 
-  const handleDeleteEntry = async (id: string) => {
-    if (confirm('Are you sure you want to delete this record?')) {
-      await dataService.deleteEntry(id);
-      await loadData();
+  const localOnlyReasons = useMemo(
+    () => new Map(report.localOnly.map(r => [r.entry.id, r.reason])),
+    [report]
+  );
+
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'cloud') => {
+    await dataService.resolveConflict(conflict, keep);
+    await refresh();
+  };
+
+  const handleDeleteEntry = async (entry: ReservoirEntry) => {
+    const reason = prompt('Reason for deleting this reading? It can be restored later.');
+    if (!reason?.trim()) return;
+    try {
+      await dataService.deleteEntry(entry, user.name, reason.trim());
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await refresh();
+  };
+
+  const handleRestoreEntry = async (entry: ReservoirEntry) => {
+    const reason = prompt(`Reason for restoring the ${entry.name} reading of ${new Date(entry.timestamp).toLocaleString()}?`);
+    if (!reason?.trim()) return;
+    try {
+      await dataService.restoreEntry(entry, reason.trim());
+    } catch (e: any) {
+      alert(e.message);
     }
+    await refresh();
   };
 
+  const handleClearFlags = async (entry: ReservoirEntry) => {
+    const note = prompt(`Review note for the ${entry.name} reading of ${new Date(entry.timestamp).toLocaleString()}? E.g. "Confirmed with the site engineer".`);
+    if (!note?.trim()) return;
+    try {
+      await dataService.clearQualityFlags(entry, user, note.trim());
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await refresh();
+  };
+
+  const handleSaveEdit = async (entry: ReservoirEntry, changes: Partial<ReservoirEntry>, reason: string) => {
+    try {
+      await dataService.updateEntry(entry, changes, reason);
+      setEditingEntryId(null);
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await refresh();
+  };
+
+  const restorableEntries = deletedEntries.filter(entry => canDeleteEntry(user, assignments, reservoirs, entry));
+
   const getStatusColor = (status: ReservoirStatus) => {
     switch (status) {
       case ReservoirStatus.NORMAL: return 'bg-green-100 text-green-800';
@@ -269,6 +578,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           {dbSource === 'MYSQL' ? 'Connected: Supabase (Cloud)' : 'Offline Mode: Local Storage'}
         </div>
 
+        {/* Live Updates Indicator */}
+        <div className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 border ${REALTIME_STYLES[realtimeStatus].className}`}>
+          <div className={`w-2 h-2 rounded-full ${REALTIME_STYLES[realtimeStatus].dot}`} />
+          {REALTIME_STYLES[realtimeStatus].label}
+        </div>
+
+        {/* Outbox Sync Status */}
+        <div className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center justify-between gap-2 border ${
+          failedCount > 0
+            ? 'bg-red-50 text-red-700 border-red-200'
+            : pendingCount > 0
+              ? 'bg-yellow-50 text-yellow-700 border-yellow-200'
+              : 'bg-slate-50 text-slate-600 border-slate-200'
+        }`}>
+          <span title={outbox.find(r => r.state === 'failed')?.lastError}>
+            {pendingCount === 0 && failedCount === 0
+              ? 'All readings synced'
+              : `${pendingCount} pending · ${failedCount} failed`}
+          </span>
+          {(pendingCount > 0 || failedCount > 0) && (
+            <button onClick={handleSyncNow} disabled={isSyncing} className="underline underline-offset-2 disabled:opacity-50">
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </button>
+          )}
+        </div>
+
         <Card className="p-2">
           <nav className="space-y-1">
             <button
@@ -299,7 +634,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               Map View
             </button>
 
-            {(user.role === UserRole.DATA_ENTRY_WORKER || user.role === UserRole.SUPER_ADMIN) && (
+            {canSubmitEntries(user) && (
               <button
                 onClick={() => setActiveTab('entry')}
                 className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
@@ -315,17 +650,69 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               </button>
             )}
 
-            {user.role === UserRole.SUPER_ADMIN && (
+            {canImportEntries(user) && (
+              <button
+                onClick={() => setActiveTab('import')}
+                className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
+                  activeTab === 'import'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <svg className={`mr-3 h-5 w-5 ${activeTab === 'import' ? 'text-blue-500' : 'text-slate-400'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                Import Readings
+              </button>
+            )}
+
+            {canManageUsers(user) && (
               <button
-                className="w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg text-slate-600 hover:bg-slate-50 opacity-50 cursor-not-allowed"
-                disabled
+                onClick={() => setActiveTab('users')}
+                className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
+                  activeTab === 'users' 
+                    ? 'bg-blue-50 text-blue-700' 
+                    : 'text-slate-600 hover:bg-slate-50'
+                }`}
               >
-                <svg className="mr-3 h-5 w-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <svg className={`mr-3 h-5 w-5 ${activeTab === 'users' ? 'text-blue-500' : 'text-slate-400'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
                 </svg>
                 Manage Users
               </button>
             )}
+
+            {canReviewEntries(user) && (
+              <button
+                onClick={() => setActiveTab('review')}
+                className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
+                  activeTab === 'review'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <svg className={`mr-3 h-5 w-5 ${activeTab === 'review' ? 'text-blue-500' : 'text-slate-400'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                Review Queue
+              </button>
+            )}
+
+            {canViewAuditLog(user) && (
+              <button
+                onClick={() => setActiveTab('audit')}
+                className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
+                  activeTab === 'audit'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <svg className={`mr-3 h-5 w-5 ${activeTab === 'audit' ? 'text-blue-500' : 'text-slate-400'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+                Audit Log
+              </button>
+            )}
           </nav>
         </Card>
 
@@ -363,10 +750,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         {activeTab === 'entry' && (
           <div className="max-w-2xl mx-auto">
             <h2 className="text-2xl font-bold text-slate-900 mb-6">Record New Measurement</h2>
-            <DataEntryForm user={user} onSubmit={handleNewEntry} />
+            <DataEntryForm user={user} assignments={assignments} recentEntries={allEntries} onSubmit={handleNewEntry} />
           </div>
         )}
 
+        {activeTab === 'import' && canImportEntries(user) && (
+          <ImportWizard user={user} reservoirs={reservoirs} assignments={assignments} onImported={refresh} />
+        )}
+
+        {activeTab === 'users' && canManageUsers(user) && (
+          <UserManagement currentUser={user} reservoirs={reservoirs} />
+        )}
+
+        {activeTab === 'review' && canReviewEntries(user) && (
+          <ReviewQueue user={user} reservoirs={reservoirs} assignments={assignments} onReviewed={refresh} />
+        )}
+
+        {activeTab === 'audit' && canViewAuditLog(user) && (
+          <AuditLogViewer />
+        )}
+
         {activeTab === 'map' && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
@@ -380,122 +783,362 @@ export const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   <p>No verified locations to display on map yet.</p>
                 </div>
               ) : (
-                <MapView entries={entries} />
+                <MapView entries={latestEntries} forecasts={forecasts} />
               )}
             </Card>
           </div>
         )}
 
-        {activeTab === 'overview' && (
+        {activeTab === 'overview' && selectedGroup && (
+          <ReservoirDetail
+            reservoir={selectedGroup.reservoir}
+            entries={selectedGroup.entries}
+            forecast={selectedGroup.reservoir ? forecasts.get(selectedGroup.reservoir.id) ?? null : null}
+            canEditAlertRules={!!selectedGroup.reservoir && canManageAlertRules(user, assignments, selectedGroup.reservoir)}
+            onBack={() => setSelectedGroupKey(null)}
+          />
+        )}
+
+        {activeTab === 'overview' && !selectedGroup && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold text-slate-900">
                 {user.role === UserRole.DATA_ENTRY_WORKER ? "My Recent Entries" : "National Reservoir Status"}
               </h2>
-              {isLoading && <span className="text-xs text-slate-400 animate-pulse">Syncing...</span>}
+              {(isLoading || isListLoading) && <span className="text-xs text-slate-400 animate-pulse">Syncing...</span>}
             </div>
 
-            {entries.length === 0 && !isLoading ? (
+            <EntryFilterBar filters={filters} reservoirs={reservoirs} onChange={setFilters} />
+            {canExportEntries(user) && (
+              <ExportMenu
+                filters={filters}
+                reservoirs={reservoirs}
+                canView={entry => canViewEntry(user, assignments, reservoirs, entry)}
+              />
+            )}
+
+            {canManageUsers(user) && pendingUsers.length > 0 && (
+              <Card title={`Pending Approvals (${pendingUsers.length})`} className="border-l-4 border-l-blue-400">
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {pendingUsers.map(pending => (
+                    <li key={pending.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <div className="flex items-center gap-3">
+                        <img src={pending.avatarUrl} alt="" className="h-8 w-8 rounded-full bg-slate-100" />
+                        <div>
+                          <p className="font-medium text-slate-900">{pending.name}</p>
+                          <p className="text-xs text-slate-500">Enrolled {new Date(pending.createdAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <select
+                          value={approvalRoles[pending.id] || UserRole.DATA_ENTRY_WORKER}
+                          onChange={(e) => setApprovalRoles({ ...approvalRoles, [pending.id]: e.target.value as UserRole })}
+                          className="text-xs border border-slate-300 rounded-lg px-2 py-1"
+                        >
+                          <option value={UserRole.DATA_ENTRY_WORKER}>Field Worker</option>
+                          <option value={UserRole.ADMIN}>Admin</option>
+                          <option value={UserRole.SUPER_ADMIN}>Super Admin</option>
+                        </select>
+                        <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleApproveUser(pending)}>Approve</Button>
+                        <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleRejectUser(pending)}>Reject</Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
+            {restorableEntries.length > 0 && (
+              <Card title={`Recently Deleted (${restorableEntries.length})`} className="border-l-4 border-l-slate-300">
+                <ul className="divide-y divide-slate-100 text-sm max-h-64 overflow-y-auto">
+                  {restorableEntries.map(entry => (
+                    <li key={entry.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-slate-900">
+                          {entry.name} &middot; {entry.waterLevel} m
+                          <span className="text-slate-500 font-normal"> on {new Date(entry.timestamp).toLocaleString()}</span>
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          Deleted by {entry.deletedBy || 'unknown'}{entry.deletedAt && `, ${new Date(entry.deletedAt).toLocaleString()}`}
+                          {entry.revisionReason && ` · "${entry.revisionReason}"`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => setHistoryEntry(entry)}>History</Button>
+                        <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleRestoreEntry(entry)}>Restore</Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+
+            {/* Reconciliation report: what has not reached the server */}
+            {unsyncedRecords.length > 0 && (
+              <Card title={`Not on Server (${unsyncedRecords.length})`} className="border-l-4 border-l-orange-400">
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {unsyncedRecords.map(({ entry, reason }) => {
+                    const conflict = report.conflicts.find(c => c.id === entry.id);
+                    return (
+                      <li key={`${reason}-${entry.id}`} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-slate-900">
+                            {entry.name} &middot; {entry.waterLevel} m
+                            <span className="text-slate-500 font-normal"> by {entry.submittedBy}, {new Date(entry.timestamp).toLocaleString()}</span>
+                          </p>
+                          <p className="text-xs text-orange-700">
+                            {LOCAL_ONLY_LABELS[reason]}
+                            {conflict && ` (server has ${conflict.cloud.waterLevel} m, updated ${new Date(conflict.cloud.updatedAt ?? conflict.cloud.timestamp).toLocaleString()})`}
+                          </p>
+                        </div>
+                        {conflict && (
+                          <div className="flex gap-2 shrink-0">
+                            <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleResolveConflict(conflict, 'local')}>Keep Local</Button>
+                            <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleResolveConflict(conflict, 'cloud')}>Keep Server</Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </Card>
+            )}
+
+            {listedEntries.length === 0 && !isListLoading && hasFilters(filters) ? (
+              <div className="text-center py-12 bg-white rounded-xl border border-dashed border-slate-300">
+                <h3 className="text-sm font-medium text-slate-900">No readings match these filters</h3>
+                <div className="mt-4">
+                  <Button variant="secondary" onClick={() => setFilters({})}>Clear Filters</Button>
+                </div>
+              </div>
+            ) : listedEntries.length === 0 && !isListLoading ? (
               <div className="text-center py-12 bg-white rounded-xl border border-dashed border-slate-300">
                 <svg className="mx-auto h-12 w-12 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
                 <h3 className="mt-2 text-sm font-medium text-slate-900">No data entries yet</h3>
                 <p className="mt-1 text-sm text-slate-500">Get started by verifying a location and adding data.</p>
-                {(user.role === UserRole.DATA_ENTRY_WORKER || user.role === UserRole.SUPER_ADMIN) && (
+                {canSubmitEntries(user) && (
                   <div className="mt-6">
                     <Button onClick={() => setActiveTab('entry')}>Add First Entry</Button>
                   </div>
                 )}
               </div>
             ) : (
-              <div className="grid gap-4">
-                {entries.map((entry) => (
-                  <Card key={entry.id} className="hover:shadow-md transition-shadow">
-                    <div className="flex flex-col md:flex-row gap-4">
-                      <div className="flex-1">
-                        <div className="flex items-start justify-between">
-                          <div>
-                            <div className="flex items-center gap-2">
-                              <h3 className="text-lg font-bold text-slate-900">{entry.name}</h3>
-                              {entry.isVerified && (
-                                <span className="bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full flex items-center gap-1 border border-green-200">
-                                  <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd"/></svg>
-                                  Valid Geofence
+              <div className="space-y-8">
+                {listGroups.map((group) => (
+                  <section key={group.key} className="space-y-3">
+                    <div className="flex items-end justify-between border-b border-slate-200 pb-2">
+                      <div>
+                        <h3 className="text-xl font-bold text-slate-900">
+                          {group.reservoir ? group.reservoir.name : 'Unregistered Readings'}
+                        </h3>
+                        <p className="text-sm text-slate-500">
+                          {group.reservoir
+                            ? `${group.reservoir.district} District · Gross capacity ${group.reservoir.grossCapacity} MCM`
+                            : 'Legacy submissions without a registry reference'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-slate-400">
+                          {group.entries.length} reading{group.entries.length === 1 ? '' : 's'} shown
+                        </span>
+                        <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => setSelectedGroupKey(group.key)}>
+                          History &amp; Trends
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid gap-4">
+                      {group.entries.map((entry) => (
+                        <Card key={entry.id} className="hover:shadow-md transition-shadow">
+                          <div className="flex flex-col md:flex-row gap-4">
+                            <div className="flex-1">
+                              <div className="flex items-start justify-between">
+                                <div>
+                                  <div className="flex items-center gap-2">
+                                    <h4 className="text-lg font-bold text-slate-900">{entry.locationName || entry.name}</h4>
+                                    {entry.isVerified && (
+                                      <span className="bg-green-100 text-green-700 text-xs px-2 py-0.5 rounded-full flex items-center gap-1 border border-green-200">
+                                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd"/></svg>
+                                        Valid Geofence
+                                      </span>
+                                    )}
+                                    {localOnlyReasons.has(entry.id) && (
+                                      <span className="bg-orange-100 text-orange-800 text-xs px-2 py-0.5 rounded-full border border-orange-200">
+                                        {LOCAL_ONLY_LABELS[localOnlyReasons.get(entry.id)!]}
+                                      </span>
+                                    )}
+                                    {entry.source === 'IMPORT' && (
+                                      <span className="bg-slate-100 text-slate-700 text-xs px-2 py-0.5 rounded-full border border-slate-200" title="Bulk-imported from a CSV file; not field-verified">
+                                        Imported
+                                      </span>
+                                    )}
+                                    {entry.gaugeReading?.verdict === 'MISMATCH' && (
+                                      <span
+                                        className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full border border-red-200"
+                                        title={`Gauge photo reads ${entry.gaugeReading.value} m (${Math.round(entry.gaugeReading.confidence * 100)}% confidence)${entry.gaugeReading.note ? `: ${entry.gaugeReading.note}` : ''}`}
+                                      >
+                                        Gauge Mismatch
+                                      </span>
+                                    )}
+                                    {openQualityFlags(entry).length > 0 && (
+                                      <span
+                                        className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full border border-red-200"
+                                        title={openQualityFlags(entry).map(f => f.message).join('\n')}
+                                      >
+                                        Needs Review
+                                      </span>
+                                    )}
+                                    <span
+                                      className={`text-xs px-2 py-0.5 rounded-full border ${REVIEW_BADGE_STYLES[reviewStatusOf(entry)]}`}
+                                      title={entry.reviewedBy && reviewStatusOf(entry) !== 'PENDING' ? `${entry.reviewedBy}, ${new Date(entry.reviewedAt!).toLocaleString()}` : undefined}
+                                    >
+                                      {REVIEW_STATUS_LABELS[reviewStatusOf(entry)]}
+                                    </span>
+                                    {entry.isManualOverride && (
+                                      <span className="bg-amber-100 text-amber-800 text-xs px-2 py-0.5 rounded-full border border-amber-200" title="Capacity/status entered manually instead of derived from the stage-storage table">
+                                        Manual Override
+                                      </span>
+                                    )}
+                                  </div>
+                                </div>
+                                <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide ${getStatusColor(entry.status)}`}>
+                                  {entry.status}
                                 </span>
+                              </div>
+                              
+                              <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                                <div>
+                                  <p className="text-slate-500">Water Level</p>
+                                  <p className="font-semibold text-slate-900">{entry.waterLevel} m</p>
+                                </div>
+                                <div>
+                                  <p className="text-slate-500">Capacity</p>
+                                  <p className="font-semibold text-slate-900">
+                                  {entry.capacityPercentage}%
+                                  {entry.storageVolume !== undefined && (
+                                    <span className="text-xs font-normal text-slate-500"> ({entry.storageVolume} MCM)</span>
+                                  )}
+                                </p>
+                                </div>
+                                <div>
+                                   <p className="text-slate-500">Reporter</p>
+                                   <p className="font-semibold text-slate-900">{entry.submittedBy}</p>
+                                </div>
+                                <div>
+                                   <p className="text-slate-500">Time</p>
+                                   <p className="font-semibold text-slate-900">{new Date(entry.timestamp).toLocaleString([], {day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute:'2-digit'})}</p>
+                                </div>
+                              </div>
+
+                              <OperationalSummary fields={entry} className="mt-3" />
+
+                              {entry.reviewComment && reviewStatusOf(entry) !== 'PENDING' && (
+                                <p className={`mt-4 text-sm rounded-lg border px-3 py-2 ${REVIEW_BADGE_STYLES[reviewStatusOf(entry)]}`}>
+                                  <span className="font-semibold">{entry.reviewedBy}:</span> {entry.reviewComment}
+                                </p>
+                              )}
+
+                              {entry.photos && entry.photos.length > 0 && (
+                                <div className="mt-4">
+                                  <EntryPhotos photos={entry.photos} />
+                                </div>
+                              )}
+
+                              {editingEntryId === entry.id && (
+                                <EntryEditForm
+                                  entry={entry}
+                                  reservoir={group.reservoir}
+                                  recentEntries={allEntries}
+                                  onSave={(changes, reason) => handleSaveEdit(entry, changes, reason)}
+                                  onCancel={() => setEditingEntryId(null)}
+                                />
+                              )}
+
+                              {entry.geminiAnalysis && (
+                                <div className="mt-4 bg-indigo-50 p-3 rounded-lg border border-indigo-100">
+                                   <p className="text-xs text-indigo-800 font-medium flex items-center gap-1 mb-1">
+                                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                                     Gemini Risk Analysis
+                                   </p>
+                                   <p className="text-sm text-indigo-900 leading-relaxed">{entry.geminiAnalysis}</p>
+                                </div>
                               )}
                             </div>
-                            <p className="text-sm text-slate-500 mt-1">{entry.locationName}</p>
-                          </div>
-                          <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide ${getStatusColor(entry.status)}`}>
-                            {entry.status}
-                          </span>
-                        </div>
-                        
-                        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
-                          <div>
-                            <p className="text-slate-500">Water Level</p>
-                            <p className="font-semibold text-slate-900">{entry.waterLevel} m</p>
-                          </div>
-                          <div>
-                            <p className="text-slate-500">Capacity</p>
-                            <p className="font-semibold text-slate-900">{entry.capacityPercentage}%</p>
-                          </div>
-                          <div>
-                             <p className="text-slate-500">Reporter</p>
-                             <p className="font-semibold text-slate-900">{entry.submittedBy}</p>
-                          </div>
-                          <div>
-                             <p className="text-slate-500">Time</p>
-                             <p className="font-semibold text-slate-900">{new Date(entry.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
-                          </div>
-                        </div>
+                            
+                            <div className="flex md:flex-col justify-between md:justify-start gap-2 border-t md:border-t-0 md:border-l border-slate-100 pt-4 md:pt-0 md:pl-4 min-w-[120px]">
+                                 {entry.groundingUrl && (
+                                   <a 
+                                     href={entry.groundingUrl} 
+                                     target="_blank" 
+                                     rel="noreferrer"
+                                     className="flex items-center justify-center gap-1 px-3 py-2 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100"
+                                   >
+                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                                      </svg>
+                                     Google Maps
+                                   </a>
+                                 )}
 
-                        {entry.geminiAnalysis && (
-                          <div className="mt-4 bg-indigo-50 p-3 rounded-lg border border-indigo-100">
-                             <p className="text-xs text-indigo-800 font-medium flex items-center gap-1 mb-1">
-                               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                               Gemini Risk Analysis
-                             </p>
-                             <p className="text-sm text-indigo-900 leading-relaxed">{entry.geminiAnalysis}</p>
+                                 {canEditEntry(user, assignments, reservoirs, entry) && editingEntryId !== entry.id && (
+                                   <Button
+                                      variant="ghost"
+                                      onClick={() => setEditingEntryId(entry.id)}
+                                      className="text-xs px-2 h-8 w-full justify-start"
+                                   >
+                                     Edit Entry
+                                   </Button>
+                                 )}
+
+                                 <Button
+                                    variant="ghost"
+                                    onClick={() => setHistoryEntry(entry)}
+                                    className="text-xs px-2 h-8 w-full justify-start"
+                                 >
+                                   History
+                                 </Button>
+
+                                 {openQualityFlags(entry).length > 0 && canReviewQuality(user, assignments, reservoirs, entry) && (
+                                   <Button
+                                      variant="ghost"
+                                      onClick={() => handleClearFlags(entry)}
+                                      className="text-xs px-2 h-8 w-full justify-start"
+                                   >
+                                     Clear Flags
+                                   </Button>
+                                 )}
+
+                                 {canDeleteEntry(user, assignments, reservoirs, entry) && (
+                                   <Button 
+                                      variant="ghost" 
+                                      onClick={() => handleDeleteEntry(entry)}
+                                      className="text-xs px-2 h-8 text-red-600 hover:text-red-700 w-full justify-start"
+                                   >
+                                     Delete Entry
+                                   </Button>
+                                 )}
+                            </div>
                           </div>
-                        )}
-                      </div>
-                      
-                      <div className="flex md:flex-col justify-between md:justify-start gap-2 border-t md:border-t-0 md:border-l border-slate-100 pt-4 md:pt-0 md:pl-4 min-w-[120px]">
-                           {entry.groundingUrl && (
-                             <a 
-                               href={entry.groundingUrl} 
-                               target="_blank" 
-                               rel="noreferrer"
-                               className="flex items-center justify-center gap-1 px-3 py-2 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100"
-                             >
-                               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                                </svg>
-                               Google Maps
-                             </a>
-                           )}
-
-                           {(user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) && (
-                             <Button 
-                                variant="ghost" 
-                                onClick={() => handleDeleteEntry(entry.id)}
-                                className="text-xs px-2 h-8 text-red-600 hover:text-red-700 w-full justify-start"
-                             >
-                               Delete Entry
-                             </Button>
-                           )}
-                      </div>
+                        </Card>
+                      ))}
                     </div>
-                  </Card>
+                  </section>
                 ))}
+
+                <div ref={loadMoreRef} className="text-center text-xs text-slate-400 py-4">
+                  {nextCursor
+                    ? <button onClick={loadMore} disabled={isListLoading} className="hover:text-blue-600">{isListLoading ? 'Loading more...' : 'Load more'}</button>
+                    : listedEntries.length > 0 && 'End of results'}
+                </div>
               </div>
             )}
           </div>
         )}
       </div>
+
+      {historyEntry && <EntryHistoryDrawer entry={historyEntry} onClose={() => setHistoryEntry(null)} />}
     </div>
   );
 };
\ No newline at end of file
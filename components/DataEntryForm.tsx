@@ -1,29 +1,94 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from './Button';
 import { Card } from './Card';
-import { Coordinates, ReservoirEntry, ReservoirStatus, User } from '../types';
+import { Coordinates, EntryPhoto, GeofenceVerdict, OperationalFields, Reservoir, ReservoirAssignment, ReservoirEntry, ReservoirStatus, User } from '../types';
 import { verifyLocationAndFetchDetails, generateRiskAnalysis } from '../services/geminiService';
+import { reservoirService } from '../services/reservoirService';
+import { evaluateGeofence } from '../services/geofenceService';
+import { computeStorage } from '../services/storageService';
+import { canSubmitReading } from '../services/permissionService';
+import { MAX_PHOTOS_PER_ENTRY, MAX_PHOTO_AGE_MS, photoService } from '../services/photoService';
+import { GAUGE_CHECK_UNAVAILABLE, RecognizedGauge, bestGaugeReading, checkGaugeReading, gaugeReadingService, unavailableGaugeReading } from '../services/gaugeReadingService';
+import { toQualityFlags, validateReading } from '../services/validationService';
+import { EntryPhotos } from './EntryPhotos';
+import { OperationalFieldsInput } from './OperationalFields';
 
 interface DataEntryFormProps {
   user: User;
+  assignments: ReservoirAssignment[];
+  recentEntries: ReservoirEntry[]; // History the new reading is validated against
   onSubmit: (entry: ReservoirEntry) => void;
 }
 
-export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit }) => {
+export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, assignments, recentEntries, onSubmit }) => {
   const [coords, setCoords] = useState<Coordinates | null>(null);
   const [isLocating, setIsLocating] = useState(false);
+  const [registry, setRegistry] = useState<Reservoir[]>([]);
+  const [verdict, setVerdict] = useState<GeofenceVerdict | null>(null);
   const [locationName, setLocationName] = useState('');
   const [locationAnalysis, setLocationAnalysis] = useState('');
-  const [locationVerified, setLocationVerified] = useState(false);
   const [mapLink, setMapLink] = useState<string | undefined>();
-  const [isVerifying, setIsVerifying] = useState(false);
+  const [isEnriching, setIsEnriching] = useState(false);
+
+  const reservoir = verdict?.reservoir ?? null;
+  // Inside a geofence is not enough: the reservoir must also be one the worker is assigned to
+  const isAssigned = !!reservoir && canSubmitReading(user, assignments, reservoir);
+  const locationVerified = !!verdict?.isInside && isAssigned;
 
   // Form State
   const [waterLevel, setWaterLevel] = useState<number | ''>('');
   const [capacity, setCapacity] = useState<number | ''>('');
   const [notes, setNotes] = useState('');
   const [status, setStatus] = useState<ReservoirStatus>(ReservoirStatus.NORMAL);
+  const [isManualOverride, setIsManualOverride] = useState(false);
+  const [operations, setOperations] = useState<OperationalFields>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [photos, setPhotos] = useState<EntryPhoto[]>([]);
+  const [isProcessingPhotos, setIsProcessingPhotos] = useState(false);
+  const [gaugeReadings, setGaugeReadings] = useState<RecognizedGauge[]>([]);
+  const [pendingGaugeReads, setPendingGaugeReads] = useState(0);
+
+  // Capacity and status are derived from the level via the stage-storage table unless overridden
+  const derived = useMemo(
+    () => (reservoir && waterLevel !== '' ? computeStorage(reservoir, Number(waterLevel)) : null),
+    [reservoir, waterLevel]
+  );
+  const effectiveCapacity = isManualOverride ? capacity : (derived ? derived.capacityPercentage : '');
+  const effectiveStatus = isManualOverride ? status : (derived ? derived.status : ReservoirStatus.NORMAL);
+
+  // Cross-check of the typed level against the gauge in the photos
+  const gaugeCheck = useMemo(() => {
+    const best = bestGaugeReading(gaugeReadings);
+    return best && waterLevel !== '' ? checkGaugeReading(Number(waterLevel), best) : null;
+  }, [gaugeReadings, waterLevel]);
+
+  // Physical limits, rate of change and outliers against this reservoir's recent readings
+  const issues = useMemo(
+    () => (reservoir && waterLevel !== '' && effectiveCapacity !== ''
+      ? validateReading(
+          { waterLevel: Number(waterLevel), capacityPercentage: Number(effectiveCapacity), timestamp: Date.now() },
+          reservoir,
+          recentEntries.filter(e => e.reservoirId === reservoir.id),
+          gaugeCheck ?? undefined
+        )
+      : []),
+    [reservoir, waterLevel, effectiveCapacity, recentEntries, gaugeCheck]
+  );
+  const isBlocked = issues.some(i => i.blocking);
+  // The gauge mismatch already has its own message beside the photos
+  const shownIssues = issues.filter(i => i.code !== 'GAUGE_MISMATCH');
+
+  const handleToggleOverride = () => {
+    if (!isManualOverride && derived) {
+      setCapacity(derived.capacityPercentage);
+      setStatus(derived.status);
+    }
+    setIsManualOverride(!isManualOverride);
+  };
+
+  useEffect(() => {
+    reservoirService.getReservoirs().then(({ data }) => setRegistry(data));
+  }, []);
 
   const handleGetLocation = () => {
     if (!navigator.geolocation) {
@@ -31,7 +96,10 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
       return;
     }
     setIsLocating(true);
-    setLocationVerified(false);
+    setVerdict(null);
+    setLocationName('');
+    setLocationAnalysis('');
+    setMapLink(undefined);
     
     navigator.geolocation.getCurrentPosition(
       async (position) => {
@@ -39,17 +107,20 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
           latitude: position.coords.latitude,
           longitude: position.coords.longitude
         };
+        // Deterministic check against the registry's stored geofences
+        const result = evaluateGeofence(c, position.coords.accuracy, registry);
         setCoords(c);
+        setVerdict(result);
         setIsLocating(false);
-        setIsVerifying(true);
+        if (!result.isInside) return;
 
-        // Call Gemini to identify location with Maps Grounding
+        // Optional enrichment: Gemini with Maps Grounding for a description and map link
+        setIsEnriching(true);
         const details = await verifyLocationAndFetchDetails(c);
         setLocationName(details.name);
         setLocationAnalysis(details.description);
-        setLocationVerified(details.isValidReservoir);
         setMapLink(details.mapLink);
-        setIsVerifying(false);
+        setIsEnriching(false);
       },
       (error) => {
         console.error(error);
@@ -60,32 +131,120 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
     );
   };
 
+  // A fresh fix for each photo; falls back to the position verified against the geofence
+  const currentPosition = (): Promise<{ coordinates?: Coordinates, accuracy?: number }> =>
+    new Promise(resolve => {
+      const fallback = { coordinates: coords ?? undefined, accuracy: verdict?.accuracyMeters };
+      if (!navigator.geolocation) return resolve(fallback);
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve({
+          coordinates: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+          accuracy: position.coords.accuracy
+        }),
+        () => resolve(fallback),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 30000 }
+      );
+    });
+
+  const handlePhotoCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_PHOTOS_PER_ENTRY - photos.length);
+    e.target.value = '';
+    if (!reservoir || files.length === 0) return;
+
+    setIsProcessingPhotos(true);
+    try {
+      const position = await currentPosition();
+      const captured: EntryPhoto[] = [];
+      for (const file of files) {
+        const capturedAt = file.lastModified || Date.now();
+        if (Date.now() - capturedAt > MAX_PHOTO_AGE_MS) {
+          alert(`${file.name} was taken more than an hour ago. Photograph the gauge now, on site.`);
+          continue;
+        }
+        captured.push(await photoService.capture(file, reservoir.id, {
+          capturedAt,
+          coordinates: position.coordinates,
+          gpsAccuracy: position.accuracy,
+          caption: reservoir.name
+        }));
+      }
+      setPhotos(previous => [...previous, ...captured]);
+      captured.forEach(photo => readGauge(photo, reservoir));
+    } catch (err: any) {
+      alert(`Could not process the photo: ${err.message}`);
+    } finally {
+      setIsProcessingPhotos(false);
+    }
+  };
+
+  // Runs in the background and holds back submitting until done, which is bounded by the
+  // recognizer's timeout; offline or on failure the reading is submitted with the check marked unavailable
+  const readGauge = async (photo: EntryPhoto, target: Reservoir) => {
+    setPendingGaugeReads(n => n + 1);
+    try {
+      const reading = await gaugeReadingService.recognize(photo, target);
+      setGaugeReadings(previous => [...previous, reading]);
+    } catch (err: any) {
+      console.warn("Gauge recognition unavailable:", err.message);
+      setGaugeReadings(previous => [...previous, unavailableGaugeReading(photo, err.message)]);
+    } finally {
+      setPendingGaugeReads(n => n - 1);
+    }
+  };
+
+  const handleRemovePhoto = (photo: EntryPhoto) => {
+    setPhotos(previous => previous.filter(p => p.id !== photo.id));
+    setGaugeReadings(previous => previous.filter(r => r.photoId !== photo.id));
+    photoService.discard(photo.id).catch(() => undefined);
+  };
+
+  const handleResetLocation = () => {
+    // Photos are filed under the reservoir, so they go with it
+    photos.forEach(p => photoService.discard(p.id).catch(() => undefined));
+    setPhotos([]);
+    setGaugeReadings([]);
+    setCoords(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!coords || !locationName) return;
+    if (!coords || !verdict || !reservoir || photos.length === 0 || isBlocked || pendingGaugeReads > 0) return;
+    if (shownIssues.length > 0 && !confirm(
+      `This reading looks unusual:\n\n${shownIssues.map(i => `- ${i.message}`).join('\n')}\n\nSubmit it anyway? It will be flagged for review.`
+    )) return;
 
     setIsSubmitting(true);
     
     const analysis = await generateRiskAnalysis({
-        name: locationName,
+        name: reservoir.name,
         level: Number(waterLevel),
-        capacity: Number(capacity)
+        capacity: Number(effectiveCapacity)
     });
 
     const newEntry: ReservoirEntry = {
       id: Date.now().toString(),
-      name: locationName,
+      reservoirId: reservoir.id,
+      name: reservoir.name,
       locationName: locationName,
       coordinates: coords,
       waterLevel: Number(waterLevel),
-      capacityPercentage: Number(capacity),
-      status: status,
+      capacityPercentage: Number(effectiveCapacity),
+      storageVolume: derived?.volume,
+      status: effectiveStatus,
+      isManualOverride: isManualOverride,
       notes: notes,
       timestamp: Date.now(),
       submittedBy: user.name,
-      isVerified: locationVerified,
+      submittedById: user.id,
+      isVerified: verdict.isInside,
+      geofenceDistance: verdict.distanceMeters,
+      gpsAccuracy: verdict.accuracyMeters,
       geminiAnalysis: analysis,
-      groundingUrl: mapLink
+      groundingUrl: mapLink,
+      ...operations,
+      photos,
+      gaugeReading: gaugeCheck ?? undefined,
+      qualityFlags: issues.length > 0 ? toQualityFlags(issues) : undefined
     };
 
     // Simulate network delay
@@ -97,7 +256,12 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
         setCapacity('');
         setNotes('');
         setStatus(ReservoirStatus.NORMAL);
+        setIsManualOverride(false);
+        setOperations({});
+        setPhotos([]);
+        setGaugeReadings([]);
         setCoords(null);
+        setVerdict(null);
         setLocationName('');
         setLocationAnalysis('');
     }, 1000);
@@ -123,9 +287,7 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
             <div className={`bg-slate-50 p-4 rounded-lg border ${locationVerified ? 'border-green-200 bg-green-50' : 'border-slate-200'}`}>
               <div className="flex items-start gap-3">
                  <div className="mt-1">
-                   {isVerifying ? (
-                     <div className="animate-spin h-5 w-5 border-2 border-blue-500 border-t-transparent rounded-full" />
-                   ) : locationVerified ? (
+                   {locationVerified ? (
                      <svg className="h-6 w-6 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                      </svg>
@@ -136,57 +298,67 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
                    )}
                  </div>
                  <div className="flex-1">
-                    {isVerifying ? (
-                      <div>
-                        <h4 className="font-semibold text-slate-800">Checking Geofence...</h4>
-                        <p className="text-sm text-slate-500">Consulting Google Maps via Gemini...</p>
-                      </div>
-                    ) : (
-                      <>
-                        <h4 className="font-bold text-slate-800 text-lg">
-                            {locationName || "Unknown Location"}
-                        </h4>
-                        <div className="flex items-center gap-2 mb-2">
-                             <span className="text-xs font-mono bg-slate-200 px-1 rounded text-slate-600">
-                                 {coords.latitude.toFixed(5)}, {coords.longitude.toFixed(5)}
+                    <h4 className="font-bold text-slate-800 text-lg">
+                        {reservoir ? reservoir.name : "No Registered Reservoir"}
+                    </h4>
+                    {reservoir && (
+                      <p className="text-xs text-slate-500 mb-1">{reservoir.district} District</p>
+                    )}
+                    <div className="flex items-center gap-2 mb-2">
+                         <span className="text-xs font-mono bg-slate-200 px-1 rounded text-slate-600">
+                             {coords.latitude.toFixed(5)}, {coords.longitude.toFixed(5)}
+                         </span>
+                         {verdict && (
+                             <span className="text-xs font-mono text-slate-500">&plusmn;{Math.round(verdict.accuracyMeters)} m</span>
+                         )}
+                         {verdict?.isInside ? (
+                             <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded-full uppercase tracking-wider">
+                                 Geofence Valid
                              </span>
-                             {locationVerified ? (
-                                 <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded-full uppercase tracking-wider">
-                                     Geofence Valid
-                                 </span>
-                             ) : (
-                                 <span className="text-xs font-bold text-red-700 bg-red-100 px-2 py-0.5 rounded-full uppercase tracking-wider">
-                                     Geofence Invalid
-                                 </span>
-                             )}
-                        </div>
-                        
-                        <p className="text-sm text-slate-700 mb-3 bg-white p-2 rounded border border-slate-100 italic">
-                            "{locationAnalysis}"
-                        </p>
-
-                        {mapLink && (
-                          <a href={mapLink} target="_blank" rel="noreferrer" className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 transition-colors">
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-                            </svg>
-                            View Verified Location on Maps
-                          </a>
-                        )}
-                        
-                        {!locationVerified && (
-                           <div className="mt-3 text-sm bg-red-50 text-red-800 p-3 rounded-lg border border-red-100 flex items-start gap-2">
-                             <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-                             <div>
-                                 <p className="font-bold">Entry Blocked</p>
-                                 <p>You are not within the authorized zone of a reservoir. Please move closer to the bund or water body.</p>
-                             </div>
-                           </div>
-                        )}
-                      </>
+                         ) : (
+                             <span className="text-xs font-bold text-red-700 bg-red-100 px-2 py-0.5 rounded-full uppercase tracking-wider">
+                                 Geofence Invalid
+                             </span>
+                         )}
+                    </div>
+                    
+                    {verdict && <p className="text-sm text-slate-600 mb-2">{verdict.reason}</p>}
+
+                    {isEnriching ? (
+                      <p className="text-sm text-slate-500 mb-3 flex items-center gap-2">
+                        <span className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full" />
+                        Fetching Google Maps context via Gemini...
+                      </p>
+                    ) : locationAnalysis && (
+                      <p className="text-sm text-slate-700 mb-3 bg-white p-2 rounded border border-slate-100 italic">
+                          "{locationAnalysis}"
+                      </p>
+                    )}
+
+                    {mapLink && (
+                      <a href={mapLink} target="_blank" rel="noreferrer" className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                        </svg>
+                        View Verified Location on Maps
+                      </a>
+                    )}
+                    
+                    {!locationVerified && (
+                       <div className="mt-3 text-sm bg-red-50 text-red-800 p-3 rounded-lg border border-red-100 flex items-start gap-2">
+                         <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+                         <div>
+                             <p className="font-bold">Entry Blocked</p>
+                             <p>
+                               {verdict?.isInside
+                                 ? `You are not assigned to report on ${reservoir?.name}. Ask a Super Admin to assign it to you.`
+                                 : "You are not within the authorized zone of a reservoir. Please move closer to the bund or water body."}
+                             </p>
+                         </div>
+                       </div>
                     )}
                  </div>
-                 <button onClick={() => setCoords(null)} className="text-slate-400 hover:text-slate-600 p-1">
+                 <button onClick={handleResetLocation} className="text-slate-400 hover:text-slate-600 p-1">
                    <span className="sr-only">Reset</span>
                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                      <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -199,7 +371,7 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
       </Card>
 
       {/* Only show entry form if location is strictly verified */}
-      {coords && !isVerifying && locationVerified && (
+      {coords && locationVerified && (
         <Card title="2. Reservoir Status" className="border-l-4 border-l-green-500 animate-fade-in">
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -222,24 +394,54 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
                   required
                   min="0"
                   max="100"
-                  className="w-full rounded-lg border-slate-300 border p-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  value={capacity}
+                  step="0.1"
+                  readOnly={!isManualOverride}
+                  className={`w-full rounded-lg border-slate-300 border p-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${isManualOverride ? '' : 'bg-slate-50 text-slate-600'}`}
+                  value={effectiveCapacity}
                   onChange={(e) => setCapacity(Number(e.target.value))}
-                  placeholder="e.g. 85"
+                  placeholder={isManualOverride ? "e.g. 85" : "Derived from level"}
                 />
               </div>
             </div>
 
+            {shownIssues.length > 0 && (
+              <div className={`text-sm p-3 rounded-lg border ${isBlocked ? 'bg-red-50 text-red-800 border-red-200' : 'bg-amber-50 text-amber-900 border-amber-200'}`}>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {shownIssues.map(i => <li key={i.code}>{i.message}</li>)}
+                </ul>
+                <p className="text-xs mt-1">
+                  {isBlocked
+                    ? 'Correct the reading to submit.'
+                    : 'Check the gauge again. If the reading is right, submit anyway; it will be flagged for review.'}
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+              <span className="text-slate-600">
+                {derived
+                  ? <>Storage <span className="font-semibold text-slate-900">{derived.volume} MCM</span> of {reservoir?.grossCapacity} MCM (stage&ndash;storage table)</>
+                  : 'Enter the gauge level to derive storage and status.'}
+              </span>
+              <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={isManualOverride} onChange={handleToggleOverride} />
+                Manual override
+              </label>
+            </div>
+
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">Current Status</label>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Current Status {!isManualOverride && <span className="text-xs text-slate-400">(derived from thresholds)</span>}
+              </label>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                 {[ReservoirStatus.NORMAL, ReservoirStatus.WARNING, ReservoirStatus.CRITICAL, ReservoirStatus.SPILLING].map((s) => (
                   <button
                     key={s}
                     type="button"
+                    disabled={!isManualOverride}
                     onClick={() => setStatus(s)}
-                    className={`p-2 rounded-lg text-sm font-medium border ${
-                      status === s 
+                    className={`p-2 rounded-lg text-sm font-medium border disabled:cursor-not-allowed ${
+                      effectiveStatus === s 
                       ? 'bg-blue-600 text-white border-blue-600' 
                       : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
                     }`}
@@ -250,6 +452,61 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Rainfall &amp; Outflow <span className="text-xs text-slate-400">(optional)</span>
+              </label>
+              <OperationalFieldsInput value={operations} onChange={setOperations} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Gauge Photos <span className="text-xs text-slate-400">(staff gauge and spillway; at least one)</span>
+              </label>
+              <div className="space-y-3">
+                <EntryPhotos photos={photos} onRemove={handleRemovePhoto} />
+                {pendingGaugeReads > 0 && (
+                  <p className="text-xs text-slate-500 flex items-center gap-2">
+                    <span className="animate-spin h-3 w-3 border-2 border-blue-500 border-t-transparent rounded-full" />
+                    Reading the gauge from the photo...
+                  </p>
+                )}
+                {gaugeCheck?.verdict === 'MATCH' && (
+                  <p className="text-xs text-green-700">
+                    The photo confirms the gauge at {gaugeCheck.value} m.
+                  </p>
+                )}
+                {gaugeCheck?.verdict === 'MISMATCH' && (
+                  <div className="text-sm bg-amber-50 text-amber-900 p-3 rounded-lg border border-amber-200">
+                    <p>
+                      The gauge photo reads <span className="font-semibold">{gaugeCheck.value} m</span> ({Math.round(gaugeCheck.confidence * 100)}% confidence) but you entered <span className="font-semibold">{waterLevel} m</span>.
+                      {gaugeCheck.note && <> {gaugeCheck.note}.</>}
+                    </p>
+                    <p className="text-xs mt-1">If your value is right, submit anyway; the reading will be flagged for review.</p>
+                    <Button type="button" variant="secondary" className="text-xs px-2 py-1 mt-2" onClick={() => setWaterLevel(gaugeCheck.value!)}>
+                      Use {gaugeCheck.value} m
+                    </Button>
+                  </div>
+                )}
+                {gaugeCheck?.verdict === 'UNREADABLE' && gaugeCheck.recognizer === GAUGE_CHECK_UNAVAILABLE && (
+                  <p className="text-xs text-slate-500">Gauge check unavailable ({gaugeCheck.note}). The reading can be submitted without it.</p>
+                )}
+                {gaugeCheck?.verdict === 'UNREADABLE' && gaugeCheck.recognizer !== GAUGE_CHECK_UNAVAILABLE && (
+                  <p className="text-xs text-slate-500">The gauge could not be read from the photo{gaugeCheck.note ? `: ${gaugeCheck.note}` : ''}. Make sure the water line is in frame.</p>
+                )}
+                {photos.length < MAX_PHOTOS_PER_ENTRY && (
+                  <label className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 cursor-pointer ${isProcessingPhotos ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <svg className="h-5 w-5 mr-2 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                    {isProcessingPhotos ? 'Processing...' : photos.length === 0 ? 'Take Photo' : 'Add Another Photo'}
+                    <input type="file" accept="image/*" capture="environment" multiple onChange={handlePhotoCapture} className="hidden" />
+                  </label>
+                )}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Observation Notes</label>
               <textarea 
@@ -262,9 +519,12 @@ export const DataEntryForm: React.FC<DataEntryFormProps> = ({ user, onSubmit })
             </div>
 
             <div className="pt-4">
-              <Button type="submit" isLoading={isSubmitting} className="w-full">
+              <Button type="submit" isLoading={isSubmitting} disabled={photos.length === 0 || isProcessingPhotos || isBlocked || pendingGaugeReads > 0} className="w-full">
                 Submit Reservoir Data
               </Button>
+              {photos.length === 0 && (
+                <p className="text-xs text-slate-500 text-center mt-2">Add a photo of the gauge to submit.</p>
+              )}
             </div>
           </form>
         </Card>
@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { OperationalFields, QualityFlag, Reservoir, ReservoirEntry, ReservoirStatus } from '../types';
+import { Button } from './Button';
+import { computeStorage } from '../services/storageService';
+import { checkGaugeReading } from '../services/gaugeReadingService';
+import { toQualityFlags, validateReading } from '../services/validationService';
+import { OperationalFieldsInput } from './OperationalFields';
+
+const inputClass = 'w-full rounded-lg border-slate-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+interface EntryEditFormProps {
+  entry: ReservoirEntry;
+  reservoir: Reservoir | null;
+  recentEntries: ReservoirEntry[];
+  onSave: (changes: Partial<ReservoirEntry>, reason: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Correct the measured values of a reading. Capacity and status are re-derived from the
+ * level unless overridden, as in DataEntryForm; a reason is required for the revision.
+ * The corrected values go through the same checks as a new reading and are re-flagged.
+ */
+export const EntryEditForm: React.FC<EntryEditFormProps> = ({ entry, reservoir, recentEntries, onSave, onCancel }) => {
+  const [waterLevel, setWaterLevel] = useState<number | ''>(entry.waterLevel);
+  const [isManualOverride, setIsManualOverride] = useState(!!entry.isManualOverride || !reservoir);
+  const [capacity, setCapacity] = useState<number | ''>(entry.capacityPercentage);
+  const [status, setStatus] = useState<ReservoirStatus>(entry.status);
+  const [notes, setNotes] = useState(entry.notes || '');
+  const [operations, setOperations] = useState<OperationalFields>({
+    rainfallMm: entry.rainfallMm,
+    gatesOpen: entry.gatesOpen,
+    gateOpenings: entry.gateOpenings,
+    sluiceDischarge: entry.sluiceDischarge,
+    inflowEstimate: entry.inflowEstimate
+  });
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const derived = useMemo(
+    () => (reservoir && waterLevel !== '' ? computeStorage(reservoir, Number(waterLevel)) : null),
+    [reservoir, waterLevel]
+  );
+  const effectiveCapacity = isManualOverride ? capacity : (derived ? derived.capacityPercentage : '');
+  const effectiveStatus = isManualOverride ? status : (derived ? derived.status : status);
+
+  // The corrected level against what the photo showed
+  const gaugeCheck = useMemo(() => {
+    if (!entry.gaugeReading || waterLevel === '') return undefined;
+    const { verdict, difference, ...recognized } = entry.gaugeReading;
+    return checkGaugeReading(Number(waterLevel), recognized);
+  }, [entry.gaugeReading, waterLevel]);
+
+  // Checked against the reservoir's other readings, not the one being corrected
+  const issues = useMemo(
+    () => (reservoir && waterLevel !== '' && effectiveCapacity !== ''
+      ? validateReading(
+          { waterLevel: Number(waterLevel), capacityPercentage: Number(effectiveCapacity), timestamp: entry.timestamp },
+          reservoir,
+          recentEntries.filter(e => e.reservoirId === reservoir.id && e.id !== entry.id),
+          gaugeCheck
+        )
+      : []),
+    [reservoir, waterLevel, effectiveCapacity, entry.id, entry.timestamp, recentEntries, gaugeCheck]
+  );
+  const isBlocked = issues.some(i => i.blocking);
+
+  // Reviewed flags stay on record; open ones are replaced by what the corrected values raise,
+  // keeping the original flag where the same problem is still there
+  const qualityFlags = (): QualityFlag[] => {
+    const previous = entry.qualityFlags || [];
+    const open = previous.filter(f => !f.clearedAt);
+    return [
+      ...previous.filter(f => f.clearedAt),
+      ...toQualityFlags(issues).map(flag => open.find(f => f.code === flag.code) ?? flag)
+    ];
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (waterLevel === '' || effectiveCapacity === '' || !reason.trim() || isBlocked) return;
+    if (issues.length > 0 && !confirm(
+      `This reading looks unusual:\n\n${issues.map(i => `- ${i.message}`).join('\n')}\n\nSave the correction anyway? It will be flagged for review.`
+    )) return;
+    const changes: Partial<ReservoirEntry> = {
+      waterLevel: Number(waterLevel),
+      capacityPercentage: Number(effectiveCapacity),
+      storageVolume: derived?.volume ?? entry.storageVolume,
+      status: effectiveStatus,
+      isManualOverride,
+      notes,
+      ...operations,
+      ...(reservoir ? { qualityFlags: qualityFlags() } : {}),
+      ...(gaugeCheck ? { gaugeReading: gaugeCheck } : {})
+    };
+    setIsSaving(true);
+    try {
+      await onSave(changes, reason.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 mt-4 border-t border-slate-100 pt-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Water Level (m MSL)</span>
+          <input type="number" min="0.01" step="0.01" required value={waterLevel} onChange={(e) => setWaterLevel(e.target.value === '' ? '' : Number(e.target.value))} className={inputClass} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Capacity %</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            required
+            readOnly={!isManualOverride}
+            value={effectiveCapacity}
+            onChange={(e) => setCapacity(e.target.value === '' ? '' : Number(e.target.value))}
+            className={`${inputClass} ${isManualOverride ? '' : 'bg-slate-50 text-slate-600'}`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          value={effectiveStatus}
+          disabled={!isManualOverride}
+          onChange={(e) => setStatus(e.target.value as ReservoirStatus)}
+          className="border border-slate-300 rounded-lg px-2 py-1.5 disabled:bg-slate-50"
+        >
+          {Object.values(ReservoirStatus).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        {reservoir && (
+          <label className="flex items-center gap-2 text-slate-600">
+            <input type="checkbox" checked={isManualOverride} onChange={() => setIsManualOverride(!isManualOverride)} />
+            Manual override
+          </label>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <div className={`text-sm p-3 rounded-lg border ${isBlocked ? 'bg-red-50 text-red-800 border-red-200' : 'bg-amber-50 text-amber-900 border-amber-200'}`}>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {issues.map(i => <li key={i.code}>{i.message}</li>)}
+          </ul>
+          <p className="text-xs mt-1">
+            {isBlocked
+              ? 'Correct the reading to save.'
+              : 'If the corrected reading is right, save anyway; it will be flagged for review.'}
+          </p>
+        </div>
+      )}
+
+      <OperationalFieldsInput value={operations} onChange={setOperations} />
+
+      <label className="block text-sm">
+        <span className="block text-slate-600 mb-1">Notes</span>
+        <textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+      </label>
+
+      <label className="block text-sm">
+        <span className="block text-slate-600 mb-1">Reason for correction *</span>
+        <input type="text" required value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Misread gauge, corrected from logbook" className={inputClass} />
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="submit" isLoading={isSaving} disabled={!reason.trim() || isBlocked}>Save Correction</Button>
+      </div>
+    </form>
+  );
+};
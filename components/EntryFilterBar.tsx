@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { EntryFilters, Reservoir, ReservoirStatus, ReviewStatus } from '../types';
+import { hasFilters } from '../services/entryFilterService';
+import { REVIEW_STATUS_LABELS } from '../services/reviewService';
+
+// Typing in the text fields waits this long before querying
+const TEXT_DEBOUNCE_MS = 400;
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-2 py-1.5 text-sm';
+
+interface EntryFilterBarProps {
+  filters: EntryFilters;
+  reservoirs: Reservoir[];
+  onChange: (filters: EntryFilters) => void;
+}
+
+export const EntryFilterBar: React.FC<EntryFilterBarProps> = ({ filters, reservoirs, onChange }) => {
+  const [reporter, setReporter] = useState(filters.reporter || '');
+  const [search, setSearch] = useState(filters.search || '');
+
+  // Keep the text fields in step when filters are cleared or change from outside
+  useEffect(() => setReporter(filters.reporter || ''), [filters.reporter]);
+  useEffect(() => setSearch(filters.search || ''), [filters.search]);
+
+  useEffect(() => {
+    const next = { reporter: reporter.trim() || undefined, search: search.trim() || undefined };
+    if (next.reporter === filters.reporter && next.search === filters.search) return;
+    const timer = setTimeout(() => onChange({ ...filters, ...next }), TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [reporter, search, filters]);
+
+  const set = (changes: Partial<EntryFilters>) => onChange({ ...filters, ...changes });
+
+  const districts = Array.from(new Set(reservoirs.map(r => r.district))).sort();
+  const reservoirOptions = reservoirs
+    .filter(r => !filters.district || r.district === filters.district)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">From</span>
+        <input type="date" value={filters.from || ''} max={filters.to} onChange={(e) => set({ from: e.target.value || undefined })} className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">To</span>
+        <input type="date" value={filters.to || ''} min={filters.from} onChange={(e) => set({ to: e.target.value || undefined })} className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">District</span>
+        <select
+          value={filters.district || ''}
+          onChange={(e) => {
+            const district = e.target.value || undefined;
+            const reservoir = reservoirs.find(r => r.id === filters.reservoirId);
+            set({ district, reservoirId: district && reservoir?.district !== district ? undefined : filters.reservoirId });
+          }}
+          className={inputClass}
+        >
+          <option value="">All districts</option>
+          {districts.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Reservoir</span>
+        <select value={filters.reservoirId || ''} onChange={(e) => set({ reservoirId: e.target.value || undefined })} className={inputClass}>
+          <option value="">All reservoirs</option>
+          {reservoirOptions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Status</span>
+        <select value={filters.status || ''} onChange={(e) => set({ status: (e.target.value || undefined) as ReservoirStatus | undefined })} className={inputClass}>
+          <option value="">Any status</option>
+          {Object.values(ReservoirStatus).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Geofence</span>
+        <select
+          value={filters.isVerified === undefined ? '' : String(filters.isVerified)}
+          onChange={(e) => set({ isVerified: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          className={inputClass}
+        >
+          <option value="">Verified or not</option>
+          <option value="true">Verified only</option>
+          <option value="false">Unverified only</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Quality</span>
+        <select value={filters.flagged ? 'true' : ''} onChange={(e) => set({ flagged: e.target.value === 'true' || undefined })} className={inputClass}>
+          <option value="">All readings</option>
+          <option value="true">Needs review</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Review</span>
+        <select value={filters.reviewStatus || ''} onChange={(e) => set({ reviewStatus: (e.target.value || undefined) as ReviewStatus | undefined })} className={inputClass}>
+          <option value="">Any review status</option>
+          {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map(s => <option key={s} value={s}>{REVIEW_STATUS_LABELS[s]}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Reporter</span>
+        <input type="text" value={reporter} onChange={(e) => setReporter(e.target.value)} placeholder="Name" className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-slate-500">Notes</span>
+        <input type="search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search notes" className={inputClass} />
+      </label>
+      {hasFilters(filters) && (
+        <div className="col-span-2 md:col-span-4 flex justify-end">
+          <button type="button" onClick={() => onChange({})} className="text-xs font-medium text-blue-600 hover:underline">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { EntryRevision, QualityFlag, ReservoirEntry, RevisionAction } from '../types';
+import { dataService } from '../services/dataService';
+
+const ACTION_LABELS: Record<RevisionAction, { label: string, className: string }> = {
+  CREATE: { label: 'Submitted', className: 'bg-green-100 text-green-800' },
+  UPDATE: { label: 'Corrected', className: 'bg-blue-100 text-blue-800' },
+  DELETE: { label: 'Deleted', className: 'bg-red-100 text-red-800' },
+  RESTORE: { label: 'Restored', className: 'bg-amber-100 text-amber-800' }
+};
+
+// Database column -> label; columns not listed are shown by name
+const FIELD_LABELS: Record<string, string> = {
+  reservoir_id: 'Reservoir',
+  water_level: 'Water level (m)',
+  capacity_percentage: 'Capacity (%)',
+  storage_volume: 'Storage (MCM)',
+  status: 'Status',
+  is_manual_override: 'Manual override',
+  notes: 'Notes',
+  timestamp: 'Reading time',
+  deleted_at: 'Deleted at',
+  photos: 'Photos',
+  quality_flags: 'Quality flags',
+  review_status: 'Review',
+  review_comment: 'Review comment',
+  rainfall_mm: 'Rainfall (mm)',
+  gates_open: 'Gates open',
+  gate_openings: 'Gate openings (m)',
+  sluice_discharge: 'Sluice discharge (m³/s)',
+  inflow_estimate: 'Inflow estimate (m³/s)'
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'timestamp' && typeof value === 'number') return new Date(value).toLocaleString();
+  if (field === 'deleted_at' && typeof value === 'string') return new Date(value).toLocaleString();
+  if (field === 'quality_flags' && Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return (value as QualityFlag[]).map(f => (f.clearedAt ? `${f.code} (cleared by ${f.clearedBy}: ${f.reviewNote})` : f.code)).join(', ');
+  }
+  if (field === 'gate_openings' && Array.isArray(value)) return value.join(', ');
+  if (field === 'photos' && Array.isArray(value)) return value.length === 0 ? '—' : `${value.length} photo${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+interface EntryHistoryDrawerProps {
+  entry: ReservoirEntry;
+  onClose: () => void;
+}
+
+export const EntryHistoryDrawer: React.FC<EntryHistoryDrawerProps> = ({ entry, onClose }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    dataService.getRevisions(entry.id)
+      .then(setRevisions)
+      .catch((e: any) => setError(e.message))
+      .finally(() => setIsLoading(false));
+  }, [entry.id, entry.updatedAt]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-start justify-between px-5 py-4 border-b border-slate-200">
+          <div>
+            <h3 className="font-semibold text-slate-900">Revision History</h3>
+            <p className="text-xs text-slate-500">
+              {entry.name} &middot; {new Date(entry.timestamp).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-xl leading-none" title="Close">&times;</button>
+        </div>
+
+        <ol className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {isLoading && <li className="text-sm text-slate-400 animate-pulse">Loading history...</li>}
+          {error && <li className="text-sm text-red-600">History unavailable: {error}</li>}
+          {!isLoading && !error && revisions.length === 0 && (
+            <li className="text-sm text-slate-400">No revisions recorded. Readings submitted before revision tracking have no history.</li>
+          )}
+          {revisions.map(revision => (
+            <li key={revision.id} className="border-l-2 border-slate-200 pl-3">
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${ACTION_LABELS[revision.action].className}`}>
+                  {ACTION_LABELS[revision.action].label}
+                </span>
+                <span className="text-xs text-slate-500">{new Date(revision.changedAt).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-slate-800 mt-1">by {revision.changedBy}</p>
+              {revision.reason && <p className="text-xs text-slate-600 italic mt-0.5">"{revision.reason}"</p>}
+              {Object.keys(revision.changes).length > 0 && (
+                <table className="mt-2 text-xs w-full">
+                  <tbody>
+                    {Object.keys(revision.changes).map(field => (
+                      <tr key={field} className="align-top">
+                        <td className="pr-2 py-0.5 text-slate-500 whitespace-nowrap">{FIELD_LABELS[field] || field}</td>
+                        <td className="py-0.5 text-slate-400 line-through break-all">{formatValue(field, revision.changes[field].from)}</td>
+                        <td className="px-1 py-0.5 text-slate-400">&rarr;</td>
+                        <td className="py-0.5 text-slate-900 break-all">{formatValue(field, revision.changes[field].to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ol>
+      </aside>
+    </div>
+  );
+};
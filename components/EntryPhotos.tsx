@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { EntryPhoto } from '../types';
+import { photoService } from '../services/photoService';
+
+const describePosition = (photo: EntryPhoto) =>
+  photo.coordinates
+    ? `${photo.coordinates.latitude.toFixed(5)}, ${photo.coordinates.longitude.toFixed(5)}${photo.gpsAccuracy !== undefined ? ` ±${Math.round(photo.gpsAccuracy)} m` : ''}`
+    : 'No GPS fix';
+
+const PhotoImage: React.FC<{ photo: EntryPhoto, className: string }> = ({ photo, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    photoService.getUrl(photo)
+      .then(u => { if (!cancelled) setUrl(u); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => {
+      cancelled = true;
+    };
+  }, [photo.id]);
+
+  if (failed) return <div className={`${className} bg-slate-100 flex items-center justify-center text-[10px] text-slate-400`}>Unavailable</div>;
+  if (!url) return <div className={`${className} bg-slate-100 animate-pulse`} />;
+  return <img src={url} alt={`Gauge photo taken ${new Date(photo.capturedAt).toLocaleString()}`} className={className} />;
+};
+
+interface EntryPhotosProps {
+  photos: EntryPhoto[];
+  onRemove?: (photo: EntryPhoto) => void; // Shown while composing a reading
+}
+
+/**
+ * Thumbnails of a reading's gauge photos; tapping one opens a lightbox with its capture details.
+ */
+export const EntryPhotos: React.FC<EntryPhotosProps> = ({ photos, onRemove }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const open = openIndex !== null ? photos[openIndex] : null;
+
+  useEffect(() => {
+    if (openIndex === null) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpenIndex(null);
+      if (e.key === 'ArrowLeft') setOpenIndex(i => (i === null ? i : (i + photos.length - 1) % photos.length));
+      if (e.key === 'ArrowRight') setOpenIndex(i => (i === null ? i : (i + 1) % photos.length));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [openIndex, photos.length]);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {photos.map((photo, i) => (
+          <div key={photo.id} className="relative">
+            <button type="button" onClick={() => setOpenIndex(i)} className="block rounded-lg overflow-hidden border border-slate-200 hover:ring-2 hover:ring-blue-400">
+              <PhotoImage photo={photo} className="w-20 h-20 object-cover" />
+            </button>
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(photo)}
+                className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-600 text-white text-xs leading-none"
+                title="Remove photo"
+              >
+                &times;
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {open && (
+        <div className="fixed inset-0 z-50 bg-slate-900/90 flex flex-col items-center justify-center p-4" onClick={() => setOpenIndex(null)}>
+          <div className="max-w-4xl w-full" onClick={(e) => e.stopPropagation()}>
+            <PhotoImage photo={open} className="max-h-[75vh] w-full object-contain rounded-lg" />
+            <div className="flex items-center justify-between mt-3 text-sm text-white">
+              <button
+                type="button"
+                onClick={() => setOpenIndex((openIndex! + photos.length - 1) % photos.length)}
+                disabled={photos.length < 2}
+                className="px-3 py-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                &larr; Prev
+              </button>
+              <div className="text-center">
+                <p>{new Date(open.capturedAt).toLocaleString()}</p>
+                <p className="text-xs text-slate-300 font-mono">{describePosition(open)}</p>
+                <p className="text-xs text-slate-400">{openIndex! + 1} of {photos.length} &middot; {open.width}&times;{open.height} &middot; {Math.round(open.sizeBytes / 1024)} KB</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setOpenIndex((openIndex! + 1) % photos.length)}
+                disabled={photos.length < 2}
+                className="px-3 py-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                Next &rarr;
+              </button>
+            </div>
+          </div>
+          <button type="button" onClick={() => setOpenIndex(null)} className="absolute top-4 right-4 text-white text-3xl leading-none" title="Close">&times;</button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { EntryFilters, ExportFormat, Reservoir, ReservoirEntry } from '../types';
+import { Button } from './Button';
+import { EXPORT_MAX_ENTRIES, dataService } from '../services/dataService';
+import { exportService } from '../services/exportService';
+
+const FORMATS: { value: ExportFormat, label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'pdf', label: 'PDF Bulletin' }
+];
+
+interface ExportMenuProps {
+  filters: EntryFilters;
+  reservoirs: Reservoir[];
+  canView: (entry: ReservoirEntry) => boolean; // Offline cache rows are not scoped by the database
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ filters, reservoirs, canView }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  // Official bulletins carry QA-approved readings only; unchecking includes unreviewed ones
+  const [approvedOnly, setApprovedOnly] = useState(true);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    const scope: EntryFilters = approvedOnly ? { ...filters, reviewStatus: 'APPROVED' } : filters;
+    try {
+      const { entries, truncated } = await dataService.collectEntries(scope);
+      const visible = entries.filter(canView);
+      if (visible.length === 0) {
+        alert(approvedOnly ? "No approved readings match the current filters." : "No readings match the current filters.");
+        return;
+      }
+      if (truncated && !confirm(`Only the ${EXPORT_MAX_ENTRIES} most recent matching readings will be exported. Narrow the filters to export the rest. Continue?`)) {
+        return;
+      }
+      exportService.exportEntries(format, visible, reservoirs, scope);
+    } catch (e: any) {
+      alert(`Export failed: ${e.message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      <label className="flex items-center gap-1 text-xs text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={approvedOnly} onChange={(e) => setApprovedOnly(e.target.checked)} />
+        Approved only
+      </label>
+      <span className="text-xs text-slate-500">Export filtered readings:</span>
+      {FORMATS.map(({ value, label }) => (
+        <Button
+          key={value}
+          variant="secondary"
+          className="text-xs px-2 py-1"
+          disabled={busy !== null}
+          onClick={() => handleExport(value)}
+        >
+          {busy === value ? 'Preparing...' : label}
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ImportColumnMapping, ImportOptions, ImportRowResult, Reservoir, ReservoirAssignment, User } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { dataService } from '../services/dataService';
+import { IMPORT_FIELDS, guessMapping, parseCsv, validateRows } from '../services/importService';
+import { isInScope } from '../services/permissionService';
+
+// Rows shown in the preview table; the counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+const selectClass = 'w-full border border-slate-300 rounded-lg px-2 py-1.5 text-sm';
+
+interface ImportWizardProps {
+  user: User;
+  reservoirs: Reservoir[];
+  assignments: ReservoirAssignment[];
+  onImported: () => void;
+}
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ user, reservoirs, assignments, onImported }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [options, setOptions] = useState<ImportOptions>({ levelUnit: 'm', dateFormat: 'DD/MM/YYYY' });
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [onlyProblems, setOnlyProblems] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [outcome, setOutcome] = useState<{ imported: number, failed: { count: number, error: string }[] } | null>(null);
+  const batchId = useRef(crypto.randomUUID());
+
+  const valid = useMemo(() => results.filter(r => r.entry), [results]);
+  const invalidCount = results.length - valid.length;
+  const warningCount = results.filter(r => r.entry && r.warnings.length > 0).length;
+  const preview = (onlyProblems ? results.filter(r => r.errors.length > 0 || r.warnings.length > 0) : results).slice(0, PREVIEW_LIMIT);
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setResults([]);
+    setOutcome(null);
+    setProgress(null);
+    batchId.current = crypto.randomUUID();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      alert("The file needs a header row and at least one reading.");
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(parsed[0]);
+    setRows(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+    setStep('map');
+  };
+
+  // Validate once to learn which reservoirs and dates are involved, then again against what is stored
+  const handleValidate = async () => {
+    setIsWorking(true);
+    try {
+      const inScope = (reservoir: Reservoir) => isInScope(user, assignments, reservoir);
+      const validate = (existing: Set<string>) =>
+        validateRows(rows, mapping, options, reservoirs, user, inScope, existing, batchId.current);
+
+      const candidates = validate(new Set()).flatMap(r => (r.entry ? [r.entry] : []));
+      const existing = candidates.length > 0
+        ? await dataService.getReadingKeys(
+            Array.from(new Set(candidates.map(e => e.reservoirId))),
+            candidates.reduce((min, e) => Math.min(min, e.timestamp), Infinity),
+            candidates.reduce((max, e) => Math.max(max, e.timestamp), -Infinity)
+          )
+        : new Set<string>();
+      setResults(validate(existing));
+      setStep('review');
+    } catch (e: any) {
+      alert(`Could not check for existing readings: ${e.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!confirm(`Import ${valid.length} readings? They will be attributed to you and marked as not field-verified.`)) return;
+    setIsWorking(true);
+    setProgress({ done: 0, total: valid.length });
+    const result = await dataService.importEntries(valid.map(r => r.entry!), (done, total) => setProgress({ done, total }));
+    setOutcome({ imported: result.imported, failed: result.failed.map(f => ({ count: f.entries.length, error: f.error })) });
+    setIsWorking(false);
+    setStep('done');
+    if (result.imported > 0) onImported();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">Import Readings</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          Bulk-load historical or paper-logged gauge readings from a CSV file. Imported readings are attributed to you and are never marked as field-verified.
+        </p>
+      </div>
+
+      {step === 'upload' && (
+        <Card title="1. Upload CSV">
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-sm" />
+          <p className="text-xs text-slate-500 mt-3">
+            One reading per row with a header row. Needed: reservoir name or ID, date and water level. Optional: time, capacity %, status, observer and notes.
+          </p>
+        </Card>
+      )}
+
+      {step === 'map' && (
+        <Card title={`2. Map Columns (${fileName}, ${rows.length} rows)`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="space-y-1 text-sm">
+                <span className="text-xs font-medium text-slate-500">{label}{required && ' *'}</span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  <option value="">Not in file</option>
+                  {headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+            <label className="space-y-1 text-sm">
+              <span className="text-xs font-medium text-slate-500">Level unit (when not written on the value)</span>
+              <select value={options.levelUnit} onChange={(e) => setOptions({ ...options, levelUnit: e.target.value as ImportOptions['levelUnit'] })} className={selectClass}>
+                <option value="m">Meters (MSL)</option>
+                <option value="ft">Feet (MSL)</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-xs font-medium text-slate-500">Date format</span>
+              <select value={options.dateFormat} onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as ImportOptions['dateFormat'] })} className={selectClass}>
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            </label>
+          </div>
+          {missingRequired.length > 0 && (
+            <p className="text-xs text-red-600 mt-3">Map the required fields: {missingRequired.map(f => f.label).join(', ')}</p>
+          )}
+          <div className="flex justify-between mt-4">
+            <Button variant="ghost" onClick={reset}>Start Over</Button>
+            <Button onClick={handleValidate} disabled={missingRequired.length > 0} isLoading={isWorking}>Validate</Button>
+          </div>
+        </Card>
+      )}
+
+      {step === 'review' && (
+        <Card title="3. Review">
+          <div className="grid grid-cols-3 gap-4 text-center mb-4">
+            <div className="bg-green-50 rounded-lg p-3">
+              <p className="text-2xl font-bold text-green-700">{valid.length}</p>
+              <p className="text-xs text-green-800">ready to import</p>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-3">
+              <p className="text-2xl font-bold text-yellow-700">{warningCount}</p>
+              <p className="text-xs text-yellow-800">with warnings</p>
+            </div>
+            <div className="bg-red-50 rounded-lg p-3">
+              <p className="text-2xl font-bold text-red-700">{invalidCount}</p>
+              <p className="text-xs text-red-800">will be skipped</p>
+            </div>
+          </div>
+
+          <label className="text-xs text-slate-500 flex items-center gap-1 mb-2">
+            <input type="checkbox" checked={onlyProblems} onChange={(e) => setOnlyProblems(e.target.checked)} />
+            Only rows with errors or warnings
+          </label>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-slate-200 rounded-lg">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left text-slate-500">
+                  <th className="px-2 py-1.5">Row</th>
+                  <th className="px-2 py-1.5">Reservoir</th>
+                  <th className="px-2 py-1.5">Time</th>
+                  <th className="px-2 py-1.5">Level (m)</th>
+                  <th className="px-2 py-1.5">Status</th>
+                  <th className="px-2 py-1.5">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {preview.map(result => (
+                  <tr key={result.row} className={result.errors.length > 0 ? 'bg-red-50' : result.warnings.length > 0 ? 'bg-yellow-50' : ''}>
+                    <td className="px-2 py-1.5 text-slate-500">{result.row}</td>
+                    <td className="px-2 py-1.5">{result.entry?.name ?? '-'}</td>
+                    <td className="px-2 py-1.5">{result.entry ? new Date(result.entry.timestamp).toLocaleString() : '-'}</td>
+                    <td className="px-2 py-1.5">{result.entry?.waterLevel ?? '-'}</td>
+                    <td className="px-2 py-1.5">{result.entry?.status ?? '-'}</td>
+                    <td className="px-2 py-1.5">
+                      {result.errors.map(e => <p key={e} className="text-red-700">{e}</p>)}
+                      {result.warnings.map(w => <p key={w} className="text-yellow-800">{w}</p>)}
+                    </td>
+                  </tr>
+                ))}
+                {preview.length === 0 && (
+                  <tr><td colSpan={6} className="px-2 py-4 text-center text-slate-400">No problems found.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {preview.length === PREVIEW_LIMIT && <p className="text-xs text-slate-400 mt-1">Showing the first {PREVIEW_LIMIT} rows.</p>}
+
+          {progress && (
+            <div className="mt-4">
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <p className="text-xs text-slate-500 mt-1">Imported {progress.done} of {progress.total}</p>
+            </div>
+          )}
+
+          <div className="flex justify-between mt-4">
+            <Button variant="ghost" onClick={() => setStep('map')} disabled={isWorking}>Back to Mapping</Button>
+            <Button onClick={handleCommit} disabled={valid.length === 0} isLoading={isWorking}>
+              Import {valid.length} Readings
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {step === 'done' && outcome && (
+        <Card title="Import Complete">
+          <p className="text-sm text-slate-700">{outcome.imported} readings imported from {fileName}.</p>
+          {outcome.failed.map((f, i) => (
+            <p key={i} className="text-sm text-red-600 mt-1">{f.count} readings failed: {f.error}</p>
+          ))}
+          <div className="mt-4">
+            <Button variant="secondary" onClick={reset}>Import Another File</Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { User, UserRole } from '../types';
+import { pwaService } from '../services/pwaService';
+import { AlertCenter } from './AlertCenter';
 
 interface LayoutProps {
   user: User | null;
@@ -8,6 +10,10 @@ interface LayoutProps {
 }
 
 export const Layout: React.FC<LayoutProps> = ({ user, onLogout, children }) => {
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+
+  useEffect(() => pwaService.onUpdateAvailable(setUpdateAvailable), []);
+
   if (!user) {
     return <main className="min-h-screen bg-slate-50 flex flex-col justify-center">{children}</main>;
   }
@@ -35,6 +41,7 @@ export const Layout: React.FC<LayoutProps> = ({ user, onLogout, children }) => {
                     {user.role ? user.role.replace('_', ' ') : 'User'}
                 </p>
              </div>
+             <AlertCenter user={user} />
              <img src={user.avatarUrl} alt={user.name} className="w-9 h-9 rounded-full border border-slate-200" />
              <button onClick={onLogout} title="Sign Out" className="text-slate-500 hover:text-red-600 p-2 rounded-full hover:bg-slate-100 transition-colors">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -45,6 +52,21 @@ export const Layout: React.FC<LayoutProps> = ({ user, onLogout, children }) => {
         </div>
       </header>
 
+      {/* Update Prompt */}
+      {updateAvailable && (
+        <div className="bg-blue-600 text-white text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-4">
+            <span>A new version of LankaReservoir Watch is available.</span>
+            <button
+              onClick={() => pwaService.applyUpdate()}
+              className="bg-white text-blue-700 font-semibold px-3 py-1 rounded-md hover:bg-blue-50"
+            >
+              Update Now
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {children}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { OperationalFields } from '../types';
+
+// Upper bound on the per-gate inputs
+const MAX_GATES = 30;
+
+const inputClass = 'w-full rounded-lg border-slate-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const optionalNumber = (text: string): number | undefined => (text === '' ? undefined : Number(text));
+
+const show = (value: number | undefined) => (value === undefined ? '' : value);
+
+// Only a complete set of openings is recorded; the required inputs stop a partial one being submitted
+const parseOpenings = (openings: string[]): number[] | undefined =>
+  openings.length > 0 && openings.every(o => o !== '') ? openings.map(Number) : undefined;
+
+interface OperationalFieldsInputProps {
+  value: OperationalFields;
+  onChange: (value: OperationalFields) => void;
+}
+
+/**
+ * Rainfall, spill gates and flows, recorded alongside the level. Every field is optional;
+ * when gates are open, the opening of each one is required.
+ */
+export const OperationalFieldsInput: React.FC<OperationalFieldsInputProps> = ({ value, onChange }) => {
+  // Held as text so a half-filled set of gate openings is not lost while typing
+  const [openings, setOpenings] = useState<string[]>((value.gateOpenings || []).map(String));
+
+  const set = (changes: Partial<OperationalFields>) => onChange({ ...value, ...changes });
+
+  const updateOpenings = (next: string[]) => {
+    setOpenings(next);
+    set({ gateOpenings: parseOpenings(next) });
+  };
+
+  const handleGatesOpen = (text: string) => {
+    const gatesOpen = optionalNumber(text);
+    const count = Math.min(MAX_GATES, Math.max(0, Math.floor(gatesOpen ?? 0)));
+    const next = Array.from({ length: count }, (_, i) => openings[i] ?? '');
+    setOpenings(next);
+    set({ gatesOpen, gateOpenings: parseOpenings(next) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Rainfall (mm, 24 h)</span>
+          <input type="number" min="0" step="0.1" value={show(value.rainfallMm)} onChange={(e) => set({ rainfallMm: optionalNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Spill gates open</span>
+          <input type="number" min="0" max={MAX_GATES} step="1" value={show(value.gatesOpen)} onChange={(e) => handleGatesOpen(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Sluice discharge (m³/s)</span>
+          <input type="number" min="0" step="0.01" value={show(value.sluiceDischarge)} onChange={(e) => set({ sluiceDischarge: optionalNumber(e.target.value) })} className={inputClass} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-slate-600 mb-1">Inflow estimate (m³/s)</span>
+          <input type="number" min="0" step="0.01" value={show(value.inflowEstimate)} onChange={(e) => set({ inflowEstimate: optionalNumber(e.target.value) })} className={inputClass} />
+        </label>
+      </div>
+
+      {openings.length > 0 && (
+        <div>
+          <span className="block text-sm text-slate-600 mb-1">Gate opening (m)</span>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {openings.map((opening, i) => (
+              <label key={i} className="text-xs text-slate-500">
+                Gate {i + 1}
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="0.01"
+                  value={opening}
+                  onChange={(e) => updateOpenings(openings.map((o, j) => (j === i ? e.target.value : o)))}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * One-line summary for entry cards; nothing when no operational fields were recorded.
+ */
+export const OperationalSummary: React.FC<{ fields: OperationalFields, className?: string }> = ({ fields, className = '' }) => {
+  const parts: string[] = [];
+  if (fields.rainfallMm !== undefined) parts.push(`Rainfall ${fields.rainfallMm} mm`);
+  if (fields.gatesOpen !== undefined) {
+    parts.push(fields.gatesOpen === 0
+      ? 'Spill gates closed'
+      : `${fields.gatesOpen} gate${fields.gatesOpen === 1 ? '' : 's'} open${fields.gateOpenings?.length ? ` (${fields.gateOpenings.join(', ')} m)` : ''}`);
+  }
+  if (fields.sluiceDischarge !== undefined) parts.push(`Sluice ${fields.sluiceDischarge} m³/s`);
+  if (fields.inflowEstimate !== undefined) parts.push(`Inflow ~${fields.inflowEstimate} m³/s`);
+  if (parts.length === 0) return null;
+  return <p className={`text-sm text-slate-600 ${className}`}>{parts.join(' · ')}</p>;
+};
@@ -0,0 +1,216 @@
+import React, { useState, useMemo } from 'react';
+import { ForecastEstimate, HistoryRange, Reservoir, ReservoirEntry, ReservoirForecast, TimeWindow } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { TrendChart, ChartMarker, ChartReferenceLine } from './TrendChart';
+import { AlertRulesEditor } from './AlertRulesEditor';
+import { HISTORY_RANGES, alignToCurrentYear, previousYearWindow, rangeWindow, ratesOfChange, readingsInWindow } from '../services/historyService';
+import { CONFIDENCE_Z, FORECAST_WINDOW_DAYS, describeForecast } from '../services/forecastService';
+
+// Rates smaller than this are not annotated on the chart
+const ANNOTATE_MIN_RATE = 0.05;
+
+interface ReservoirDetailProps {
+  reservoir: Reservoir | null;
+  entries: ReservoirEntry[];
+  forecast: ReservoirForecast | null;
+  canEditAlertRules: boolean;
+  onBack: () => void;
+}
+
+const formatRate = (metersPerDay: number) => `${metersPerDay >= 0 ? '+' : ''}${metersPerDay.toFixed(2)} m/day`;
+
+const formatEstimate = (estimate: ForecastEstimate | null) => {
+  if (!estimate) return 'Not expected';
+  if (estimate.days === 0) return 'Now';
+  const latest = estimate.latestDays === null ? 'open-ended' : `${Math.round(estimate.latestDays)}`;
+  return `~${Math.round(estimate.days)} days (${Math.round(estimate.earliestDays)}–${latest})`;
+};
+
+export const ReservoirDetail: React.FC<ReservoirDetailProps> = ({ reservoir, entries, forecast, canEditAlertRules, onBack }) => {
+  const [range, setRange] = useState<HistoryRange>('30d');
+
+  const period = useMemo(() => rangeWindow(range), [range]);
+  const lastYearPeriod = useMemo(() => previousYearWindow(period), [period]);
+  const current = useMemo(() => readingsInWindow(entries, period), [entries, period]);
+  const lastYear = useMemo(() => alignToCurrentYear(readingsInWindow(entries, lastYearPeriod)), [entries, lastYearPeriod]);
+  const rates = useMemo(() => ratesOfChange(current), [current]);
+
+  const latest = current[current.length - 1];
+  const periodChange = current.length >= 2 ? latest.waterLevel - current[0].waterLevel : null;
+  const lastYearLatest = lastYear[lastYear.length - 1];
+
+  const levelMarkers: ChartMarker[] = rates
+    .filter(r => Math.abs(r.metersPerDay) >= ANNOTATE_MIN_RATE)
+    .map(r => ({
+      x: r.timestamp,
+      y: (r.from.waterLevel + r.to.waterLevel) / 2,
+      label: formatRate(r.metersPerDay),
+      color: r.metersPerDay > 0 ? '#2563eb' : '#ea580c'
+    }));
+
+  const forecastPeriod: TimeWindow | null = forecast && forecast.projection.length > 0
+    ? { start: forecast.projection[0].timestamp, end: forecast.projection[forecast.projection.length - 1].timestamp, label: 'Forecast' }
+    : null;
+
+  const levelReferences: ChartReferenceLine[] = reservoir
+    ? [
+        { y: reservoir.fullSupplyLevel, label: 'FSL', color: '#dc2626' },
+        { y: reservoir.deadStorageLevel, label: 'DSL', color: '#64748b' }
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <button onClick={onBack} className="text-sm text-blue-600 hover:underline mb-1">&larr; All reservoirs</button>
+          <h2 className="text-2xl font-bold text-slate-900">{reservoir ? reservoir.name : 'Unregistered Readings'}</h2>
+          {reservoir && (
+            <p className="text-sm text-slate-500">
+              {reservoir.district} District &middot; FSL {reservoir.fullSupplyLevel} m &middot; Gross capacity {reservoir.grossCapacity} MCM
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {HISTORY_RANGES.map(option => (
+            <Button
+              key={option.value}
+              variant={range === option.value ? 'primary' : 'secondary'}
+              className="text-xs px-3 py-1"
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="p-4">
+          <p className="text-xs text-slate-500">Latest Level</p>
+          <p className="text-xl font-bold text-slate-900">{latest ? `${latest.waterLevel} m` : '—'}</p>
+          {latest && <p className="text-xs text-slate-400">{new Date(latest.timestamp).toLocaleString()}</p>}
+        </Card>
+        <Card className="p-4">
+          <p className="text-xs text-slate-500">Change ({period.label})</p>
+          <p className={`text-xl font-bold ${periodChange === null ? 'text-slate-900' : periodChange >= 0 ? 'text-blue-700' : 'text-orange-700'}`}>
+            {periodChange === null ? '—' : `${periodChange >= 0 ? '+' : ''}${periodChange.toFixed(2)} m`}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-xs text-slate-500">Latest Rate</p>
+          <p className="text-xl font-bold text-slate-900">{rates.length ? formatRate(rates[rates.length - 1].metersPerDay) : '—'}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-xs text-slate-500">{lastYearPeriod.label}</p>
+          <p className="text-xl font-bold text-slate-900">{lastYearLatest ? `${lastYearLatest.waterLevel} m` : '—'}</p>
+          {latest && lastYearLatest && (
+            <p className="text-xs text-slate-400">
+              {latest.waterLevel - lastYearLatest.waterLevel >= 0 ? '+' : ''}{(latest.waterLevel - lastYearLatest.waterLevel).toFixed(2)} m vs last year
+            </p>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Water Level">
+        <TrendChart
+          period={period}
+          unit="m MSL"
+          referenceLines={levelReferences}
+          markers={levelMarkers}
+          series={[
+            { label: period.label, color: '#2563eb', points: current.map(e => ({ x: e.timestamp, y: e.waterLevel })) },
+            { label: lastYearPeriod.label, color: '#94a3b8', dashed: true, points: lastYear.map(e => ({ x: e.timestamp, y: e.waterLevel })) }
+          ]}
+        />
+      </Card>
+
+      <Card title="Capacity">
+        <TrendChart
+          period={period}
+          unit="%"
+          referenceLines={[{ y: 100, label: 'Full', color: '#dc2626' }]}
+          series={[
+            { label: period.label, color: '#0891b2', points: current.map(e => ({ x: e.timestamp, y: e.capacityPercentage })) },
+            { label: lastYearPeriod.label, color: '#94a3b8', dashed: true, points: lastYear.map(e => ({ x: e.timestamp, y: e.capacityPercentage })) }
+          ]}
+        />
+      </Card>
+
+      {reservoir && (
+        <Card title="Forecast" action={<span className="text-xs text-slate-400">Local water-balance model, 95% band</span>}>
+          {!forecast || !forecastPeriod ? (
+            <p className="text-sm text-slate-500">{describeForecast(forecast)}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                <div>
+                  <p className="text-slate-500">Days to Spill</p>
+                  <p className="font-semibold text-slate-900">{formatEstimate(forecast.daysToSpill)}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Days to Dead Storage</p>
+                  <p className="font-semibold text-slate-900">{formatEstimate(forecast.daysToEmpty)}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Net Flow</p>
+                  <p className="font-semibold text-slate-900">
+                    {forecast.netFlowMcmPerDay >= 0 ? '+' : ''}{forecast.netFlowMcmPerDay.toFixed(3)} MCM/day
+                    <span className="text-xs font-normal text-slate-500"> &plusmn;{(CONFIDENCE_Z * forecast.netFlowStdError).toFixed(3)}</span>
+                  </p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Inflow / Outflow</p>
+                  <p className="font-semibold text-slate-900">
+                    {forecast.inflowMcmPerDay.toFixed(3)} / {forecast.outflowMcmPerDay.toFixed(3)} MCM/day
+                  </p>
+                </div>
+              </div>
+              <TrendChart
+                period={forecastPeriod}
+                unit="m MSL"
+                referenceLines={levelReferences}
+                series={[
+                  { label: 'Projected level', color: '#7c3aed', points: forecast.projection.map(p => ({ x: p.timestamp, y: p.level })) },
+                  { label: 'Upper bound', color: '#c4b5fd', dashed: true, points: forecast.projection.map(p => ({ x: p.timestamp, y: p.high })) },
+                  { label: 'Lower bound', color: '#c4b5fd', dashed: true, points: forecast.projection.map(p => ({ x: p.timestamp, y: p.low })) }
+                ]}
+              />
+              <p className="text-xs text-slate-400 mt-2">Based on {forecast.readingsUsed} readings from the last {FORECAST_WINDOW_DAYS} days.</p>
+            </>
+          )}
+        </Card>
+      )}
+
+      {reservoir && canEditAlertRules && <AlertRulesEditor reservoir={reservoir} />}
+
+      {rates.length > 0 && (
+        <Card title="Rate of Change">
+          <table className="w-full text-sm">
+            <thead className="text-xs uppercase text-slate-500">
+              <tr>
+                <th className="text-left py-2">From</th>
+                <th className="text-left py-2">To</th>
+                <th className="text-right py-2">Level</th>
+                <th className="text-right py-2">Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {[...rates].reverse().map(rate => (
+                <tr key={rate.timestamp}>
+                  <td className="py-2 text-slate-600">{new Date(rate.from.timestamp).toLocaleString()}</td>
+                  <td className="py-2 text-slate-600">{new Date(rate.to.timestamp).toLocaleString()}</td>
+                  <td className="py-2 text-right text-slate-900">{rate.from.waterLevel} &rarr; {rate.to.waterLevel} m</td>
+                  <td className={`py-2 text-right font-semibold ${rate.metersPerDay >= 0 ? 'text-blue-700' : 'text-orange-700'}`}>
+                    {formatRate(rate.metersPerDay)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+    </div>
+  );
+};
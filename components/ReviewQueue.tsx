@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EntryCursor, EntryFilters, Reservoir, ReservoirAssignment, ReservoirEntry, ReviewStatus, User } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { EntryPhotos } from './EntryPhotos';
+import { dataService } from '../services/dataService';
+import { canReviewEntry } from '../services/permissionService';
+import { openQualityFlags } from '../services/validationService';
+import { REVIEW_STATUS_LABELS, requiresReviewComment } from '../services/reviewService';
+
+const ACTIONS: { status: ReviewStatus, label: string, variant: 'primary' | 'secondary' | 'danger' }[] = [
+  { status: 'APPROVED', label: 'Approve', variant: 'primary' },
+  { status: 'CORRECTION_REQUESTED', label: 'Request Correction', variant: 'secondary' },
+  { status: 'REJECTED', label: 'Reject', variant: 'danger' }
+];
+
+interface ReviewQueueProps {
+  user: User;
+  reservoirs: Reservoir[];
+  assignments: ReservoirAssignment[];
+  onReviewed: () => void;
+}
+
+/**
+ * ADMIN queue of readings awaiting QA review, newest first. Readings the admin submitted
+ * themselves are left for another reviewer.
+ */
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ user, reservoirs, assignments, onReviewed }) => {
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [entries, setEntries] = useState<ReservoirEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<EntryCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<{ id: string, status: ReviewStatus } | null>(null);
+  // Ignore responses to requests superseded by a newer filter
+  const request = useRef(0);
+
+  const filters: EntryFilters = { reviewStatus: 'PENDING', flagged: flaggedOnly || undefined };
+
+  const load = async (cursor: EntryCursor | null) => {
+    const id = ++request.current;
+    setIsLoading(true);
+    const page = await dataService.queryEntries(filters, cursor);
+    if (id !== request.current) return;
+    const reviewable = page.entries.filter(e => canReviewEntry(user, assignments, reservoirs, e));
+    setEntries(previous => (cursor ? [...previous, ...reviewable.filter(e => !previous.some(p => p.id === e.id))] : reviewable));
+    setNextCursor(page.nextCursor);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    load(null);
+  }, [flaggedOnly, reservoirs, assignments]);
+
+  const handleReview = async (entry: ReservoirEntry, status: ReviewStatus) => {
+    const comment = (comments[entry.id] || '').trim();
+    if (requiresReviewComment(status) && !comment) {
+      alert(`Add a comment for the submitter before choosing "${REVIEW_STATUS_LABELS[status]}".`);
+      return;
+    }
+    setSaving({ id: entry.id, status });
+    try {
+      await dataService.reviewEntry(entry, user, status, comment);
+      setEntries(previous => previous.filter(e => e.id !== entry.id));
+      onReviewed();
+    } catch (e: any) {
+      alert(`Review failed: ${e.message}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Review Queue</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Readings awaiting QA. Only approved readings go into official bulletins and approved-only exports.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+          Flagged readings only
+        </label>
+      </div>
+
+      {entries.map(entry => {
+        const flags = openQualityFlags(entry);
+        return (
+          <Card key={entry.id} className={flags.length > 0 ? 'border-l-4 border-l-red-400' : ''}>
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <h4 className="font-bold text-slate-900">{entry.name}</h4>
+                <p className="text-xs text-slate-500">
+                  {new Date(entry.timestamp).toLocaleString()} &middot; {entry.submittedBy}
+                  {entry.source === 'IMPORT' && ' · Imported'}
+                  {!entry.isVerified && ' · Outside geofence'}
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-semibold text-slate-900">{entry.waterLevel} m</p>
+                <p className="text-xs text-slate-500">{entry.capacityPercentage}% &middot; {entry.status}{entry.isManualOverride && ' (manual)'}</p>
+              </div>
+            </div>
+
+            {flags.length > 0 && (
+              <ul className="mt-3 text-sm bg-red-50 text-red-800 border border-red-100 rounded-lg p-2 list-disc pl-6">
+                {flags.map(f => <li key={f.code}>{f.message}</li>)}
+              </ul>
+            )}
+            {entry.gaugeReading && entry.gaugeReading.verdict !== 'MISMATCH' && (
+              <p className="mt-2 text-xs text-slate-500">
+                Gauge photo: {entry.gaugeReading.verdict === 'MATCH' ? `reads ${entry.gaugeReading.value} m` : 'unreadable'}
+              </p>
+            )}
+            {entry.reviewComment && (
+              <p className="mt-2 text-xs text-slate-500">Earlier review by {entry.reviewedBy}: &ldquo;{entry.reviewComment}&rdquo;</p>
+            )}
+            {entry.notes && <p className="mt-2 text-sm text-slate-600 italic">&ldquo;{entry.notes}&rdquo;</p>}
+            {entry.photos && <div className="mt-3"><EntryPhotos photos={entry.photos} /></div>}
+
+            <div className="mt-4 flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={comments[entry.id] || ''}
+                onChange={(e) => setComments({ ...comments, [entry.id]: e.target.value })}
+                placeholder="Comment for the submitter (required to reject or request a correction)"
+                className="flex-1 border border-slate-300 rounded-lg px-2 py-1.5 text-sm"
+              />
+              <div className="flex gap-2">
+                {ACTIONS.map(action => (
+                  <Button
+                    key={action.status}
+                    variant={action.variant}
+                    className="text-xs px-2 py-1"
+                    disabled={saving !== null}
+                    isLoading={saving?.id === entry.id && saving.status === action.status}
+                    onClick={() => handleReview(entry, action.status)}
+                  >
+                    {action.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+
+      <div className="text-center text-xs text-slate-400 py-2">
+        {isLoading
+          ? <span className="animate-pulse">Loading...</span>
+          : nextCursor
+            ? <button onClick={() => load(nextCursor)} className="hover:text-blue-600">Load more</button>
+            : entries.length === 0 ? 'Nothing awaiting review.' : 'End of queue'}
+      </div>
+    </div>
+  );
+};
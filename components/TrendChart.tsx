@@ -0,0 +1,124 @@
+import React, { useMemo } from 'react';
+import { TimeWindow } from '../types';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  dashed?: boolean;
+  points: { x: number, y: number }[]; // x in ms, oldest first
+}
+
+export interface ChartMarker {
+  x: number;
+  y: number;
+  label: string;
+  color: string;
+}
+
+export interface ChartReferenceLine {
+  y: number;
+  label: string;
+  color: string;
+}
+
+interface TrendChartProps {
+  period: TimeWindow;
+  series: ChartSeries[];
+  unit: string;
+  markers?: ChartMarker[];
+  referenceLines?: ChartReferenceLine[];
+}
+
+// SVG viewBox geometry; the chart scales to its container width
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 16, bottom: 28, left: 48 };
+const Y_TICKS = 4;
+
+/**
+ * Dependency-free SVG line chart for reading history.
+ */
+export const TrendChart: React.FC<TrendChartProps> = ({ period, series, unit, markers = [], referenceLines = [] }) => {
+  const yDomain = useMemo(() => {
+    const values = [
+      ...series.flatMap(s => s.points.map(p => p.y)),
+      ...referenceLines.map(r => r.y)
+    ];
+    if (values.length === 0) return { min: 0, max: 1 };
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const margin = (max - min) * 0.1 || 1;
+    return { min: min - margin, max: max + margin };
+  }, [series, referenceLines]);
+
+  const xScale = (x: number) =>
+    PAD.left + ((x - period.start) / Math.max(1, period.end - period.start)) * (WIDTH - PAD.left - PAD.right);
+  const yScale = (y: number) =>
+    HEIGHT - PAD.bottom - ((y - yDomain.min) / (yDomain.max - yDomain.min)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => yDomain.min + (i / Y_TICKS) * (yDomain.max - yDomain.min));
+  const xTicks = [period.start, (period.start + period.end) / 2, period.end];
+
+  const hasData = series.some(s => s.points.length > 0);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yScale(tick)} y2={yScale(tick)} stroke="#e2e8f0" />
+            <text x={PAD.left - 6} y={yScale(tick) + 4} textAnchor="end" fontSize="10" fill="#64748b">
+              {tick.toFixed(1)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((tick, i) => (
+          <text key={tick} x={xScale(tick)} y={HEIGHT - 8} textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'} fontSize="10" fill="#64748b">
+            {new Date(tick).toLocaleDateString([], { day: 'numeric', month: 'short' })}
+          </text>
+        ))}
+        <text x={12} y={PAD.top} fontSize="10" fill="#64748b">{unit}</text>
+
+        {referenceLines.map(line => (
+          <g key={line.label}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yScale(line.y)} y2={yScale(line.y)} stroke={line.color} strokeDasharray="2 3" />
+            <text x={WIDTH - PAD.right} y={yScale(line.y) - 3} textAnchor="end" fontSize="9" fill={line.color}>{line.label}</text>
+          </g>
+        ))}
+
+        {series.map(s => s.points.length > 0 && (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeDasharray={s.dashed ? '6 4' : undefined}
+              points={s.points.map(p => `${xScale(p.x)},${yScale(p.y)}`).join(' ')}
+            />
+            {!s.dashed && s.points.map(p => (
+              <circle key={p.x} cx={xScale(p.x)} cy={yScale(p.y)} r={2.5} fill={s.color} />
+            ))}
+          </g>
+        ))}
+
+        {markers.map(marker => (
+          <text key={`${marker.x}-${marker.label}`} x={xScale(marker.x)} y={yScale(marker.y) - 8} textAnchor="middle" fontSize="9" fontWeight="bold" fill={marker.color}>
+            {marker.label}
+          </text>
+        ))}
+
+        {!hasData && (
+          <text x={WIDTH / 2} y={HEIGHT / 2} textAnchor="middle" fontSize="12" fill="#94a3b8">No readings in this period</text>
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600">
+        {series.map(s => (
+          <span key={s.label} className="flex items-center gap-1.5">
+            <span className="inline-block w-4 border-t-2" style={{ borderColor: s.color, borderStyle: s.dashed ? 'dashed' : 'solid' }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
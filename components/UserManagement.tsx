@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AccountStatus, Passkey, Reservoir, ReservoirAssignment, User, UserProfile, UserRole } from '../types';
+import { Card } from './Card';
+import { Button } from './Button';
+import { userService } from '../services/userService';
+import { authService } from '../services/authService';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.SUPER_ADMIN]: 'Super Admin',
+  [UserRole.ADMIN]: 'Admin',
+  [UserRole.DATA_ENTRY_WORKER]: 'Field Worker'
+};
+
+const STATUS_STYLES: Record<AccountStatus, string> = {
+  [AccountStatus.ACTIVE]: 'bg-green-100 text-green-800',
+  [AccountStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
+  [AccountStatus.DEACTIVATED]: 'bg-slate-200 text-slate-600'
+};
+
+interface UserManagementProps {
+  currentUser: User;
+  reservoirs: Reservoir[];
+}
+
+export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, reservoirs }) => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [devices, setDevices] = useState<Passkey[]>([]);
+  const [assignments, setAssignments] = useState<ReservoirAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [assignmentTarget, setAssignmentTarget] = useState('');
+
+  const loadUsers = async () => {
+    setIsLoading(true);
+    try {
+      const [profiles, passkeys, assigned] = await Promise.all([
+        userService.getUsers(),
+        authService.listDevices(),
+        userService.getAssignments()
+      ]);
+      setUsers(profiles);
+      setDevices(passkeys);
+      setAssignments(assigned);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const districts = useMemo(
+    () => Array.from(new Set(reservoirs.map(r => r.district))).sort(),
+    [reservoirs]
+  );
+
+  // Run an admin action, surface its error, then refresh the list
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      alert(e.message);
+    }
+    await loadUsers();
+  };
+
+  const handleRoleChange = (profile: UserProfile, role: UserRole) =>
+    run(() => profile.status === AccountStatus.PENDING
+      ? userService.approveUser(profile.id, role)
+      : userService.setRole(profile.id, role));
+
+  const handleToggleActive = (profile: UserProfile) => {
+    const deactivate = profile.status === AccountStatus.ACTIVE;
+    if (deactivate && !confirm(`Deactivate ${profile.name}? They will lose access immediately.`)) return;
+    run(() => userService.setStatus(profile.id, deactivate ? AccountStatus.DEACTIVATED : AccountStatus.ACTIVE));
+  };
+
+  const handleResetEnrollment = (profile: UserProfile) => {
+    if (!confirm(`Revoke all devices of ${profile.name}? They will need to enroll again.`)) return;
+    run(() => userService.resetEnrollment(profile.id));
+  };
+
+  const handleRevokeDevice = (device: Passkey) => {
+    if (!confirm(`Revoke ${device.deviceName}?`)) return;
+    run(() => authService.revokeDevice(device.credentialId));
+  };
+
+  const handleAddAssignment = (profile: UserProfile) => {
+    if (!assignmentTarget) return;
+    const [kind, value] = assignmentTarget.split(':');
+    setAssignmentTarget('');
+    run(() => userService.addAssignment(profile.id, kind === 'reservoir' ? { reservoirId: value } : { district: value }));
+  };
+
+  const describeAssignment = (assignment: ReservoirAssignment) => assignment.reservoirId
+    ? reservoirs.find(r => r.id === assignment.reservoirId)?.name || assignment.reservoirId
+    : `${assignment.district} District`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-slate-900">Manage Users</h2>
+        {isLoading && <span className="text-xs text-slate-400 animate-pulse">Loading...</span>}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card className="p-0 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+            <tr>
+              <th className="text-left px-4 py-3">Officer</th>
+              <th className="text-left px-4 py-3">Role</th>
+              <th className="text-left px-4 py-3 hidden md:table-cell">Last Login</th>
+              <th className="text-left px-4 py-3 hidden md:table-cell">Devices</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {users.map(profile => {
+              const isSelf = profile.id === currentUser.id;
+              const userDevices = devices.filter(d => d.userId === profile.id);
+              const activeDevices = userDevices.filter(d => !d.revokedAt);
+              const userAssignments = assignments.filter(a => a.userId === profile.id);
+              const isExpanded = expandedId === profile.id;
+
+              return (
+                <React.Fragment key={profile.id}>
+                  <tr className={profile.status === AccountStatus.DEACTIVATED ? 'opacity-60' : ''}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <img src={profile.avatarUrl} alt="" className="h-8 w-8 rounded-full bg-slate-100" />
+                        <div>
+                          <p className="font-medium text-slate-900">{profile.name}{isSelf && ' (you)'}</p>
+                          <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${STATUS_STYLES[profile.status]}`}>
+                            {profile.status}
+                          </span>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={profile.role}
+                        disabled={isSelf}
+                        onChange={(e) => handleRoleChange(profile, e.target.value as UserRole)}
+                        className="text-xs border border-slate-300 rounded-lg px-2 py-1"
+                      >
+                        {Object.values(UserRole).map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-slate-600 hidden md:table-cell">
+                      {profile.lastLoginAt ? new Date(profile.lastLoginAt).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-slate-600 hidden md:table-cell">
+                      {activeDevices.length} active
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button variant="ghost" className="text-xs px-2 py-1 ml-auto" onClick={() => setExpandedId(isExpanded ? null : profile.id)}>
+                        {isExpanded ? 'Close' : 'Details'}
+                      </Button>
+                    </td>
+                  </tr>
+
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 bg-slate-50">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div>
+                            <h4 className="text-xs font-bold uppercase text-slate-500 mb-2">Enrolled Devices</h4>
+                            {userDevices.length === 0 ? (
+                              <p className="text-slate-400 text-xs">No devices enrolled.</p>
+                            ) : (
+                              <ul className="space-y-1">
+                                {userDevices.map(device => (
+                                  <li key={device.credentialId} className="flex items-center justify-between gap-2">
+                                    <span className={device.revokedAt ? 'line-through text-slate-400' : 'text-slate-700'}>
+                                      {device.deviceName}
+                                      <span className="text-xs text-slate-400"> &middot; last used {device.lastUsedAt ? new Date(device.lastUsedAt).toLocaleDateString() : 'never'}</span>
+                                    </span>
+                                    {!device.revokedAt && (
+                                      <button onClick={() => handleRevokeDevice(device)} className="text-xs text-red-600 hover:underline">Revoke</button>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            <div className="flex gap-2 mt-4">
+                              <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleResetEnrollment(profile)} disabled={activeDevices.length === 0}>
+                                Reset Enrollment
+                              </Button>
+                              {!isSelf && profile.status !== AccountStatus.PENDING && (
+                                <Button variant={profile.status === AccountStatus.ACTIVE ? 'danger' : 'secondary'} className="text-xs px-2 py-1" onClick={() => handleToggleActive(profile)}>
+                                  {profile.status === AccountStatus.ACTIVE ? 'Deactivate' : 'Reactivate'}
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+
+                          <div>
+                            <h4 className="text-xs font-bold uppercase text-slate-500 mb-2">Assigned Reservoirs</h4>
+                            {profile.role === UserRole.SUPER_ADMIN ? (
+                              <p className="text-slate-400 text-xs">Super Admins have access to every reservoir.</p>
+                            ) : (
+                              <>
+                                {userAssignments.length === 0 ? (
+                                  <p className="text-slate-400 text-xs">No assignments yet.</p>
+                                ) : (
+                                  <ul className="flex flex-wrap gap-2">
+                                    {userAssignments.map(assignment => (
+                                      <li key={assignment.id} className="bg-white border border-slate-200 rounded-full px-3 py-1 text-xs flex items-center gap-2">
+                                        {describeAssignment(assignment)}
+                                        <button onClick={() => run(() => userService.removeAssignment(assignment.id))} className="text-slate-400 hover:text-red-600">&times;</button>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                <div className="flex gap-2 mt-3">
+                                  <select
+                                    value={assignmentTarget}
+                                    onChange={(e) => setAssignmentTarget(e.target.value)}
+                                    className="flex-1 text-xs border border-slate-300 rounded-lg px-2 py-1"
+                                  >
+                                    <option value="">Add reservoir or district...</option>
+                                    <optgroup label="Districts">
+                                      {districts.map(d => <option key={d} value={`district:${d}`}>{d}</option>)}
+                                    </optgroup>
+                                    <optgroup label="Reservoirs">
+                                      {reservoirs.map(r => <option key={r.id} value={`reservoir:${r.id}`}>{r.name}</option>)}
+                                    </optgroup>
+                                  </select>
+                                  <Button variant="secondary" className="text-xs px-2 py-1" onClick={() => handleAddAssignment(profile)} disabled={!assignmentTarget}>
+                                    Assign
+                                  </Button>
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+};
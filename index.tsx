@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { pwaService } from './services/pwaService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,6 +9,8 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
+pwaService.register();
+
 root.render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,122 @@
+// Service worker for the offline app shell.
+// Built to /sw.js by the `serviceWorker` plugin in vite.config.ts, which fills in the
+// precache manifest with the emitted build files and the build id with a hash of them.
+
+const PRECACHE = 'lrw-precache-__BUILD_ID__';
+const RUNTIME = 'lrw-runtime';
+const PRECACHE_URLS = __PRECACHE_MANIFEST__;
+
+// Supabase REST reads that are served from cache when the network is unavailable.
+// They hold the signed-in user's data, so they live in their own cache, capped at
+// MAX_API_ENTRIES responses (oldest dropped first) and cleared by the page on sign-out.
+const CACHED_API_PATHS = ['/rest/v1/reservoir_entries', '/rest/v1/reservoirs'];
+const API_CACHE = 'lrw-api';
+const MAX_API_ENTRIES = 40;
+
+// Cross-origin assets the shell depends on (Tailwind CDN, fonts, import map modules)
+const CACHED_ASSET_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com', 'cdn.jsdelivr.net'];
+
+const OUTBOX_SYNC_TAG = 'lrw-outbox';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('lrw-precache-') && key !== PRECACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => removeApiResponses(RUNTIME))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks the waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+const isApiRequest = (url) => CACHED_API_PATHS.some((path) => url.pathname.startsWith(path));
+
+// Earlier versions kept API responses in the runtime cache, uncapped
+const removeApiResponses = async (cacheName) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.filter((key) => isApiRequest(new URL(key.url))).map((key) => cache.delete(key)));
+};
+
+// Cache keys come back in insertion order, and a put replaces and re-appends its key
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone()).then(() => trimCache(cache, MAX_API_ENTRIES));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // SPA navigations fall back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  if (isApiRequest(url)) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  if (CACHED_ASSET_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Background Sync: the outbox lives in the page (it needs the Supabase session),
+// so wake any open client and ask it to flush. Rejecting lets the browser retry later.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      if (clients.length === 0) throw new Error('No client available to flush the outbox');
+      clients.forEach((client) => client.postMessage({ type: 'SYNC_OUTBOX' }));
+    })
+  );
+});
@@ -0,0 +1,386 @@
+import { Alert, AlertRule, AlertState, Reservoir, ReservoirEntry, ReservoirStatus, User } from '../types';
+import { supabase } from './supabaseClient';
+import { browserNotificationChannel, notificationService } from './notificationService';
+import { reservoirService } from './reservoirService';
+import { canHandleAlerts } from './permissionService';
+
+const RULES_CACHE_KEY = 'lrw_alert_rules';
+const ALERTS_CACHE_KEY = 'lrw_alerts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Resolved alerts older than this drop out of the alert centre
+const RESOLVED_RETENTION_MS = 7 * 24 * HOUR_MS;
+
+// Used when no rules have been configured yet
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'default-status',
+    type: 'STATUS_CHANGE',
+    statuses: [ReservoirStatus.SPILLING, ReservoirStatus.CRITICAL],
+    severity: 'critical',
+    channels: ['browser'],
+    enabled: true
+  }
+];
+
+/**
+ * A rule whose condition currently holds for a reservoir.
+ */
+export interface AlertTrigger {
+  rule: AlertRule;
+  reservoirId: string;
+  entry: ReservoirEntry; // Latest reading of the reservoir
+  message: string;
+}
+
+const mapRule = (row: any): AlertRule => ({
+  id: row.id,
+  reservoirId: row.reservoir_id ?? undefined,
+  type: row.type,
+  statuses: row.statuses ?? undefined,
+  threshold: row.threshold ?? undefined,
+  severity: row.severity,
+  channels: row.channels ?? [],
+  enabled: row.enabled
+});
+
+const toRulePayload = (rule: AlertRule) => ({
+  id: rule.id,
+  reservoir_id: rule.reservoirId ?? null,
+  type: rule.type,
+  statuses: rule.statuses ?? null,
+  threshold: rule.threshold ?? null,
+  severity: rule.severity,
+  channels: rule.channels,
+  enabled: rule.enabled
+});
+
+const toDate = (value?: string | null) => (value ? new Date(value).getTime() : undefined);
+const toIso = (value?: number) => (value ? new Date(value).toISOString() : null);
+
+const mapAlert = (row: any): Alert => ({
+  id: row.id,
+  ruleId: row.rule_id,
+  reservoirId: row.reservoir_id,
+  type: row.type,
+  severity: row.severity,
+  message: row.message,
+  state: row.state,
+  entryId: row.entry_id ?? undefined,
+  openedAt: new Date(row.opened_at).getTime(),
+  acknowledgedAt: toDate(row.acknowledged_at),
+  acknowledgedBy: row.acknowledged_by ?? undefined,
+  resolvedAt: toDate(row.resolved_at)
+});
+
+const toAlertPayload = (alert: Alert) => ({
+  id: alert.id,
+  rule_id: alert.ruleId,
+  reservoir_id: alert.reservoirId,
+  type: alert.type,
+  severity: alert.severity,
+  message: alert.message,
+  state: alert.state,
+  entry_id: alert.entryId ?? null,
+  opened_at: new Date(alert.openedAt).toISOString(),
+  acknowledged_at: toIso(alert.acknowledgedAt),
+  acknowledged_by: alert.acknowledgedBy ?? null,
+  resolved_at: toIso(alert.resolvedAt)
+});
+
+const readCache = <T>(key: string): T[] => {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) : [];
+};
+
+const writeCache = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn("LocalStorage write failed", e);
+  }
+};
+
+/**
+ * Check one rule against a reservoir's readings (newest first).
+ */
+const checkRule = (rule: AlertRule, readings: ReservoirEntry[], now: number): string | null => {
+  const [latest, previous] = readings;
+  if (!latest) return null;
+
+  switch (rule.type) {
+    case 'STATUS_CHANGE':
+      return rule.statuses?.includes(latest.status)
+        ? `Status is ${latest.status}${previous && previous.status !== latest.status ? ` (was ${previous.status})` : ''}`
+        : null;
+    case 'LEVEL_ABOVE':
+      return rule.threshold !== undefined && latest.waterLevel > rule.threshold
+        ? `Level ${latest.waterLevel} m is above ${rule.threshold} m`
+        : null;
+    case 'RISE_RATE': {
+      if (rule.threshold === undefined || !previous) return null;
+      const hours = (latest.timestamp - previous.timestamp) / HOUR_MS;
+      if (hours <= 0) return null;
+      const rate = (latest.waterLevel - previous.waterLevel) / hours;
+      return rate > rule.threshold
+        ? `Rising ${rate.toFixed(3)} m/hr (limit ${rule.threshold} m/hr)`
+        : null;
+    }
+    case 'NO_READING': {
+      if (rule.threshold === undefined) return null;
+      const hours = (now - latest.timestamp) / HOUR_MS;
+      return hours > rule.threshold
+        ? `No reading for ${Math.floor(hours)} hours (limit ${rule.threshold} h)`
+        : null;
+    }
+  }
+};
+
+/**
+ * Rules engine: every (rule, reservoir) pair whose condition holds right now.
+ * Reservoirs without any reading are skipped, including for NO_READING.
+ */
+export const evaluateRules = (
+  rules: AlertRule[],
+  reservoirs: Reservoir[],
+  entries: ReservoirEntry[],
+  now: number = Date.now()
+): AlertTrigger[] => {
+  const byReservoir = new Map<string, ReservoirEntry[]>();
+  entries.forEach(entry => {
+    if (!entry.reservoirId) return;
+    if (!byReservoir.has(entry.reservoirId)) byReservoir.set(entry.reservoirId, []);
+    byReservoir.get(entry.reservoirId)!.push(entry);
+  });
+  byReservoir.forEach(readings => readings.sort((a, b) => b.timestamp - a.timestamp));
+
+  const triggers: AlertTrigger[] = [];
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const targets = rule.reservoirId ? [rule.reservoirId] : reservoirs.map(r => r.id);
+    targets.forEach(reservoirId => {
+      const readings = byReservoir.get(reservoirId) || [];
+      const message = checkRule(rule, readings, now);
+      if (message) triggers.push({ rule, reservoirId, entry: readings[0], message });
+    });
+  });
+  return triggers;
+};
+
+/**
+ * Alert lifecycle: open an alert for each new trigger, resolve open or acknowledged
+ * alerts whose condition no longer holds. Returns the changed and newly opened alerts.
+ */
+export const reconcileAlerts = (
+  existing: Alert[],
+  triggers: AlertTrigger[],
+  now: number = Date.now()
+): { opened: Alert[], resolved: Alert[] } => {
+  const active = new Map(existing.filter(a => a.state !== 'RESOLVED').map(a => [`${a.ruleId}:${a.reservoirId}`, a]));
+  const knownIds = new Set(existing.map(a => a.id));
+  const triggered = new Set<string>();
+  const opened: Alert[] = [];
+
+  triggers.forEach(({ rule, reservoirId, entry, message }) => {
+    const key = `${rule.id}:${reservoirId}`;
+    triggered.add(key);
+    const id = `${key}:${entry.id}`;
+    // An alert resolved by hand stays closed until a newer reading triggers the rule again
+    if (active.has(key) || knownIds.has(id)) return;
+    opened.push({
+      id,
+      ruleId: rule.id,
+      reservoirId,
+      type: rule.type,
+      severity: rule.severity,
+      message,
+      state: 'OPEN',
+      entryId: entry.id,
+      openedAt: now
+    });
+  });
+
+  const resolved = Array.from(active.entries())
+    .filter(([key]) => !triggered.has(key))
+    .map(([, alert]) => ({ ...alert, state: 'RESOLVED' as AlertState, resolvedAt: now }));
+
+  return { opened, resolved };
+};
+
+type Listener = (alerts: Alert[]) => void;
+const listeners = new Set<Listener>();
+
+const notify = (alerts: Alert[]) => {
+  listeners.forEach(listener => listener(alerts));
+};
+
+/**
+ * Threshold alerts: rules are stored in Supabase, evaluated on admins' clients after each
+ * data load, and alerts are shared so one officer's acknowledgement is seen by all.
+ */
+export const alertService = {
+
+  async getRules(): Promise<AlertRule[]> {
+    try {
+      const { data, error } = await supabase.from('alert_rules').select('*');
+      if (error) throw error;
+      const rules = (data || []).map(mapRule);
+      writeCache(RULES_CACHE_KEY, rules);
+      return rules.length > 0 ? rules : DEFAULT_RULES;
+    } catch (error: any) {
+      console.warn('Alert rules unavailable, using cached copy:', error.message);
+      const cached = readCache<AlertRule>(RULES_CACHE_KEY);
+      return cached.length > 0 ? cached : DEFAULT_RULES;
+    }
+  },
+
+  async saveRule(rule: AlertRule): Promise<void> {
+    const { error } = await supabase.from('alert_rules').upsert([toRulePayload(rule)]);
+    if (error) throw new Error(error.message);
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase.from('alert_rules').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  },
+
+  async getAlerts(): Promise<Alert[]> {
+    try {
+      const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .or(`state.neq.RESOLVED,resolved_at.gte.${new Date(Date.now() - RESOLVED_RETENTION_MS).toISOString()}`)
+        .order('opened_at', { ascending: false });
+      if (error) throw error;
+      const alerts = (data || []).map(mapAlert);
+      writeCache(ALERTS_CACHE_KEY, alerts);
+      return alerts;
+    } catch (error: any) {
+      console.warn('Alerts unavailable, using cached copy:', error.message);
+      return readCache<Alert>(ALERTS_CACHE_KEY);
+    }
+  },
+
+  /**
+   * Run the rules against the latest data, persist lifecycle changes and deliver new alerts.
+   * Only admin sessions evaluate, since only they may resolve alerts (022); other users just
+   * load the shared alerts. Alert ids are deterministic and never reused, so when several
+   * clients evaluate the same reading only the one whose insert lands sends it to the shared
+   * channels (email, SMS), and an alert resolved by hand, however long ago, is not raised again.
+   * Browser notifications are raised by each admin's own client as the alert arrives (see watch).
+   */
+  async evaluate(entries: ReservoirEntry[], reservoirs: Reservoir[], user: User): Promise<Alert[]> {
+    if (!canHandleAlerts(user)) {
+      const alerts = await this.getAlerts();
+      notify(alerts);
+      return alerts;
+    }
+
+    const [rules, existing] = await Promise.all([this.getRules(), this.getAlerts()]);
+    let { opened, resolved } = reconcileAlerts(existing, evaluateRules(rules, reservoirs, entries));
+
+    let delivered: Alert[] = opened;
+    let sharedOnly = false;
+    if (opened.length > 0) {
+      const { data, error } = await supabase
+        .from('alerts')
+        .upsert(opened.map(toAlertPayload), { onConflict: 'id', ignoreDuplicates: true })
+        .select('id');
+      if (!error) {
+        // Ids already taken are alerts older than the retention window; they stay as they are
+        const inserted = new Set((data || []).map((row: any) => row.id));
+        opened = opened.filter(a => inserted.has(a.id));
+        delivered = opened;
+        sharedOnly = true;
+      } else {
+        // Nothing reaches the realtime feed, so this client is the only one that knows
+        console.warn("Alert insert failed, delivering locally:", error.message);
+      }
+    }
+    if (resolved.length > 0) {
+      const { data, error } = await supabase
+        .from('alerts')
+        .update({ state: 'RESOLVED', resolved_at: new Date().toISOString() })
+        .in('id', resolved.map(a => a.id))
+        .select('id');
+      if (error) console.warn("Alert resolve failed:", error.message);
+      // Row-level security skips rows silently; those alerts are still open
+      const updated = new Set((data || []).map((row: any) => row.id));
+      resolved = resolved.filter(a => updated.has(a.id));
+    }
+
+    await Promise.all(delivered.map(alert => {
+      const channels = rules.find(r => r.id === alert.ruleId)?.channels || [];
+      return notificationService.deliver(
+        alert,
+        reservoirs.find(r => r.id === alert.reservoirId) || null,
+        sharedOnly ? channels.filter(c => c !== browserNotificationChannel.name) : channels
+      );
+    }));
+
+    const resolvedIds = new Set(resolved.map(a => a.id));
+    const alerts = [...opened, ...existing.map(a => (resolvedIds.has(a.id) ? resolved.find(r => r.id === a.id)! : a))];
+    writeCache(ALERTS_CACHE_KEY, alerts);
+    notify(alerts);
+    return alerts;
+  },
+
+  async acknowledge(alert: Alert, user: User): Promise<void> {
+    await this.setState(alert, { state: 'ACKNOWLEDGED', acknowledgedAt: Date.now(), acknowledgedBy: user.name });
+  },
+
+  /**
+   * Close an alert by hand; a new one opens if a later reading still meets the rule.
+   */
+  async resolve(alert: Alert): Promise<void> {
+    await this.setState(alert, { state: 'RESOLVED', resolvedAt: Date.now() });
+  },
+
+  async setState(alert: Alert, changes: Partial<Alert>): Promise<void> {
+    const updated = { ...alert, ...changes };
+    const { error } = await supabase.from('alerts').update(toAlertPayload(updated)).eq('id', alert.id);
+    if (error) throw new Error(error.message);
+
+    const alerts = readCache<Alert>(ALERTS_CACHE_KEY).map(a => (a.id === alert.id ? updated : a));
+    writeCache(ALERTS_CACHE_KEY, alerts);
+    notify(alerts);
+  },
+
+  /**
+   * Follow alert changes over Realtime so acknowledgements and new alerts from other clients
+   * show up live. Admins also get a browser notification for each alert opened in their scope,
+   * whichever client opened it. Returns a cleanup function.
+   */
+  watch(user: User): () => void {
+    const handleChange = async (payload: any) => {
+      if (payload.eventType === 'DELETE') return;
+      const alert = mapAlert(payload.new);
+      const alerts = [alert, ...readCache<Alert>(ALERTS_CACHE_KEY).filter(a => a.id !== alert.id)];
+      writeCache(ALERTS_CACHE_KEY, alerts);
+      notify(alerts);
+
+      if (payload.eventType !== 'INSERT' || !canHandleAlerts(user)) return;
+      const cachedRules = readCache<AlertRule>(RULES_CACHE_KEY);
+      const rule = (cachedRules.length > 0 ? cachedRules : DEFAULT_RULES).find(r => r.id === alert.ruleId);
+      if (!rule?.channels.includes(browserNotificationChannel.name)) return;
+      const reservoir = await reservoirService.getReservoir(alert.reservoirId);
+      await notificationService.deliver(alert, reservoir, [browserNotificationChannel.name]);
+    };
+
+    const channel = supabase
+      .channel('alerts_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'alerts' }, handleChange)
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(readCache<Alert>(ALERTS_CACHE_KEY));
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
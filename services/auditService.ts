@@ -0,0 +1,159 @@
+import { AuditAction, AuditChainResult, AuditEvent, AuditFilters } from '../types';
+import { supabase } from './supabaseClient';
+import { dateBounds } from './entryFilterService';
+import { downloadBlob, formatTimestamp, toCsv, toXlsx } from './exportService';
+
+export const AUDIT_PAGE_SIZE = 50;
+const VERIFY_BATCH_SIZE = 1000;
+export const AUDIT_EXPORT_MAX_EVENTS = 20000;
+
+// prev_hash of the first event
+const GENESIS_HASH = '0'.repeat(64);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const parseDetails = (text: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+const mapRow = (row: any): AuditEvent => ({
+  seq: Number(row.seq),
+  occurredAt: new Date(row.occurred_at).getTime(),
+  actorId: row.actor_id ?? undefined,
+  actorName: row.actor_name,
+  action: row.action as AuditAction,
+  targetType: row.target_type ?? undefined,
+  targetId: row.target_id ?? undefined,
+  details: parseDetails(row.details),
+  prevHash: row.prev_hash,
+  hash: row.hash
+});
+
+/**
+ * SHA-256 over the stored fields and the previous hash, in hex.
+ * Must match public.audit_event_hash in 015_audit_log.sql.
+ */
+export const hashAuditRow = async (row: any): Promise<string> => {
+  const input = [
+    String(row.seq),
+    String(new Date(row.occurred_at).getTime()),
+    row.actor_id ?? '',
+    row.actor_name,
+    row.action,
+    row.target_type ?? '',
+    row.target_id ?? '',
+    row.details,
+    row.prev_hash
+  ].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const applyFilters = (query: any, filters: AuditFilters) => {
+  const { start, end } = dateBounds({ from: filters.from, to: filters.to });
+  if (start !== undefined) query = query.gte('occurred_at', new Date(start).toISOString());
+  if (end !== undefined) query = query.lte('occurred_at', new Date(end).toISOString());
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor) query = query.ilike('actor_name', `%${escapeLike(filters.actor)}%`);
+  if (filters.targetId) query = query.eq('target_id', filters.targetId);
+  return query;
+};
+
+const eventsToRows = (events: AuditEvent[]) => [
+  ['Seq', 'Time', 'Actor', 'Actor ID', 'Action', 'Target Type', 'Target ID', 'Details', 'Previous Hash', 'Hash'],
+  ...events.map(e => [
+    e.seq,
+    formatTimestamp(e.occurredAt),
+    e.actorName,
+    e.actorId ?? '',
+    e.action,
+    e.targetType ?? '',
+    e.targetId ?? '',
+    JSON.stringify(e.details),
+    e.prevHash,
+    e.hash
+  ])
+];
+
+/**
+ * Read access to the audit log (SUPER_ADMIN only, enforced by RLS). Events are only ever
+ * written by database triggers; nothing here can add, change or remove one.
+ */
+export const auditService = {
+
+  /**
+   * One page of events matching `filters`, newest first, with seq below `beforeSeq`.
+   */
+  async getEvents(filters: AuditFilters, beforeSeq: number | null = null, limit: number = AUDIT_PAGE_SIZE): Promise<{ events: AuditEvent[], nextBeforeSeq: number | null }> {
+    let query = applyFilters(supabase.from('audit_log').select('*'), filters);
+    if (beforeSeq !== null) query = query.lt('seq', beforeSeq);
+    const { data, error } = await query.order('seq', { ascending: false }).limit(limit + 1);
+    if (error) throw new Error(error.message);
+
+    const events = (data || []).slice(0, limit).map(mapRow);
+    return {
+      events,
+      nextBeforeSeq: (data || []).length > limit ? events[events.length - 1].seq : null
+    };
+  },
+
+  async collectEvents(filters: AuditFilters, max: number = AUDIT_EXPORT_MAX_EVENTS): Promise<{ events: AuditEvent[], truncated: boolean }> {
+    const events: AuditEvent[] = [];
+    let beforeSeq: number | null = null;
+    do {
+      const page = await this.getEvents(filters, beforeSeq, VERIFY_BATCH_SIZE);
+      events.push(...page.events);
+      beforeSeq = page.nextBeforeSeq;
+    } while (beforeSeq !== null && events.length < max);
+    return { events: events.slice(0, max), truncated: events.length > max || beforeSeq !== null };
+  },
+
+  /**
+   * Walk the whole chain oldest first: sequence numbers must be gapless, each prev_hash must
+   * equal the hash before it, and each hash must match the row's contents.
+   */
+  async verifyChain(onProgress?: (checked: number) => void): Promise<AuditChainResult> {
+    let checked = 0;
+    let expectedSeq = 1;
+    let prevHash = GENESIS_HASH;
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .gte('seq', expectedSeq)
+        .order('seq', { ascending: true })
+        .limit(VERIFY_BATCH_SIZE);
+      if (error) throw new Error(error.message);
+      if (!data || data.length === 0) break;
+
+      for (const row of data) {
+        const seq = Number(row.seq);
+        const fail = (problem: string): AuditChainResult => ({ checked, headHash: null, brokenAt: seq, problem });
+        if (seq !== expectedSeq) return fail(`Events ${expectedSeq} to ${seq - 1} are missing`);
+        if (row.prev_hash !== prevHash) return fail('Does not link to the previous event');
+        if ((await hashAuditRow(row)) !== row.hash) return fail('Contents do not match the recorded hash');
+        prevHash = row.hash;
+        expectedSeq = seq + 1;
+        checked++;
+      }
+      onProgress?.(checked);
+    }
+
+    return { checked, headHash: checked > 0 ? prevHash : null, brokenAt: null };
+  },
+
+  exportEvents(format: 'csv' | 'xlsx', events: AuditEvent[]) {
+    const filename = `audit-log-${formatTimestamp(Date.now()).slice(0, 10)}`;
+    if (format === 'csv') {
+      // BOM so Excel opens UTF-8 names correctly
+      downloadBlob(new Blob(['\ufeff', toCsv(eventsToRows(events))], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    } else {
+      downloadBlob(toXlsx(eventsToRows(events), 'Audit Log'), `${filename}.xlsx`);
+    }
+  }
+};
@@ -1,22 +1,35 @@
 import { supabase } from './supabaseClient';
-import { User, UserRole } from '../types';
+import { AccountStatus, LoginAttemptStatus, LoginTicket, Passkey, User, UserRole } from '../types';
 import { analyzeFaceForAccess } from './geminiService';
+import { passkeyService } from './passkeyService';
+import { faceMatchService } from './faceMatchService';
+import { pwaService } from './pwaService';
 
-const BIOMETRIC_VAULT_KEY = 'lrw_biometric_vault';
+// Public credential id of the passkey enrolled on this device (not a secret)
+const PASSKEY_DEVICE_KEY = 'lrw_passkey_credential';
+const LEGACY_VAULT_KEY = 'lrw_biometric_vault';
+
+// The sign-in in progress: passkey verified, face or PIN check still to pass
+let loginTicket: LoginTicket | null = null;
+
+const currentTicket = (): LoginTicket => {
+  if (!loginTicket) throw new Error("Unlock with your passkey first.");
+  return loginTicket;
+};
 
 export const authService = {
   
   /**
-   * Register a new user.
+   * Register a new user. The account starts as a pending DATA_ENTRY_WORKER;
+   * roles are granted by a SUPER_ADMIN (see userService.approveUser).
    */
-  async signUp(email: string, password: string, name: string, role: UserRole) {
+  async signUp(email: string, password: string, name: string) {
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email,
       password,
       options: {
         data: {
           name: name,
-          role: role,
           avatar_url: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random`
         }
       }
@@ -53,13 +66,14 @@ export const authService = {
     if (error) return { appUser: null, error: new Error(error.message) };
     if (!data.user) return { appUser: null, error: new Error("No user found") };
 
-    return await this.getUserProfile(data.user.id, data.user);
+    return await this.getUserProfile(data.user.id);
   },
 
   /**
-   * Sign out
+   * Sign out and forget the data the service worker cached for this user
    */
   async signOut() {
+    await pwaService.clearApiCache();
     return await supabase.auth.signOut();
   },
 
@@ -67,16 +81,20 @@ export const authService = {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session?.user) return null;
 
-    const { appUser } = await this.getUserProfile(session.user.id, session.user);
+    const { appUser } = await this.getUserProfile(session.user.id);
     return appUser;
   },
 
-  async getUserProfile(userId: string, authUserFallback?: any): Promise<{ appUser: User | null, error: any }> {
+  /**
+   * The profiles row is the only source of role and status. Auth metadata is
+   * client-writable, so it is never used as a fallback.
+   */
+  async getUserProfile(userId: string): Promise<{ appUser: User | null, error: any }> {
     let attempts = 0;
     const maxAttempts = 5;
     const delayMs = 500;
 
-    // 1. Primary Method: Fetch from 'profiles' table
+    // Retry: the profile row is created by a trigger right after sign-up
     while (attempts < maxAttempts) {
       const { data: profile, error } = await supabase
         .from('profiles')
@@ -89,6 +107,7 @@ export const authService = {
           id: profile.id,
           name: profile.name,
           role: profile.role as UserRole,
+          status: (profile.status as AccountStatus) || AccountStatus.PENDING,
           avatarUrl: profile.avatar_url
         };
         return { appUser, error: null };
@@ -100,21 +119,7 @@ export const authService = {
       }
     }
 
-    // 2. Fallback Method: Use Auth Metadata
-    if (authUserFallback && authUserFallback.user_metadata) {
-      console.warn("Profile DB fetch failed after retries. Using Auth Metadata fallback.");
-      const meta = authUserFallback.user_metadata;
-      
-      const appUser: User = {
-        id: userId,
-        name: meta.name || 'Unknown User',
-        role: (meta.role as UserRole) || UserRole.DATA_ENTRY_WORKER,
-        avatarUrl: meta.avatar_url || `https://ui-avatars.com/api/?name=User&background=random`
-      };
-      return { appUser, error: null };
-    }
-
-    console.error("Failed to fetch profile after retries and no fallback available.");
+    console.error("Failed to fetch profile after retries.");
     return { 
       appUser: null, 
       error: new Error("Profile could not be loaded. Please try logging out and logging back in.") 
@@ -127,81 +132,126 @@ export const authService = {
    * Check if this device is enrolled for Face ID
    */
   isDeviceEnrolled(): boolean {
-    return !!localStorage.getItem(BIOMETRIC_VAULT_KEY);
+    // Purge the credential vault left by earlier versions; it held a reusable password
+    localStorage.removeItem(LEGACY_VAULT_KEY);
+    return !!localStorage.getItem(PASSKEY_DEVICE_KEY);
   },
 
   /**
-   * Enroll a new user on this device.
-   * Generates credentials, registers with Supabase, and stores tokens locally.
+   * Liveness gate: exactly one live face in frame.
    */
-  async enrollDevice(name: string, role: UserRole, faceImageBase64: string): Promise<User> {
-    // 1. Verify Face Quality with Gemini
+  async checkFace(faceImageBase64: string): Promise<void> {
     const analysis = await analyzeFaceForAccess(faceImageBase64);
     if (!analysis.authorized) {
-      throw new Error(`Face Enrollment Failed: ${analysis.reason}`);
+      throw new Error(`Face Check Failed: ${analysis.reason}`);
     }
+  },
 
-    // 2. Generate High-Entropy Credentials
-    const timestamp = Date.now();
-    const randomSuffix = Math.random().toString(36).substring(7);
-    const email = `officer.${timestamp}.${randomSuffix}@lankareservoir.secure`;
-    const password = `SECURE_${timestamp}_${Math.random().toString(36).substring(2)}!@#`;
+  /**
+   * Second step of passkeyLogin: liveness plus a match against the officer enrolled on this
+   * device. Every attempt is recorded server-side; mismatches count towards the PIN fallback
+   * (see isPinFallbackRequired).
+   */
+  async verifyFace(faceImageBase64: string): Promise<User> {
+    await this.checkFace(faceImageBase64);
+    const result = await faceMatchService.match(faceImageBase64);
+    const { signedIn } = await passkeyService.recordFaceAttempt(currentTicket().ticketId, result);
+    if (!result.matched) {
+      throw new Error(`Face does not match the enrolled officer (score ${result.score.toFixed(2)})`);
+    }
+    if (!signedIn) throw new Error("Face not recognised. Enter your PIN.");
+    return this.finishLogin();
+  },
+
+  async isPinFallbackRequired(): Promise<boolean> {
+    const { pinRequired, lockedUntil } = await passkeyService.getAttemptStatus(currentTicket().ticketId);
+    return pinRequired || !!lockedUntil;
+  },
+
+  /**
+   * Second step of passkeyLogin when the face check is not enough.
+   */
+  async verifyPin(pin: string): Promise<User> {
+    const { matched } = await passkeyService.verifyPin(currentTicket().ticketId, pin);
+    if (!matched) {
+      throw new Error("Incorrect PIN");
+    }
+    return this.finishLogin();
+  },
 
-    // 3. Register User in Cloud (Supabase)
-    const { user, error } = await this.signUp(email, password, name, role);
-    if (error) throw error;
-    if (!user) throw new Error("Cloud Registration Failed");
+  /**
+   * Enroll a new officer on this device by creating a passkey, then store the
+   * face template and fallback PIN. Call after checkFace, directly from a user
+   * gesture (browsers require one for WebAuthn).
+   */
+  async enrollDevice(name: string, faceImageBase64: string, pin: string): Promise<User> {
+    if (!passkeyService.isSupported()) {
+      throw new Error("This browser does not support passkeys.");
+    }
 
-    // 4. Store Credentials in Local Vault (Simulated Secure Enclave)
-    // In a real app, this would use WebAuthn/Passkeys, but here we store obfuscated creds
-    // bound to the "Face ID" concept.
-    const vaultData = btoa(JSON.stringify({ email, password }));
-    localStorage.setItem(BIOMETRIC_VAULT_KEY, vaultData);
+    const credentialId = await passkeyService.register(name);
+    localStorage.setItem(PASSKEY_DEVICE_KEY, credentialId);
 
-    // 5. Login immediately
-    const { appUser, error: loginError } = await this.signIn(email, password);
-    if (loginError || !appUser) throw new Error("Enrollment Login Failed");
+    const appUser = await this.getCurrentUser();
+    if (!appUser) throw new Error("Enrollment Login Failed");
 
+    await passkeyService.setPin(pin);
+    await faceMatchService.enroll(appUser.id, faceImageBase64);
     return appUser;
   },
 
   /**
-   * Login using Face ID.
-   * Verifies face liveness, then unlocks local credentials to sign in.
+   * First step of signing in with the passkey enrolled on this device. Call directly from a
+   * user gesture; sign-in completes with verifyFace, or verifyPin when the status requires it.
    */
-  async faceLogin(faceImageBase64: string): Promise<User> {
-    // 1. Check if enrolled
-    const vault = localStorage.getItem(BIOMETRIC_VAULT_KEY);
-    if (!vault) {
+  async passkeyLogin(): Promise<LoginAttemptStatus> {
+    loginTicket = await passkeyService.authenticate([this.deviceCredentialId()]);
+    return { pinRequired: loginTicket.pinRequired, lockedUntil: loginTicket.lockedUntil };
+  },
+
+  async finishLogin(): Promise<User> {
+    loginTicket = null;
+    const appUser = await this.getCurrentUser();
+    if (!appUser) throw new Error("User not found.");
+    return appUser;
+  },
+
+  deviceCredentialId(): string {
+    const credentialId = localStorage.getItem(PASSKEY_DEVICE_KEY);
+    if (!credentialId) {
         throw new Error("Device not enrolled. Please perform One-Time Setup.");
     }
+    return credentialId;
+  },
 
-    // 2. Strict Biometric Check (Gemini)
-    const analysis = await analyzeFaceForAccess(faceImageBase64);
-    if (!analysis.authorized) {
-      throw new Error(`Access Denied: ${analysis.reason}`);
-    }
+  /**
+   * Register an additional device for the signed-in officer.
+   */
+  async addDevice(user: User): Promise<void> {
+    const credentialId = await passkeyService.register(user.name);
+    localStorage.setItem(PASSKEY_DEVICE_KEY, credentialId);
+  },
 
-    // 3. Unlock Vault
-    try {
-        const creds = JSON.parse(atob(vault));
-        
-        // 4. Perform Cloud Auth
-        const { appUser, error } = await this.signIn(creds.email, creds.password);
-        if (error) throw error;
-        if (!appUser) throw new Error("User not found.");
-
-        return appUser;
-    } catch (e) {
-        console.error(e);
-        throw new Error("Biometric Token Corrupted. Please Re-Enroll.");
+  async listDevices(userId?: string): Promise<Passkey[]> {
+    return passkeyService.listPasskeys(userId);
+  },
+
+  /**
+   * Revoke a device passkey server-side (own devices, or any as SUPER_ADMIN).
+   */
+  async revokeDevice(credentialId: string): Promise<void> {
+    await passkeyService.revoke(credentialId);
+    if (localStorage.getItem(PASSKEY_DEVICE_KEY) === credentialId) {
+      localStorage.removeItem(PASSKEY_DEVICE_KEY);
     }
   },
 
   /**
-   * Reset enrollment (for debugging or device transfer)
+   * Reset enrollment (for debugging or device transfer).
+   * Only forgets the passkey locally; revoke it via revokeDevice to disable it server-side.
    */
   resetEnrollment() {
-    localStorage.removeItem(BIOMETRIC_VAULT_KEY);
+    localStorage.removeItem(PASSKEY_DEVICE_KEY);
+    faceMatchService.clear();
   }
 };
\ No newline at end of file
@@ -1,132 +1,660 @@
-import { ReservoirEntry } from '../types';
+import { EntryChange, EntryCursor, EntryFilters, EntryPage, EntryRevision, OutboxRecord, RealtimeStatus, ReconciliationReport, ReservoirEntry, ReviewStatus, SyncConflict, User } from '../types';
 import { supabase } from './supabaseClient';
+import { PostgrestError } from '@supabase/supabase-js';
+import { RejectedChangeError, VersionConflictError, outboxService } from './outboxService';
+import { applyEntryChange, reconcileEntries, versionOf } from './reconciliationService';
+import { pwaService } from './pwaService';
+import { photoService } from './photoService';
+import { checkGaugeReading } from './gaugeReadingService';
+import { clearQualityFlags, openQualityFlags } from './validationService';
+import { REVIEW_STATUS_LABELS, changesReviewedValues, reviewStatusOf } from './reviewService';
+import { reservoirService } from './reservoirService';
+import { compareEntries, dateBounds, isAfterCursor, matchesFilters } from './entryFilterService';
 
 const LOCAL_STORAGE_KEY = 'reservoir_entries';
 
+// How often the background loop retries due outbox records while the app is open
+const SYNC_INTERVAL_MS = 30000;
+
+// getEntries loads this much history: enough for a 12 month trend against the year before.
+// Older readings are reached through queryEntries.
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUMMARY_LOOKBACK_MS = 2 * 366 * DAY_MS;
+
+// The lookback starts at a UTC midnight so the request URL, and with it the service
+// worker's cached response, stays the same all day
+const summaryStart = (now: number = Date.now()) => Math.floor((now - SUMMARY_LOOKBACK_MS) / DAY_MS) * DAY_MS;
+
+export const ENTRY_PAGE_SIZE = 25;
+
+// Exports gather every matching reading in pages of this size, up to the cap
+const EXPORT_PAGE_SIZE = 500;
+export const EXPORT_MAX_ENTRIES = 20000;
+
+// Rows per insert when committing a CSV import
+const IMPORT_BATCH_SIZE = 200;
+
+// Full reloads while the realtime channel is down
+const FALLBACK_POLL_MS = 30000;
+
+// Realtime reconnect backoff
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+// Map snake_case database fields back to camelCase Typescript interface
+const mapRow = (row: any): ReservoirEntry => ({
+  id: row.id,
+  reservoirId: row.reservoir_id,
+  name: row.name,
+  locationName: row.location_name,
+  coordinates: {
+    latitude: row.latitude,
+    longitude: row.longitude
+  },
+  waterLevel: row.water_level,
+  capacityPercentage: row.capacity_percentage,
+  storageVolume: row.storage_volume ?? undefined,
+  status: row.status,
+  isManualOverride: row.is_manual_override ?? false,
+  notes: row.notes,
+  timestamp: row.timestamp,
+  updatedAt: row.updated_at ?? row.timestamp,
+  submittedBy: row.submitted_by,
+  submittedById: row.submitted_by_id ?? undefined,
+  isVerified: row.is_verified,
+  geofenceDistance: row.geofence_distance ?? undefined,
+  gpsAccuracy: row.gps_accuracy ?? undefined,
+  geminiAnalysis: row.gemini_analysis,
+  groundingUrl: row.grounding_url,
+  source: row.source ?? 'FIELD',
+  importBatchId: row.import_batch_id ?? undefined,
+  deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
+  deletedBy: row.deleted_by ?? undefined,
+  revisionReason: row.revision_reason ?? undefined,
+  photos: row.photos?.length ? row.photos : undefined,
+  gaugeReading: row.gauge_reading ?? undefined,
+  qualityFlags: row.quality_flags?.length ? row.quality_flags : undefined,
+  reviewStatus: row.review_status ?? 'PENDING',
+  reviewedBy: row.reviewed_by ?? undefined,
+  reviewedById: row.reviewed_by_id ?? undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).getTime() : undefined,
+  reviewComment: row.review_comment ?? undefined,
+  rainfallMm: row.rainfall_mm ?? undefined,
+  gatesOpen: row.gates_open ?? undefined,
+  gateOpenings: row.gate_openings ?? undefined,
+  sluiceDischarge: row.sluice_discharge ?? undefined,
+  inflowEstimate: row.inflow_estimate ?? undefined
+});
+
+// Map camelCase entry to snake_case for DB
+const toDbPayload = (entry: ReservoirEntry) => ({
+  id: entry.id,
+  reservoir_id: entry.reservoirId,
+  name: entry.name,
+  location_name: entry.locationName,
+  latitude: entry.coordinates.latitude,
+  longitude: entry.coordinates.longitude,
+  water_level: entry.waterLevel,
+  capacity_percentage: entry.capacityPercentage,
+  storage_volume: entry.storageVolume,
+  status: entry.status,
+  is_manual_override: entry.isManualOverride ?? false,
+  notes: entry.notes,
+  timestamp: entry.timestamp,
+  updated_at: versionOf(entry),
+  submitted_by: entry.submittedBy,
+  submitted_by_id: entry.submittedById,
+  is_verified: entry.isVerified,
+  geofence_distance: entry.geofenceDistance,
+  gps_accuracy: entry.gpsAccuracy,
+  gemini_analysis: entry.geminiAnalysis,
+  grounding_url: entry.groundingUrl,
+  source: entry.source ?? 'FIELD',
+  import_batch_id: entry.importBatchId ?? null,
+  deleted_at: entry.deletedAt ? new Date(entry.deletedAt).toISOString() : null,
+  deleted_by: entry.deletedBy ?? null,
+  revision_reason: entry.revisionReason ?? null,
+  photos: entry.photos ?? [],
+  gauge_reading: entry.gaugeReading ?? null,
+  quality_flags: entry.qualityFlags ?? [],
+  review_status: entry.reviewStatus ?? 'PENDING',
+  reviewed_by: entry.reviewedBy ?? null,
+  reviewed_by_id: entry.reviewedById ?? null,
+  reviewed_at: entry.reviewedAt ? new Date(entry.reviewedAt).toISOString() : null,
+  review_comment: entry.reviewComment ?? null,
+  rainfall_mm: entry.rainfallMm ?? null,
+  gates_open: entry.gatesOpen ?? null,
+  gate_openings: entry.gateOpenings ?? null,
+  sluice_discharge: entry.sluiceDischarge ?? null,
+  inflow_estimate: entry.inflowEstimate ?? null
+});
+
+const mapRevision = (row: any): EntryRevision => ({
+  id: row.id,
+  entryId: row.entry_id,
+  action: row.action,
+  changedBy: row.changed_by ?? 'Unknown',
+  changedById: row.changed_by_id ?? undefined,
+  changedAt: new Date(row.changed_at).getTime(),
+  reason: row.reason ?? undefined,
+  changes: row.changes ?? {}
+});
+
+// Postgres errors that a retry cannot fix: RLS and privileges, constraint and data
+// violations, and exceptions raised by the guard triggers
+const isPermanentDbError = (code?: string) =>
+  !!code && (code === '42501' || code === 'P0001' || code.startsWith('22') || code.startsWith('23'));
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const readCache = (): ReservoirEntry[] => {
+  const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+const writeCache = (entries: ReservoirEntry[]) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn("LocalStorage write failed", e);
+  }
+};
+
 /**
  * Data Service to handle persistence via Supabase.
- * Falls back to LocalStorage if Supabase is unreachable.
+ * Writes and deletes go through the IndexedDB outbox first and are pushed to the cloud
+ * when connectivity allows; reads merge cloud, LocalStorage cache and outbox so that
+ * nothing captured offline disappears from view.
  */
 export const dataService = {
-  
-  async getEntries(): Promise<{ data: ReservoirEntry[], source: 'MYSQL' | 'LOCAL', isMissingTable?: boolean }> {
+
+  /**
+   * Readings since `since` (default: the last two years) for the summary, map, trends and alerts.
+   */
+  async getEntries(since: number = summaryStart()): Promise<{
+    data: ReservoirEntry[],
+    source: 'MYSQL' | 'LOCAL',
+    isMissingTable?: boolean,
+    report: ReconciliationReport
+  }> {
+    const outbox = await outboxService.getRecords();
+    // Older cached readings are outside the query, not missing from the server
+    const cache = readCache().filter(e => e.timestamp >= since);
+    let cloud: ReservoirEntry[] | null = null;
+    let isMissingTable = false;
+
     try {
       const { data, error } = await supabase
         .from('reservoir_entries')
         .select('*')
+        .gte('timestamp', since)
         .order('timestamp', { ascending: false });
 
       if (error) throw error;
-
-      // Map snake_case database fields back to camelCase Typescript interface
-      const mappedData: ReservoirEntry[] = (data || []).map((row: any) => ({
-        id: row.id,
-        name: row.name,
-        locationName: row.location_name,
-        coordinates: { 
-          latitude: row.latitude, 
-          longitude: row.longitude 
-        },
-        waterLevel: row.water_level,
-        capacityPercentage: row.capacity_percentage,
-        status: row.status,
-        notes: row.notes,
-        timestamp: row.timestamp,
-        submittedBy: row.submitted_by,
-        isVerified: row.is_verified,
-        geminiAnalysis: row.gemini_analysis,
-        groundingUrl: row.grounding_url
-      }));
-
-      return { data: mappedData, source: 'MYSQL', isMissingTable: false }; // Reusing 'MYSQL' label to indicate 'Cloud DB' for UI consistency
+      cloud = (data || []).map(mapRow);
     } catch (error: any) {
-      let isMissingTable = false;
       if (error.code === 'PGRST205') {
         console.error("CRITICAL: Supabase Table Missing. Please run schema.sql in Supabase SQL Editor.");
         isMissingTable = true;
       } else {
         console.warn('Supabase unavailable, falling back to LocalStorage:', error.message);
       }
-      const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-      const data = saved ? JSON.parse(saved) : [];
-      return { data, source: 'LOCAL', isMissingTable };
     }
+
+    const { entries, localOnly, conflicts, alreadySynced } = reconcileEntries(cloud, cache, outbox);
+
+    try {
+      await outboxService.acknowledge(outbox.filter(r => alreadySynced.includes(r.id)));
+      await outboxService.setState(conflicts.map(c => c.id), 'conflict');
+    } catch (e) {
+      console.warn("Outbox state update failed", e);
+    }
+    // Soft-deleted rows stay cached so they are not mistaken for cache-only readings
+    if (cloud) writeCache(entries);
+
+    // Reusing 'MYSQL' label to indicate 'Cloud DB' for UI consistency.
+    // Offline, the service worker answers from its runtime cache, which is not a live connection.
+    const source = cloud && navigator.onLine ? 'MYSQL' : 'LOCAL';
+    return { data: entries.filter(e => !e.deletedAt), source, isMissingTable, report: { localOnly, conflicts } };
   },
 
-  async addEntry(entry: ReservoirEntry): Promise<void> {
-    let success = false;
-    let errorMessage = '';
-
-    // Map camelCase entry to snake_case for DB
-    const dbPayload = {
-      id: entry.id,
-      name: entry.name,
-      location_name: entry.locationName,
-      latitude: entry.coordinates.latitude,
-      longitude: entry.coordinates.longitude,
-      water_level: entry.waterLevel,
-      capacity_percentage: entry.capacityPercentage,
-      status: entry.status,
-      notes: entry.notes,
-      timestamp: entry.timestamp,
-      submitted_by: entry.submittedBy,
-      is_verified: entry.isVerified,
-      gemini_analysis: entry.geminiAnalysis,
-      grounding_url: entry.groundingUrl
-    };
+  /**
+   * One page of readings matching `filters`, newest first, starting after `cursor`.
+   * Filtering and keyset pagination run in the database; unsynced outbox changes within
+   * the page are overlaid. Offline, the same filters are applied to the local cache.
+   */
+  async queryEntries(filters: EntryFilters, cursor: EntryCursor | null = null, limit: number = ENTRY_PAGE_SIZE): Promise<EntryPage> {
+    const outbox = await outboxService.getRecords();
+    const { data: reservoirs } = await reservoirService.getReservoirs();
+    const inPage = (entry: ReservoirEntry) => !cursor || isAfterCursor(entry, cursor);
 
-    // Try Supabase
     try {
-      const { error } = await supabase
-        .from('reservoir_entries')
-        .insert([dbPayload]);
-      
-      if (!error) {
-        success = true;
-      } else {
-        errorMessage = error.message;
-        if (error.code === 'PGRST205') {
-           errorMessage = "Table 'reservoir_entries' does not exist. Run schema.sql in Supabase.";
-        }
-        console.error("Supabase Write Error:", errorMessage);
+      const { start, end } = dateBounds(filters);
+      let query = supabase.from('reservoir_entries').select('*').is('deleted_at', null);
+      if (start !== undefined) query = query.gte('timestamp', start);
+      if (end !== undefined) query = query.lte('timestamp', end);
+      if (filters.reservoirId) query = query.eq('reservoir_id', filters.reservoirId);
+      if (filters.district) {
+        query = query.in('reservoir_id', reservoirs.filter(r => r.district === filters.district).map(r => r.id));
       }
+      if (filters.status) query = query.eq('status', filters.status);
+      if (filters.isVerified !== undefined) query = query.eq('is_verified', filters.isVerified);
+      if (filters.reporter) query = query.ilike('submitted_by', `%${escapeLike(filters.reporter)}%`);
+      if (filters.search) query = query.ilike('notes', `%${escapeLike(filters.search)}%`);
+      if (filters.flagged) query = query.eq('has_open_flags', true);
+      if (filters.reviewStatus) query = query.eq('review_status', filters.reviewStatus);
+      if (cursor) {
+        query = query.or(`timestamp.lt.${cursor.timestamp},and(timestamp.eq.${cursor.timestamp},id.lt."${cursor.id}")`);
+      }
+
+      // One extra row tells whether another page follows
+      const { data, error } = await query
+        .order('timestamp', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+      if (error) throw error;
+
+      const rows = (data || []).map(mapRow);
+      const hasMore = rows.length > limit;
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const withinPage = (entry: ReservoirEntry) =>
+        inPage(entry) && (!hasMore || !last || !isAfterCursor(entry, last));
+
+      // Pending edits that no longer match (including soft deletes) drop out here
+      const { entries } = reconcileEntries(page, [], outbox.filter(r => withinPage(r.entry)));
+      return {
+        entries: entries.filter(e => matchesFilters(e, filters, reservoirs)).sort(compareEntries),
+        nextCursor: hasMore ? { timestamp: last.timestamp, id: last.id } : null,
+        source: navigator.onLine ? 'MYSQL' : 'LOCAL'
+      };
     } catch (error: any) {
-      errorMessage = error.message || "Unknown error";
-      console.error("Supabase Write Exception:", JSON.stringify(error, null, 2));
+      console.warn('Entry query failed, filtering the local cache:', error.message);
+      const { entries } = reconcileEntries(null, readCache(), outbox);
+      const matching = entries
+        .filter(e => inPage(e) && matchesFilters(e, filters, reservoirs))
+        .sort(compareEntries);
+      const page = matching.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        entries: page,
+        nextCursor: matching.length > limit ? { timestamp: last.timestamp, id: last.id } : null,
+        source: 'LOCAL'
+      };
+    }
+  },
+
+  /**
+   * Every reading matching `filters` (up to `max`), for exports.
+   */
+  async collectEntries(filters: EntryFilters, max: number = EXPORT_MAX_ENTRIES): Promise<{ entries: ReservoirEntry[], truncated: boolean }> {
+    const entries: ReservoirEntry[] = [];
+    let cursor: EntryCursor | null = null;
+    do {
+      const page: EntryPage = await this.queryEntries(filters, cursor, Math.min(EXPORT_PAGE_SIZE, max - entries.length));
+      entries.push(...page.entries.filter(e => !entries.some(existing => existing.id === e.id)));
+      cursor = page.nextCursor;
+    } while (cursor && entries.length < max);
+    return { entries, truncated: !!cursor };
+  },
+
+  /**
+   * `reservoirId:timestamp` of the readings already stored for these reservoirs in the
+   * time range, to reject duplicates before an import.
+   */
+  async getReadingKeys(reservoirIds: string[], start: number, end: number): Promise<Set<string>> {
+    const keys = new Set<string>();
+    if (reservoirIds.length === 0) return keys;
+    const pageSize = 1000;
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('reservoir_entries')
+        .select('reservoir_id, timestamp')
+        .in('reservoir_id', reservoirIds)
+        .is('deleted_at', null)
+        .gte('timestamp', start)
+        .lte('timestamp', end)
+        .order('timestamp')
+        .range(from, from + pageSize - 1);
+      if (error) throw new Error(error.message);
+      (data || []).forEach((row: any) => keys.add(`${row.reservoir_id}:${row.timestamp}`));
+      if (!data || data.length < pageSize) return keys;
     }
+  },
+
+  /**
+   * Insert imported readings in batches. Imports need a connection and bypass the outbox;
+   * a failed batch is reported and the remaining batches still run.
+   */
+  async importEntries(
+    entries: ReservoirEntry[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ imported: number, failed: { entries: ReservoirEntry[], error: string }[] }> {
+    let imported = 0;
+    const failed: { entries: ReservoirEntry[], error: string }[] = [];
+    for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+      const batch = entries.slice(i, i + IMPORT_BATCH_SIZE);
+      const { error } = await supabase.from('reservoir_entries').insert(batch.map(toDbPayload));
+      if (error) failed.push({ entries: batch, error: error.message });
+      else imported += batch.length;
+      onProgress?.(Math.min(i + IMPORT_BATCH_SIZE, entries.length), entries.length);
+    }
+    return { imported, failed };
+  },
+
+  /**
+   * Idempotent write of a single entry. Safe to replay. A new reading (no `baseVersion`) is
+   * inserted once; an edit only applies while the server row is still at `baseVersion`,
+   * otherwise it fails with VersionConflictError rather than overwriting the newer row.
+   * An edit to a reading whose insert never reached the server is inserted.
+   * Photos upload first so a synced reading never points at a missing image.
+   */
+  async pushEntry(entry: ReservoirEntry, baseVersion?: number): Promise<void> {
+    await photoService.uploadPending(entry.photos);
+    const toPushError = (error: PostgrestError) => {
+      if (error.code === 'PGRST205') {
+        return new Error("Table 'reservoir_entries' does not exist. Run schema.sql in Supabase.");
+      }
+      return isPermanentDbError(error.code) ? new RejectedChangeError(error.message) : new Error(error.message);
+    };
+
+    const insert = async () => {
+      const { error } = await supabase
+        .from('reservoir_entries')
+        .upsert([toDbPayload(entry)], { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw toPushError(error);
+    };
+    if (baseVersion === undefined) return insert();
 
+    const { data, error } = await supabase
+      .from('reservoir_entries')
+      .update(toDbPayload(entry))
+      .eq('id', entry.id)
+      .eq('updated_at', baseVersion)
+      .select('id');
+    if (error) throw toPushError(error);
+    if (data.length > 0) return;
+
+    // Nothing matched: the row moved on, the edit is not permitted, or the reading was never uploaded
+    const { data: current, error: readError } = await supabase
+      .from('reservoir_entries')
+      .select('updated_at')
+      .eq('id', entry.id)
+      .maybeSingle();
+    if (readError) throw toPushError(readError);
+    // The push landed but its acknowledgement was lost
+    if (current?.updated_at === versionOf(entry)) return;
+    // Still at the base version, so the update policy turned the edit away
+    if (current?.updated_at === baseVersion) throw new RejectedChangeError('This account may not change the reading');
+    if (current) throw new VersionConflictError('The reading was changed on the server since this edit was made');
+    return insert();
+  },
+
+  async addEntry(entry: ReservoirEntry): Promise<void> {
     // Always update LocalStorage as backup/cache
+    writeCache([entry, ...readCache()]);
+
+    // Durable outbox first, then try to deliver right away
     try {
-      const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-      const entries = saved ? JSON.parse(saved) : [];
-      const newEntries = [entry, ...entries];
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(newEntries));
+      await outboxService.enqueue(entry);
+      await this.syncPending();
     } catch (e) {
-      console.warn("LocalStorage write failed", e);
+      console.error("Outbox write failed, attempting direct write", e);
+      try {
+        await this.pushEntry(entry);
+      } catch (pushError: any) {
+        console.error("Supabase Write Error:", pushError.message);
+      }
     }
 
-    if (success) {
-      console.log('Data saved to Supabase');
-    } else {
-      console.log('Data saved to LocalStorage (Offline/Fallback Mode). Reason:', errorMessage);
+    if ((await outboxService.getRecords()).some(r => r.id === entry.id)) {
+      pwaService.requestOutboxSync();
     }
   },
 
-  async deleteEntry(id: string): Promise<void> {
-    // Try Supabase
-    try {
-      const { error } = await supabase.from('reservoir_entries').delete().eq('id', id);
-      if (error) console.error("Supabase Delete Error:", JSON.stringify(error, null, 2));
-    } catch (error) {
-       console.warn('Supabase delete exception:', error);
+  /**
+   * Push due outbox records. `force` skips the retry backoff (manual "Sync now").
+   */
+  async syncPending(force = false): Promise<void> {
+    await outboxService.flush(
+      (record: OutboxRecord) => this.pushEntry(record.entry, record.baseVersion),
+      force
+    );
+  },
+
+  /**
+   * Retry the outbox whenever connectivity returns, when the service worker relays a
+   * Background Sync event, and periodically while open. Returns a cleanup function.
+   */
+  startBackgroundSync(): () => void {
+    const handleOnline = () => {
+      this.syncPending(true).catch(e => console.warn("Background sync failed", e));
+    };
+    window.addEventListener('online', handleOnline);
+    const stopSyncRequests = pwaService.onSyncRequested(handleOnline);
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        this.syncPending().catch(e => console.warn("Background sync failed", e));
+      }
+    }, SYNC_INTERVAL_MS);
+    handleOnline();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      stopSyncRequests();
+      clearInterval(interval);
+    };
+  },
+
+  /**
+   * Correct a reading. The change goes through the outbox against the version it was made
+   * from and is only applied while the server row is still at that version, so a concurrent
+   * edit on the server surfaces as a conflict instead of being lost.
+   * The database records a revision with `reason` for every change. A corrected value
+   * sends a reviewed reading back to the review queue. Throws if the server refuses the change.
+   */
+  async updateEntry(entry: ReservoirEntry, changes: Partial<ReservoirEntry>, reason: string): Promise<ReservoirEntry> {
+    const updated: ReservoirEntry = { ...entry, ...changes, updatedAt: Math.max(Date.now(), versionOf(entry) + 1), revisionReason: reason };
+    if (!('reviewStatus' in changes) && reviewStatusOf(entry) !== 'PENDING' && changesReviewedValues(entry, changes)) {
+      updated.reviewStatus = 'PENDING';
+    }
+    // A corrected level is checked again against what the photo showed
+    if (updated.gaugeReading && updated.waterLevel !== entry.waterLevel) {
+      const { verdict, difference, ...recognized } = updated.gaugeReading;
+      updated.gaugeReading = checkGaugeReading(updated.waterLevel, recognized);
+    }
+    writeCache(readCache().map(e => (e.id === entry.id ? updated : e)));
+    await outboxService.enqueue(updated, versionOf(entry));
+    await this.syncPending();
+
+    const record = (await outboxService.getRecords()).find(r => r.id === entry.id);
+    // Refused for good: drop the change so the reading shows what the server holds
+    if (record?.rejected) {
+      await outboxService.remove(entry.id);
+      writeCache(readCache().map(e => (e.id === entry.id ? entry : e)));
+      throw new Error(`The change was not saved: ${record.lastError}`);
     }
+    if (record && record.state !== 'synced') {
+      console.warn("Change queued until the server is reachable. Reason:", record.lastError);
+      pwaService.requestOutboxSync();
+    }
+    return updated;
+  },
+
+  /**
+   * Soft delete: the reading is hidden everywhere but kept, with its history, for restore.
+   */
+  async deleteEntry(entry: ReservoirEntry, deletedBy: string, reason: string): Promise<void> {
+    await this.updateEntry(entry, { deletedAt: Date.now(), deletedBy }, reason);
+  },
+
+  async restoreEntry(entry: ReservoirEntry, reason: string): Promise<void> {
+    await this.updateEntry(entry, { deletedAt: undefined, deletedBy: undefined }, reason);
+  },
+
+  /**
+   * Mark a reading's open quality flags as reviewed. The flags are kept, with the reviewer and note.
+   */
+  async clearQualityFlags(entry: ReservoirEntry, reviewer: User, note: string): Promise<ReservoirEntry> {
+    const qualityFlags = clearQualityFlags(entry.qualityFlags || [], reviewer, note);
+    return this.updateEntry(entry, { qualityFlags }, `Quality review: ${note}`);
+  },
+
+  /**
+   * Record an admin's QA decision. Approving also clears the reading's open quality flags.
+   */
+  async reviewEntry(entry: ReservoirEntry, reviewer: User, status: ReviewStatus, comment: string): Promise<ReservoirEntry> {
+    const changes: Partial<ReservoirEntry> = {
+      reviewStatus: status,
+      reviewedBy: reviewer.name,
+      reviewedById: reviewer.id,
+      reviewedAt: Date.now(),
+      reviewComment: comment || undefined
+    };
+    if (status === 'APPROVED' && openQualityFlags(entry).length > 0) {
+      changes.qualityFlags = clearQualityFlags(entry.qualityFlags || [], reviewer, comment || 'Approved');
+    }
+    return this.updateEntry(entry, changes, `${REVIEW_STATUS_LABELS[status]}${comment ? `: ${comment}` : ''}`);
+  },
+
+  /**
+   * Most recently deleted readings in the user's scope, for restoring.
+   */
+  async getDeletedEntries(limit = 50): Promise<ReservoirEntry[]> {
+    const { data, error } = await supabase
+      .from('reservoir_entries')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapRow);
+  },
+
+  async getRevisions(entryId: string): Promise<EntryRevision[]> {
+    const { data, error } = await supabase
+      .from('entry_revisions')
+      .select('*')
+      .eq('entry_id', entryId)
+      .order('changed_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapRevision);
+  },
+
+  /**
+   * Live inserts/updates/deletes on reservoir_entries (row-level security applies, so only
+   * rows in the user's scope arrive). While the channel is down the caller is asked to poll
+   * every FALLBACK_POLL_MS, and once more on reconnect to cover changes missed in between.
+   * Changes to entries with unsynced local edits are skipped; the next full load reconciles them.
+   * Returns a cleanup function.
+   */
+  subscribeToChanges(
+    onChange: (change: EntryChange) => void,
+    onStatus: (status: RealtimeStatus) => void,
+    onPoll: () => void
+  ): () => void {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let wasDown = false;
+    let stopped = false;
+
+    const startPolling = () => {
+      onStatus('polling');
+      wasDown = true;
+      if (!pollTimer) pollTimer = setInterval(onPoll, FALLBACK_POLL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const handleChange = async (payload: any) => {
+      const change: EntryChange = payload.eventType === 'DELETE'
+        ? { type: 'delete', id: payload.old.id }
+        : { type: 'upsert', entry: mapRow(payload.new) };
+      const id = change.type === 'delete' ? change.id : change.entry.id;
+
+      const pending = (await outboxService.getRecords()).some(r => r.id === id && r.state !== 'synced');
+      if (pending) return;
+
+      writeCache(applyEntryChange(readCache(), change));
+      // Consumers never see soft-deleted readings
+      onChange(change.type === 'upsert' && change.entry.deletedAt ? { type: 'delete', id } : change);
+    };
+
+    const connect = () => {
+      if (stopped) return;
+      onStatus(wasDown ? 'polling' : 'connecting');
+      const current = supabase
+        .channel('reservoir_entries_changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'reservoir_entries' }, handleChange);
+      channel = current;
+      current.subscribe((status) => {
+        // Ignore the CLOSED that follows removing a superseded channel
+        if (stopped || channel !== current) return;
+        if (status === 'SUBSCRIBED') {
+          attempts = 0;
+          stopPolling();
+          onStatus('live');
+          if (wasDown) onPoll();
+          wasDown = false;
+          return;
+        }
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          startPolling();
+          scheduleReconnect();
+        }
+      });
+    };
+
+    const scheduleReconnect = () => {
+      if (stopped || reconnectTimer) return;
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+      attempts++;
+      reconnectTimer = setTimeout(async () => {
+        reconnectTimer = null;
+        const previous = channel;
+        channel = null;
+        if (previous) await supabase.removeChannel(previous);
+        connect();
+      }, delay);
+    };
+
+    // The browser knows before the socket does
+    const handleOffline = () => startPolling();
+    const handleOnline = () => {
+      attempts = 0;
+      scheduleReconnect();
+    };
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+
+    connect();
+
+    return () => {
+      stopped = true;
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+      if (channel) supabase.removeChannel(channel);
+    };
+  },
 
-    // LocalStorage
-    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-    if (saved) {
-      const entries: ReservoirEntry[] = JSON.parse(saved);
-      const filtered = entries.filter(e => e.id !== id);
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(filtered));
+  /**
+   * Settle a conflict by keeping either the local change (re-pushed over the server copy)
+   * or the server copy (local change discarded).
+   */
+  async resolveConflict(conflict: SyncConflict, keep: 'local' | 'cloud'): Promise<void> {
+    if (keep === 'cloud') {
+      await outboxService.remove(conflict.id);
+      writeCache(readCache().map(e => (e.id === conflict.id ? conflict.cloud : e)));
+      return;
     }
+    await outboxService.enqueue({ ...conflict.local, updatedAt: Date.now() }, versionOf(conflict.cloud));
+    await this.syncPending(true);
   }
-};
\ No newline at end of file
+};
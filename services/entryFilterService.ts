@@ -0,0 +1,89 @@
+import { EntryCursor, EntryFilters, Reservoir, ReservoirEntry, ReservoirStatus, ReviewStatus } from '../types';
+import { openQualityFlags } from './validationService';
+import { REVIEW_STATUS_LABELS, reviewStatusOf } from './reviewService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (value: string): number | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : undefined;
+};
+
+/**
+ * Timestamp bounds of the date filters: from the start of `from` to the end of `to`.
+ */
+export const dateBounds = (filters: EntryFilters): { start?: number, end?: number } => {
+  const start = filters.from ? parseDate(filters.from) : undefined;
+  const toDay = filters.to ? parseDate(filters.to) : undefined;
+  return { start, end: toDay !== undefined ? toDay + DAY_MS - 1 : undefined };
+};
+
+export const hasFilters = (filters: EntryFilters): boolean =>
+  Object.values(filters).some(value => value !== undefined && value !== '');
+
+/**
+ * Whether `entry` comes after `cursor` in the (timestamp desc, id desc) ordering.
+ */
+export const isAfterCursor = (entry: ReservoirEntry, cursor: EntryCursor): boolean =>
+  entry.timestamp < cursor.timestamp || (entry.timestamp === cursor.timestamp && entry.id < cursor.id);
+
+export const compareEntries = (a: ReservoirEntry, b: ReservoirEntry): number =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * Client-side equivalent of the filters dataService.queryEntries sends to the server,
+ * for the offline cache and for changes pushed over realtime. Soft-deleted readings never match.
+ */
+export const matchesFilters = (entry: ReservoirEntry, filters: EntryFilters, reservoirs: Reservoir[]): boolean => {
+  if (entry.deletedAt) return false;
+  const { start, end } = dateBounds(filters);
+  if (start !== undefined && entry.timestamp < start) return false;
+  if (end !== undefined && entry.timestamp > end) return false;
+  if (filters.reservoirId && entry.reservoirId !== filters.reservoirId) return false;
+  if (filters.district && reservoirs.find(r => r.id === entry.reservoirId)?.district !== filters.district) return false;
+  if (filters.status && entry.status !== filters.status) return false;
+  if (filters.isVerified !== undefined && entry.isVerified !== filters.isVerified) return false;
+  if (filters.reporter && !(entry.submittedBy || '').toLowerCase().includes(filters.reporter.toLowerCase())) return false;
+  if (filters.search && !(entry.notes || '').toLowerCase().includes(filters.search.toLowerCase())) return false;
+  if (filters.flagged && openQualityFlags(entry).length === 0) return false;
+  if (filters.reviewStatus && reviewStatusOf(entry) !== filters.reviewStatus) return false;
+  return true;
+};
+
+const URL_KEYS: (keyof EntryFilters)[] = ['from', 'to', 'reservoirId', 'district', 'status', 'reporter', 'isVerified', 'search', 'flagged', 'reviewStatus'];
+
+/**
+ * Filter state as a query string, so filtered views can be bookmarked and shared.
+ */
+export const filtersToSearch = (filters: EntryFilters): string => {
+  const params = new URLSearchParams();
+  URL_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString();
+};
+
+export const filtersFromSearch = (search: string): EntryFilters => {
+  const params = new URLSearchParams(search);
+  const text = (key: string) => params.get(key)?.trim() || undefined;
+  const date = (key: string) => {
+    const value = text(key);
+    return value && parseDate(value) !== undefined ? value : undefined;
+  };
+  const status = params.get('status') as ReservoirStatus | null;
+  const verified = params.get('isVerified');
+  const reviewStatus = params.get('reviewStatus') as ReviewStatus | null;
+  return {
+    from: date('from'),
+    to: date('to'),
+    reservoirId: text('reservoirId'),
+    district: text('district'),
+    status: status && Object.values(ReservoirStatus).includes(status) ? status : undefined,
+    reporter: text('reporter'),
+    isVerified: verified === 'true' ? true : verified === 'false' ? false : undefined,
+    search: text('search'),
+    flagged: params.get('flagged') === 'true' ? true : undefined,
+    reviewStatus: reviewStatus && reviewStatus in REVIEW_STATUS_LABELS ? reviewStatus : undefined
+  };
+};
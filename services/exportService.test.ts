@@ -0,0 +1,142 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { Reservoir, ReservoirEntry, ReservoirStatus } from '../types';
+import { entriesToRows, toCsv, toXlsx } from './exportService';
+
+const NOW = new Date(2026, 9, 1, 6, 5).getTime();
+
+const NACHCHADUWA: Reservoir = {
+  id: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  district: 'Anuradhapura',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  fullSupplyLevel: 100,
+  deadStorageLevel: 90,
+  grossCapacity: 50
+};
+
+const reading = (id: string, changes: Partial<ReservoirEntry> = {}): ReservoirEntry => ({
+  id,
+  reservoirId: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  locationName: 'Nachchaduwa',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  waterLevel: 95,
+  capacityPercentage: 50,
+  status: ReservoirStatus.NORMAL,
+  notes: '',
+  timestamp: NOW,
+  submittedBy: 'Nimal Perera',
+  isVerified: true,
+  ...changes
+});
+
+/**
+ * The files in a stored (uncompressed) zip, read through its central directory.
+ */
+const unzip = async (blob: Blob): Promise<Map<string, string>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  expect(cursor + view.getUint32(end + 12, true)).toBe(end);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const size = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    const local = view.getUint32(cursor + 42, true);
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 26, true)).toBe(nameLength);
+    const data = bytes.subarray(local + 30 + nameLength, local + 30 + nameLength + size);
+    expect(view.getUint32(local + 14, true)).toBe(crc32(data));
+    expect(view.getUint32(cursor + 16, true)).toBe(crc32(data));
+
+    files.set(name, decoder.decode(data));
+    cursor += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('entriesToRows', () => {
+  it('writes a header and one row per reading, oldest first', () => {
+    const rows = entriesToRows([reading('later', { timestamp: NOW + 60000 }), reading('earlier')], [NACHCHADUWA]);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0][0]).toBe('Reading ID');
+    expect(rows.slice(1).map(r => r[0])).toEqual(['earlier', 'later']);
+    expect(rows[1].slice(0, 6)).toEqual(['earlier', 'nachchaduwa', 'Nachchaduwa', 'Anuradhapura', '2026-10-01 06:05', 95]);
+  });
+
+  it('lists only open quality flags', () => {
+    const flagged = reading('a', {
+      qualityFlags: [
+        { code: 'RATE_OF_CHANGE', message: 'Rise', raisedAt: NOW, clearedAt: NOW },
+        { code: 'STATISTICAL_OUTLIER', message: 'Far from median', raisedAt: NOW }
+      ]
+    });
+    const [header, row] = entriesToRows([flagged], [NACHCHADUWA]);
+    expect(row[header.indexOf('Open Quality Flags')]).toBe('STATISTICAL_OUTLIER');
+  });
+
+  it('files readings of unknown reservoirs as unregistered', () => {
+    const [header, row] = entriesToRows([reading('a', { reservoirId: 'retired' })], [NACHCHADUWA]);
+    expect(row[header.indexOf('District')]).toBe('Unregistered');
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it and leaves empty cells blank', () => {
+    expect(toCsv([['a,b', 'say "hi"', null, 1.5], ['line\nbreak', '', 0, 'plain']]))
+      .toBe('"a,b","say ""hi""",,1.5\r\n"line\nbreak",,0,plain');
+  });
+
+  it('keeps spreadsheet formulas from being evaluated', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', 'safe']])).toBe("'=SUM(A1:A2),'+1,'-1,'@cmd,safe");
+  });
+});
+
+describe('toXlsx', () => {
+  it('packages a readable workbook in a valid zip', async () => {
+    const files = await unzip(toXlsx([['Name', 'Level'], ['Nachchaduwa', 95.4]]));
+
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Readings" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes a bold header row, numbers as values and text inline', async () => {
+    const sheet = (await unzip(toXlsx([['Name', 'Level'], ['Nachchaduwa', 95.4], ['Blank', null]]))).get('xl/worksheets/sheet1.xml')!;
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>95.4</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Blank</t></is></c></row>');
+    expect(sheet).toContain('state="frozen"');
+  });
+
+  it('escapes markup and names columns past Z', async () => {
+    const wide = Array.from({ length: 28 }, (_, i) => (i === 27 ? '<Gate & "Sluice">' : i));
+    const files = await unzip(toXlsx([wide], 'Rain & Levels'));
+
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain('<c r="AB1" s="1" t="inlineStr"><is><t xml:space="preserve">&lt;Gate &amp; &quot;Sluice&quot;&gt;</t></is></c>');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Rain &amp; Levels"');
+  });
+
+  it('stores names and text as UTF-8', async () => {
+    const sheet = (await unzip(toXlsx([['නච්චදූව']]))).get('xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('නච්චදූව');
+  });
+});
@@ -0,0 +1,454 @@
+import { DistrictSummary, EntryFilters, ExportFormat, Reservoir, ReservoirEntry, ReservoirStatus } from '../types';
+import { openQualityFlags } from './validationService';
+import { REVIEW_STATUS_LABELS, reviewStatusOf } from './reviewService';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, RGB, createPdf } from './pdfService';
+
+type Cell = string | number | null;
+
+const HEADERS = [
+  'Reading ID', 'Reservoir ID', 'Reservoir', 'District', 'Time', 'Water Level (m MSL)', 'Capacity (%)',
+  'Storage (MCM)', 'Status', 'Manual Override', 'Geofence Verified', 'Geofence Distance (m)',
+  'GPS Accuracy (m)', 'Rainfall (mm)', 'Gates Open', 'Gate Openings (m)', 'Sluice Discharge (m³/s)',
+  'Inflow Estimate (m³/s)', 'Gauge Photo Reading (m)', 'Gauge Check', 'Open Quality Flags', 'Review Status', 'Reviewed By', 'Submitted By', 'Notes'
+];
+
+const STATUS_COLORS: Record<ReservoirStatus, RGB> = {
+  [ReservoirStatus.NORMAL]: [34, 197, 94],
+  [ReservoirStatus.WARNING]: [234, 179, 8],
+  [ReservoirStatus.CRITICAL]: [249, 115, 22],
+  [ReservoirStatus.SPILLING]: [220, 38, 38]
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local time, in a form spreadsheets recognise as a date
+export const formatTimestamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const districtOf = (reservoirs: Reservoir[], entry: ReservoirEntry) =>
+  reservoirs.find(r => r.id === entry.reservoirId)?.district || 'Unregistered';
+
+/**
+ * One row per reading, oldest first, with the header row.
+ */
+export const entriesToRows = (entries: ReservoirEntry[], reservoirs: Reservoir[]): Cell[][] => [
+  HEADERS,
+  ...[...entries].sort((a, b) => a.timestamp - b.timestamp).map(entry => [
+    entry.id,
+    entry.reservoirId || null,
+    entry.name,
+    districtOf(reservoirs, entry),
+    formatTimestamp(entry.timestamp),
+    entry.waterLevel,
+    entry.capacityPercentage,
+    entry.storageVolume ?? null,
+    entry.status,
+    entry.isManualOverride ? 'Yes' : 'No',
+    entry.isVerified ? 'Yes' : 'No',
+    entry.geofenceDistance ?? null,
+    entry.gpsAccuracy ?? null,
+    entry.rainfallMm ?? null,
+    entry.gatesOpen ?? null,
+    entry.gateOpenings?.join('; ') ?? '',
+    entry.sluiceDischarge ?? null,
+    entry.inflowEstimate ?? null,
+    entry.gaugeReading?.value ?? null,
+    entry.gaugeReading?.verdict ?? '',
+    openQualityFlags(entry).map(f => f.code).join(', '),
+    reviewStatusOf(entry),
+    reviewStatusOf(entry) !== 'PENDING' ? entry.reviewedBy || '' : '',
+    entry.submittedBy,
+    entry.notes || ''
+  ])
+];
+
+// Text that a spreadsheet would evaluate as a formula is prefixed with an apostrophe
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+export const toCsv = (rows: Cell[][]): string =>
+  rows.map(row => row.map(cell => {
+    if (cell === null) return '';
+    if (typeof cell === 'number') return String(cell);
+    const text = neutralizeFormula(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+const escapeXml = (value: string) => value
+  .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Uncompressed ("stored") zip archive, which is all an XLSX package needs.
+ */
+const createZip = (files: { name: string, content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+};
+
+/**
+ * Single-sheet workbook with a bold, frozen header row.
+ */
+export const toXlsx = (rows: Cell[][], sheetName = 'Readings'): Blob => {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      if (cell === null) return '';
+      if (typeof cell === 'number') return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const ns = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xml}<workbook xmlns="${ns}" xmlns:r="${relNs}"><sheets>` +
+        `<sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${relNs}/styles" Target="styles.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/styles.xml',
+      content: `${xml}<styleSheet xmlns="${ns}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xml}<worksheet xmlns="${ns}">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${sheetRows}</sheetData></worksheet>`
+    }
+  ]);
+};
+
+const latestPerReservoir = (entries: ReservoirEntry[]): ReservoirEntry[] => {
+  const latest = new Map<string, ReservoirEntry>();
+  entries.forEach(entry => {
+    const key = entry.reservoirId || `unregistered:${entry.name}`;
+    const current = latest.get(key);
+    if (!current || entry.timestamp > current.timestamp) latest.set(key, entry);
+  });
+  return Array.from(latest.values());
+};
+
+const emptyStatusCounts = (): Record<ReservoirStatus, number> => ({
+  [ReservoirStatus.NORMAL]: 0,
+  [ReservoirStatus.WARNING]: 0,
+  [ReservoirStatus.CRITICAL]: 0,
+  [ReservoirStatus.SPILLING]: 0
+});
+
+/**
+ * Per-district figures for the bulletin. Status counts and average capacity describe
+ * each reservoir's latest reading in the set, not every reading.
+ */
+export const summarizeByDistrict = (entries: ReservoirEntry[], reservoirs: Reservoir[]): DistrictSummary[] => {
+  const latest = latestPerReservoir(entries);
+  const districts = Array.from(new Set(entries.map(e => districtOf(reservoirs, e)))).sort();
+  return districts.map(district => {
+    const inDistrict = latest.filter(e => districtOf(reservoirs, e) === district);
+    const statusCounts = emptyStatusCounts();
+    inDistrict.forEach(e => statusCounts[e.status]++);
+    return {
+      district,
+      reservoirs: inDistrict.length,
+      readings: entries.filter(e => districtOf(reservoirs, e) === district).length,
+      averageCapacity: inDistrict.length > 0
+        ? inDistrict.reduce((sum, e) => sum + e.capacityPercentage, 0) / inDistrict.length
+        : null,
+      statusCounts
+    };
+  });
+};
+
+export const describeFilters = (filters: EntryFilters, reservoirs: Reservoir[]): string => {
+  const parts: string[] = [];
+  if (filters.from || filters.to) parts.push(`${filters.from || '...'} to ${filters.to || 'today'}`);
+  if (filters.district) parts.push(`${filters.district} District`);
+  if (filters.reservoirId) parts.push(reservoirs.find(r => r.id === filters.reservoirId)?.name || filters.reservoirId);
+  if (filters.status) parts.push(`status ${filters.status}`);
+  if (filters.isVerified !== undefined) parts.push(filters.isVerified ? 'geofence verified' : 'geofence not verified');
+  if (filters.reporter) parts.push(`reporter "${filters.reporter}"`);
+  if (filters.search) parts.push(`notes containing "${filters.search}"`);
+  if (filters.flagged) parts.push('needing quality review');
+  if (filters.reviewStatus) parts.push(REVIEW_STATUS_LABELS[filters.reviewStatus].toLowerCase());
+  return parts.length > 0 ? parts.join(', ') : 'All readings';
+};
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const SLATE: RGB = [100, 116, 139];
+
+interface TableColumn {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Tables flow onto new pages, repeating the header row.
+ */
+const drawTable = (pdf: PdfDocument, top: number, columns: TableColumn[], rows: string[][]): number => {
+  const rowHeight = 16;
+  const header = (at: number) => {
+    pdf.rect(MARGIN, at, CONTENT_WIDTH, rowHeight, [241, 245, 249]);
+    let x = MARGIN;
+    columns.forEach(col => {
+      pdf.text(col.label, col.align === 'right' ? x + col.width - 4 : x + 4, at + 4, { size: 8, bold: true, align: col.align, maxWidth: col.width - 8 });
+      x += col.width;
+    });
+    return at + rowHeight;
+  };
+
+  let y = header(top);
+  rows.forEach(row => {
+    if (y + rowHeight > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = header(MARGIN);
+    }
+    let x = MARGIN;
+    row.forEach((cell, i) => {
+      const col = columns[i];
+      pdf.text(cell, col.align === 'right' ? x + col.width - 4 : x + 4, y + 4, { size: 8, align: col.align, maxWidth: col.width - 8 });
+      x += col.width;
+    });
+    pdf.line(MARGIN, y + rowHeight, MARGIN + CONTENT_WIDTH, y + rowHeight);
+    y += rowHeight;
+  });
+  return y;
+};
+
+const drawBarChart = (pdf: PdfDocument, top: number, title: string, bars: { label: string, value: number, color: RGB }[], max: number, unit = ''): number => {
+  const barHeight = 12;
+  const labelWidth = 110;
+  const trackWidth = CONTENT_WIDTH - labelWidth - 50;
+  pdf.text(title, MARGIN, top, { size: 11, bold: true });
+  let y = top + 20;
+  bars.forEach(bar => {
+    pdf.text(bar.label, MARGIN, y + 2, { size: 8, maxWidth: labelWidth - 6 });
+    pdf.rect(MARGIN + labelWidth, y, trackWidth, barHeight, [241, 245, 249]);
+    if (max > 0 && bar.value > 0) pdf.rect(MARGIN + labelWidth, y, (trackWidth * Math.min(bar.value, max)) / max, barHeight, bar.color);
+    pdf.text(`${Math.round(bar.value)}${unit}`, MARGIN + labelWidth + trackWidth + 6, y + 2, { size: 8 });
+    y += barHeight + 6;
+  });
+  return y + 10;
+};
+
+/**
+ * Formatted bulletin: status overview, capacity by district, a district summary table and
+ * the latest reading of every reservoir.
+ */
+export const toPdfBulletin = (entries: ReservoirEntry[], reservoirs: Reservoir[], filters: EntryFilters, now: number = Date.now()): Blob => {
+  const pdf = createPdf();
+  const summaries = summarizeByDistrict(entries, reservoirs);
+  const totals = emptyStatusCounts();
+  summaries.forEach(s => (Object.keys(totals) as ReservoirStatus[]).forEach(status => { totals[status] += s.statusCounts[status]; }));
+
+  pdf.text('LankaReservoir Watch - Reservoir Bulletin', MARGIN, MARGIN, { size: 18, bold: true });
+  pdf.text(`Generated ${formatTimestamp(now)}`, MARGIN, MARGIN + 26, { size: 9, color: SLATE });
+  pdf.text(describeFilters(filters, reservoirs), MARGIN, MARGIN + 40, { size: 9, color: SLATE, maxWidth: CONTENT_WIDTH });
+  pdf.text(`${entries.length} readings from ${summaries.reduce((sum, s) => sum + s.reservoirs, 0)} reservoirs`, MARGIN, MARGIN + 54, { size: 9, color: SLATE });
+  pdf.line(MARGIN, MARGIN + 72, MARGIN + CONTENT_WIDTH, MARGIN + 72, [148, 163, 184], 1);
+
+  let y = drawBarChart(
+    pdf,
+    MARGIN + 86,
+    'Reservoirs by current status',
+    (Object.keys(totals) as ReservoirStatus[]).map(status => ({ label: status, value: totals[status], color: STATUS_COLORS[status] })),
+    Math.max(...Object.values(totals))
+  );
+
+  y = drawBarChart(
+    pdf,
+    y,
+    'Average capacity by district',
+    summaries.map(s => ({ label: s.district, value: s.averageCapacity ?? 0, color: [59, 130, 246] as RGB })),
+    100,
+    '%'
+  );
+
+  if (y > PAGE_HEIGHT - 160) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  pdf.text('District summary', MARGIN, y, { size: 11, bold: true });
+  y = drawTable(pdf, y + 18, [
+    { label: 'District', width: 115 },
+    { label: 'Reservoirs', width: 55, align: 'right' },
+    { label: 'Readings', width: 55, align: 'right' },
+    { label: 'Avg capacity', width: 70, align: 'right' },
+    { label: 'Normal', width: 55, align: 'right' },
+    { label: 'Warning', width: 55, align: 'right' },
+    { label: 'Critical', width: 55, align: 'right' },
+    { label: 'Spilling', width: 55, align: 'right' }
+  ], summaries.map(s => [
+    s.district,
+    String(s.reservoirs),
+    String(s.readings),
+    s.averageCapacity === null ? '-' : `${s.averageCapacity.toFixed(1)}%`,
+    String(s.statusCounts[ReservoirStatus.NORMAL]),
+    String(s.statusCounts[ReservoirStatus.WARNING]),
+    String(s.statusCounts[ReservoirStatus.CRITICAL]),
+    String(s.statusCounts[ReservoirStatus.SPILLING])
+  ]));
+
+  if (y > PAGE_HEIGHT - 120) {
+    pdf.addPage();
+    y = MARGIN;
+  } else {
+    y += 24;
+  }
+  pdf.text('Latest reading per reservoir', MARGIN, y, { size: 11, bold: true });
+  const latest = latestPerReservoir(entries).sort((a, b) =>
+    districtOf(reservoirs, a).localeCompare(districtOf(reservoirs, b)) || a.name.localeCompare(b.name));
+  drawTable(pdf, y + 18, [
+    { label: 'District', width: 85 },
+    { label: 'Reservoir', width: 125 },
+    { label: 'Level (m)', width: 55, align: 'right' },
+    { label: 'Capacity', width: 55, align: 'right' },
+    { label: 'Status', width: 65 },
+    { label: 'Reported', width: 130 }
+  ], latest.map(e => [
+    districtOf(reservoirs, e),
+    e.name,
+    e.waterLevel.toFixed(2),
+    `${e.capacityPercentage}%`,
+    e.status,
+    `${formatTimestamp(e.timestamp)} by ${e.submittedBy}`
+  ]));
+
+  return pdf.toBlob();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Export generated entirely in the browser; nothing is sent to a server.
+ */
+export const exportService = {
+
+  exportEntries(format: ExportFormat, entries: ReservoirEntry[], reservoirs: Reservoir[], filters: EntryFilters) {
+    const date = formatTimestamp(Date.now()).slice(0, 10);
+    const filename = `reservoir-readings-${date}`;
+    switch (format) {
+      case 'csv':
+        // BOM so Excel opens UTF-8 names correctly
+        downloadBlob(new Blob(['\ufeff', toCsv(entriesToRows(entries, reservoirs))], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+        break;
+      case 'xlsx':
+        downloadBlob(toXlsx(entriesToRows(entries, reservoirs)), `${filename}.xlsx`);
+        break;
+      case 'pdf':
+        downloadBlob(toPdfBulletin(entries, reservoirs, filters), `reservoir-bulletin-${date}.pdf`);
+        break;
+    }
+  }
+};
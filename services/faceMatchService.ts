@@ -0,0 +1,141 @@
+import { FaceMatchResult } from '../types';
+import { supabase } from './supabaseClient';
+
+const ENROLLMENT_KEY = 'lrw_face_enrollment';
+// Kept on the device by earlier versions; attempts and the PIN now live server-side
+const LEGACY_KEYS = ['lrw_face_failures', 'lrw_face_audit'];
+
+/**
+ * Turns a captured face image into a comparable template and scores two templates.
+ * Swap in a face-embedding model with setMatcher; templates from different matchers are never compared.
+ */
+export interface FaceMatcher {
+  name: string;
+  extractTemplate(imageBase64: string): Promise<number[]>;
+  similarity(a: number[], b: number[]): number; // in [0, 1]
+}
+
+interface FaceEnrollment {
+  userId: string;
+  matcher: string;
+  template: number[];
+}
+
+const TEMPLATE_SIZE = 32;
+
+// Central region of the frame; the Auth reticle keeps the face there
+const CROP_FRACTION = 0.6;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode face image"));
+    img.src = src.startsWith('data:') ? src : `data:image/jpeg;base64,${src}`;
+  });
+
+/**
+ * Offline baseline matcher: a normalised low-resolution grayscale patch of the face region,
+ * compared by correlation. Cheap and deterministic, but far weaker than a trained embedding.
+ */
+const localPatchMatcher: FaceMatcher = {
+  name: 'local-patch-v1',
+
+  async extractTemplate(imageBase64) {
+    const img = await loadImage(imageBase64);
+    const canvas = document.createElement('canvas');
+    canvas.width = TEMPLATE_SIZE;
+    canvas.height = TEMPLATE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas unavailable");
+
+    const side = Math.min(img.width, img.height) * CROP_FRACTION;
+    ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, TEMPLATE_SIZE, TEMPLATE_SIZE);
+    const { data } = ctx.getImageData(0, 0, TEMPLATE_SIZE, TEMPLATE_SIZE);
+
+    const gray: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+    // Zero mean, unit variance: removes overall brightness and contrast differences
+    const mean = gray.reduce((a, b) => a + b, 0) / gray.length;
+    const std = Math.sqrt(gray.reduce((a, b) => a + (b - mean) ** 2, 0) / gray.length) || 1;
+    return gray.map(v => (v - mean) / std);
+  },
+
+  similarity(a, b) {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return Math.max(0, Math.min(1, dot / a.length));
+  }
+};
+
+let matcher: FaceMatcher = localPatchMatcher;
+let threshold = 0.8;
+
+const readEnrollment = (): FaceEnrollment | null => {
+  const saved = localStorage.getItem(ENROLLMENT_KEY);
+  if (!saved) return null;
+  // Earlier enrollments carried a PIN hash that could be brute-forced offline
+  const { pinSalt, pinHash, ...enrollment } = JSON.parse(saved);
+  if (pinHash) {
+    localStorage.setItem(ENROLLMENT_KEY, JSON.stringify(enrollment));
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  }
+  return enrollment;
+};
+
+/**
+ * Face matching against the officer enrolled on this device.
+ * The template lives on the device so matching works before sign-in; it is also stored
+ * server-side. Attempts are recorded, and limited, by the passkey function (see passkeyService).
+ */
+export const faceMatchService = {
+
+  setMatcher(custom: FaceMatcher | null) {
+    matcher = custom ?? localPatchMatcher;
+  },
+
+  setThreshold(value: number) {
+    threshold = value;
+  },
+
+  isEnrolled(): boolean {
+    return !!readEnrollment();
+  },
+
+  /**
+   * Store the enrollment template for the signed-in officer.
+   */
+  async enroll(userId: string, faceImageBase64: string): Promise<void> {
+    const template = await matcher.extractTemplate(faceImageBase64);
+    const enrollment: FaceEnrollment = { userId, matcher: matcher.name, template };
+    localStorage.setItem(ENROLLMENT_KEY, JSON.stringify(enrollment));
+
+    const { error } = await supabase
+      .from('face_templates')
+      .upsert([{ user_id: userId, matcher: matcher.name, template, updated_at: new Date().toISOString() }]);
+    if (error) console.warn("Face template upload failed:", error.message);
+  },
+
+  /**
+   * Compare a login capture against the enrolled template.
+   */
+  async match(faceImageBase64: string): Promise<FaceMatchResult> {
+    const enrollment = readEnrollment();
+    if (!enrollment) throw new Error("No face enrolled on this device. Please Re-Enroll.");
+    if (enrollment.matcher !== matcher.name) {
+      throw new Error("Face template was created with a different matcher. Please Re-Enroll.");
+    }
+
+    const template = await matcher.extractTemplate(faceImageBase64);
+    const score = matcher.similarity(enrollment.template, template);
+    return { score, threshold, matched: score >= threshold, matcher: matcher.name };
+  },
+
+  clear() {
+    localStorage.removeItem(ENROLLMENT_KEY);
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  }
+};
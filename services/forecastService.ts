@@ -0,0 +1,129 @@
+import { ForecastEstimate, ForecastPoint, Reservoir, ReservoirEntry, ReservoirForecast } from '../types';
+import { levelAtVolume, thresholdsFor, volumeAtLevel } from './storageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only recent readings describe the current inflow/outflow regime
+export const FORECAST_WINDOW_DAYS = 14;
+const MIN_READINGS = 3;
+const MIN_SPAN_DAYS = 1;
+
+// Estimates further out than this are reported as "not expected"
+const HORIZON_DAYS = 180;
+const PROJECTION_DAYS = 30;
+
+// Two-sided ~95% band on the fitted flow rate
+export const CONFIDENCE_Z = 1.96;
+
+/**
+ * Least-squares fit of volume (MCM) against time (days). The slope is the net flow.
+ */
+const fitTrend = (points: { t: number, v: number }[]) => {
+  const n = points.length;
+  const meanT = points.reduce((a, p) => a + p.t, 0) / n;
+  const meanV = points.reduce((a, p) => a + p.v, 0) / n;
+  const sxx = points.reduce((a, p) => a + (p.t - meanT) ** 2, 0);
+  const sxy = points.reduce((a, p) => a + (p.t - meanT) * (p.v - meanV), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanV - slope * meanT;
+  const ssr = points.reduce((a, p) => a + (p.v - (intercept + slope * p.t)) ** 2, 0);
+  const stdError = n > 2 && sxx > 0 ? Math.sqrt(ssr / (n - 2) / sxx) : 0;
+  return { slope, stdError };
+};
+
+/**
+ * Days to move `remaining` MCM at the fitted rate, with the band from the rate's uncertainty.
+ * `remaining` and `rate` share a sign convention: both positive in the direction of travel.
+ */
+const estimateDays = (remaining: number, rate: number, stdError: number): ForecastEstimate | null => {
+  if (remaining <= 0) return { days: 0, earliestDays: 0, latestDays: 0 };
+  if (rate <= 0) return null;
+  const days = remaining / rate;
+  if (days > HORIZON_DAYS) return null;
+  const slowRate = rate - CONFIDENCE_Z * stdError;
+  return {
+    days,
+    earliestDays: remaining / (rate + CONFIDENCE_Z * stdError),
+    latestDays: slowRate > 0 ? remaining / slowRate : null
+  };
+};
+
+/**
+ * Water-balance forecast for one reservoir from its recent readings.
+ * Entirely local: storage comes from the stage-storage table, flows from the trend in storage.
+ * Returns null when there are too few recent readings to fit a trend.
+ */
+export const forecastReservoir = (
+  reservoir: Reservoir,
+  entries: ReservoirEntry[],
+  now: number = Date.now()
+): ReservoirForecast | null => {
+  const recent = entries
+    .filter(e => e.reservoirId === reservoir.id && e.timestamp <= now && e.timestamp >= now - FORECAST_WINDOW_DAYS * DAY_MS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (recent.length < MIN_READINGS) return null;
+
+  const latest = recent[recent.length - 1];
+  const points = recent.map(e => ({ t: (e.timestamp - latest.timestamp) / DAY_MS, v: volumeAtLevel(reservoir, e.waterLevel) }));
+  const spanDays = -points[0].t;
+  if (spanDays < MIN_SPAN_DAYS) return null;
+
+  const { slope, stdError } = fitTrend(points);
+
+  // Gross flows: rising intervals count as inflow, falling ones as outflow
+  let gained = 0;
+  let lost = 0;
+  for (let i = 1; i < points.length; i++) {
+    const delta = points[i].v - points[i - 1].v;
+    if (delta > 0) gained += delta;
+    else lost -= delta;
+  }
+
+  const thresholds = thresholdsFor(reservoir);
+  const currentVolume = points[points.length - 1].v;
+  const spillVolume = volumeAtLevel(reservoir, thresholds.spillCrestLevel);
+  const deadVolume = volumeAtLevel(reservoir, reservoir.deadStorageLevel);
+
+  // Above the crest the reservoir spills rather than rising further
+  const toLevel = (volume: number) =>
+    Math.min(thresholds.spillCrestLevel, Math.max(reservoir.deadStorageLevel, levelAtVolume(reservoir, volume)));
+
+  const projection: ForecastPoint[] = [];
+  for (let day = 0; day <= PROJECTION_DAYS; day++) {
+    const spread = CONFIDENCE_Z * stdError * day;
+    projection.push({
+      timestamp: latest.timestamp + day * DAY_MS,
+      level: toLevel(currentVolume + slope * day),
+      low: toLevel(currentVolume + slope * day - spread),
+      high: toLevel(currentVolume + slope * day + spread)
+    });
+  }
+
+  return {
+    reservoirId: reservoir.id,
+    generatedAt: now,
+    readingsUsed: recent.length,
+    inflowMcmPerDay: gained / spanDays,
+    outflowMcmPerDay: lost / spanDays,
+    netFlowMcmPerDay: slope,
+    netFlowStdError: stdError,
+    daysToSpill: estimateDays(spillVolume - currentVolume, slope, stdError),
+    daysToEmpty: estimateDays(currentVolume - deadVolume, -slope, stdError),
+    projection
+  };
+};
+
+/**
+ * Short human-readable summary, e.g. "Spill in ~12 days (9–18)".
+ */
+export const describeForecast = (forecast: ReservoirForecast | null): string => {
+  if (!forecast) return 'Not enough recent readings to forecast';
+  const describe = (label: string, estimate: ForecastEstimate) => {
+    if (estimate.days === 0) return `${label} now`;
+    const latest = estimate.latestDays === null ? '?' : Math.round(estimate.latestDays);
+    return `${label} in ~${Math.round(estimate.days)} days (${Math.round(estimate.earliestDays)}–${latest})`;
+  };
+  if (forecast.daysToSpill) return describe('Spill', forecast.daysToSpill);
+  if (forecast.daysToEmpty) return describe('Dead storage', forecast.daysToEmpty);
+  return `Stable: no spill or dead storage expected within ${HORIZON_DAYS} days`;
+};
@@ -0,0 +1,139 @@
+import { EntryPhoto, GaugeReading, Reservoir } from '../types';
+import { readStaffGauge } from './geminiService';
+import { photoService } from './photoService';
+
+const FEET_TO_METERS = 0.3048;
+
+// Both limits are mirrored by guard_entry_gauge_reading in 028, which sets the stored verdict
+
+// Typed and recognized levels further apart than this flag the reading
+export const GAUGE_TOLERANCE_M = 0.15;
+
+// Below this the recognizer's value is recorded but not used to flag the reading
+export const MIN_GAUGE_CONFIDENCE = 0.5;
+
+// A read still running after this is abandoned so it never holds back submitting
+export const GAUGE_READ_TIMEOUT_MS = 20 * 1000;
+
+// Recorded in place of a recognizer name when no read could be made
+export const GAUGE_CHECK_UNAVAILABLE = 'unavailable';
+
+/**
+ * Reads the level off a staff gauge photo. Swap in an on-device model with setRecognizer.
+ */
+export interface GaugeRecognizer {
+  name: string;
+  // Level in meters, or null when no gauge or water line is visible
+  read(image: Blob, reservoir: Reservoir, signal?: AbortSignal): Promise<{ value: number | null, confidence: number, note?: string }>;
+}
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const geminiRecognizer: GaugeRecognizer = {
+  name: 'gemini-2.5-flash',
+
+  async read(image, reservoir, signal) {
+    const result = await readStaffGauge(await toBase64(image), {
+      reservoirName: reservoir.name,
+      expectedRange: [reservoir.deadStorageLevel, reservoir.fullSupplyLevel]
+    }, signal);
+    const value = result.value === null ? null : result.unit === 'ft' ? result.value * FEET_TO_METERS : result.value;
+    return {
+      value: value === null ? null : Math.round(value * 1000) / 1000,
+      confidence: result.confidence,
+      note: result.note || undefined
+    };
+  }
+};
+
+let recognizer: GaugeRecognizer = geminiRecognizer;
+
+export type RecognizedGauge = Omit<GaugeReading, 'verdict' | 'difference'>;
+
+/**
+ * Stands in for a photo's reading when the recognizer could not be reached, so the entry
+ * records that it went in without a gauge check.
+ */
+export const unavailableGaugeReading = (photo: EntryPhoto, reason: string): RecognizedGauge => ({
+  photoId: photo.id,
+  recognizer: GAUGE_CHECK_UNAVAILABLE,
+  value: null,
+  confidence: 0,
+  note: reason
+});
+
+/**
+ * Compare a typed level with what the photo shows. A misplaced decimal point (125.5 for 12.55)
+ * is called out, since it is the most common typo.
+ */
+export const checkGaugeReading = (typedLevel: number, recognized: RecognizedGauge): GaugeReading => {
+  if (recognized.value === null || recognized.confidence < MIN_GAUGE_CONFIDENCE) {
+    return { ...recognized, verdict: 'UNREADABLE' };
+  }
+  const difference = Math.round((typedLevel - recognized.value) * 1000) / 1000;
+  if (Math.abs(difference) <= GAUGE_TOLERANCE_M) {
+    return { ...recognized, verdict: 'MATCH', difference };
+  }
+  const shifted = [10, 100, 0.1, 0.01].some(factor => Math.abs(typedLevel / factor - recognized.value!) <= GAUGE_TOLERANCE_M);
+  return {
+    ...recognized,
+    verdict: 'MISMATCH',
+    difference,
+    note: shifted ? 'The typed level looks like the gauge value with the decimal point misplaced' : recognized.note
+  };
+};
+
+/**
+ * Of several photos' readings, the one to keep: the most confident readable one.
+ */
+export const bestGaugeReading = (readings: RecognizedGauge[]): RecognizedGauge | null =>
+  readings.reduce<RecognizedGauge | null>((best, r) => {
+    if (!best) return r;
+    if ((r.value !== null) !== (best.value !== null)) return r.value !== null ? r : best;
+    return r.confidence > best.confidence ? r : best;
+  }, null);
+
+/**
+ * Cross-checks the typed water level against the staff gauge in the entry's photos.
+ */
+export const gaugeReadingService = {
+
+  setRecognizer(custom: GaugeRecognizer | null) {
+    recognizer = custom ?? geminiRecognizer;
+  },
+
+  /**
+   * Read a photo still held on the device. Throws right away when offline, and after
+   * GAUGE_READ_TIMEOUT_MS when the recognizer does not answer; the reading is then
+   * submitted without a gauge check.
+   */
+  async recognize(photo: EntryPhoto, reservoir: Reservoir): Promise<RecognizedGauge> {
+    if (!navigator.onLine) throw new Error("No connection");
+    const image = await photoService.getLocalBlob(photo);
+    if (!image) throw new Error("Photo is no longer on this device");
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Rejects on time even if a recognizer ignores the signal
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error("The gauge reader did not respond in time"));
+      }, GAUGE_READ_TIMEOUT_MS);
+    });
+    const result = await Promise.race([recognizer.read(image, reservoir, controller.signal), timeout])
+      .finally(() => clearTimeout(timer));
+    return {
+      photoId: photo.id,
+      recognizer: recognizer.name,
+      value: result.value,
+      confidence: result.confidence,
+      note: result.note
+    };
+  }
+};
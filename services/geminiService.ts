@@ -7,8 +7,9 @@ const apiKey = process.env.API_KEY || ''; // Injected by environment
 const ai = new GoogleGenAI({ apiKey });
 
 /**
- * Uses Gemini with Google Maps Grounding to identify the reservoir at the given coordinates
- * and verify if the user is near a known water body in Sri Lanka.
+ * Uses Gemini with Google Maps Grounding to describe the reservoir at the given coordinates.
+ * This is a secondary enrichment only: presence at the site is decided by the local
+ * geofence check in geofenceService, and the verdict returned here is advisory.
  */
 export const verifyLocationAndFetchDetails = async (coords: Coordinates): Promise<{
   name: string;
@@ -77,7 +78,8 @@ export const verifyLocationAndFetchDetails = async (coords: Coordinates): Promis
     const descMatch = text.match(/DESCRIPTION:\s*(.*)/i);
 
     let locationName = nameMatch ? nameMatch[1].trim() : "Unknown Location";
-    const isValidReservoir = verdictMatch ? verdictMatch[1].trim().toUpperCase().includes("VALID") : false;
+    // Match the whole token so that "INVALID" is not read as "VALID"
+    const isValidReservoir = verdictMatch ? /^\[?VALID\b/.test(verdictMatch[1].trim().toUpperCase()) : false;
     const description = descMatch ? descMatch[1].trim() : text;
 
     // Fallback name extraction if regex fails but grounding title exists
@@ -181,4 +183,51 @@ export const analyzeFaceForAccess = async (base64Image: string): Promise<{ autho
       // Return the actual error message to help debugging
       return { authorized: false, reason: `Biometric Service Error: ${e.message || "Unknown Error"}` };
   }
+};
+
+/**
+ * Uses Gemini Vision to read the water level off a staff gauge photo.
+ * The value is returned as printed, with its unit; conversion and the comparison with the
+ * typed level happen in gaugeReadingService.
+ */
+export const readStaffGauge = async (base64Image: string, context: { reservoirName: string, expectedRange: [number, number] }, signal?: AbortSignal): Promise<{
+  value: number | null;
+  unit: 'm' | 'ft';
+  confidence: number;
+  note: string;
+}> => {
+  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { inlineData: { mimeType: "image/jpeg", data: cleanBase64 } },
+        { text: `
+          This photo should show the staff gauge of ${context.reservoirName}, a reservoir in Sri Lanka.
+          Read the gauge marking at the water line. Ignore the caption box in the bottom-left corner; it is added by the app.
+          Levels at this reservoir usually lie between ${context.expectedRange[0]} and ${context.expectedRange[1]} m above mean sea level,
+          but report what the gauge shows, not what you expect.
+
+          Respond in JSON format:
+          {
+            "value": number | null, // Level at the water line as marked on the gauge; null if no gauge or the water line is not visible
+            "unit": "m" | "ft", // Unit of the gauge markings
+            "confidence": number, // 0 to 1
+            "note": string // Brief reason, e.g. "water line between 12.5 and 12.6 marks"
+          }
+        ` }
+      ]
+    },
+    config: { responseMimeType: "application/json", abortSignal: signal }
+  });
+
+  const jsonStr = (response.text || '').replace(/^```(json)?/, '').replace(/```$/, '').trim();
+  const result = JSON.parse(jsonStr || '{}');
+  return {
+    value: typeof result.value === 'number' && Number.isFinite(result.value) ? result.value : null,
+    unit: result.unit === 'ft' ? 'ft' : 'm',
+    confidence: typeof result.confidence === 'number' ? Math.max(0, Math.min(1, result.confidence)) : 0,
+    note: typeof result.note === 'string' ? result.note : ''
+  };
 };
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinates, Reservoir } from '../types';
+import { distanceInMeters, distanceToPolygonBoundary, evaluateGeofence, isPointInPolygon } from './geofenceService';
+
+// Meters per degree of latitude on the mean-radius sphere
+const DEG_M = 111195;
+
+const BUND: Coordinates = { latitude: 8.3, longitude: 80.4 };
+
+const offset = (from: Coordinates, northMeters: number, eastMeters = 0): Coordinates => ({
+  latitude: from.latitude + northMeters / DEG_M,
+  longitude: from.longitude + eastMeters / (DEG_M * Math.cos((from.latitude * Math.PI) / 180))
+});
+
+// A square roughly 1 km on a side, centred on the bund
+const SQUARE = [offset(BUND, -500, -500), offset(BUND, -500, 500), offset(BUND, 500, 500), offset(BUND, 500, -500)];
+
+const reservoir = (id: string, changes: Partial<Reservoir> = {}): Reservoir => ({
+  id,
+  name: id,
+  district: 'Anuradhapura',
+  coordinates: BUND,
+  fullSupplyLevel: 100,
+  deadStorageLevel: 90,
+  grossCapacity: 50,
+  ...changes
+});
+
+describe('distanceInMeters', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceInMeters(BUND, BUND)).toBe(0);
+    expect(distanceInMeters(BUND, offset(BUND, 1000))).toBeCloseTo(1000, 0);
+    expect(distanceInMeters(BUND, offset(BUND, 0, 1000))).toBeCloseTo(1000, 0);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  it('tells points inside the outline from points outside', () => {
+    expect(isPointInPolygon(BUND, SQUARE)).toBe(true);
+    expect(isPointInPolygon(offset(BUND, 400, -400), SQUARE)).toBe(true);
+    expect(isPointInPolygon(offset(BUND, 600), SQUARE)).toBe(false);
+    expect(isPointInPolygon(offset(BUND, 0, -600), SQUARE)).toBe(false);
+  });
+});
+
+describe('distanceToPolygonBoundary', () => {
+  it('measures to the nearest edge or corner', () => {
+    expect(distanceToPolygonBoundary(offset(BUND, 700), SQUARE)).toBeCloseTo(200, 0);
+    expect(distanceToPolygonBoundary(offset(BUND, 800, 900), SQUARE)).toBeCloseTo(500, 0);
+    expect(distanceToPolygonBoundary(offset(BUND, 400), SQUARE)).toBeCloseTo(100, 0);
+  });
+});
+
+describe('evaluateGeofence', () => {
+  const fenced = reservoir('fenced', { geofence: { polygon: SQUARE, bufferMeters: 50 } });
+
+  it('accepts a fix inside the polygon', () => {
+    const verdict = evaluateGeofence(offset(BUND, 300), 10, [fenced]);
+    expect(verdict).toMatchObject({ isInside: true, reservoir: fenced, distanceMeters: 0 });
+  });
+
+  it('accepts a fix within the buffer and refuses one beyond it', () => {
+    expect(evaluateGeofence(offset(BUND, 530), 10, [fenced]).isInside).toBe(true);
+    const outside = evaluateGeofence(offset(BUND, 600), 10, [fenced]);
+    expect(outside.isInside).toBe(false);
+    expect(outside.reason).toBe('100 m outside the fenced geofence.');
+  });
+
+  it('uses a 500 m radius around the bund when no polygon is stored', () => {
+    const plain = reservoir('plain');
+    expect(evaluateGeofence(offset(BUND, 450), 10, [plain]).isInside).toBe(true);
+    expect(evaluateGeofence(offset(BUND, 550), 10, [plain]).isInside).toBe(false);
+  });
+
+  it('refuses an imprecise fix even inside the zone', () => {
+    const verdict = evaluateGeofence(BUND, 150, [fenced]);
+    expect(verdict.isInside).toBe(false);
+    expect(verdict.reservoir).toBe(fenced);
+  });
+
+  it('matches the reservoir whose zone the fix is most clearly within', () => {
+    const far = reservoir('far', { coordinates: offset(BUND, 5000) });
+    const near = reservoir('near', { coordinates: offset(BUND, 100) });
+    expect(evaluateGeofence(BUND, 10, [far, near]).reservoir).toBe(near);
+  });
+
+  it('refuses every fix when the registry is empty', () => {
+    expect(evaluateGeofence(BUND, 10, [])).toMatchObject({ isInside: false, reservoir: null, distanceMeters: Infinity });
+  });
+});
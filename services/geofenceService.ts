@@ -0,0 +1,128 @@
+import { Coordinates, GeofenceVerdict, Reservoir } from '../types';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Reservoirs without a stored polygon accept fixes within this radius of the bund coordinates.
+const DEFAULT_RADIUS_METERS = 500;
+
+// Fixes less precise than this cannot prove presence at the bund.
+const MAX_ACCEPTABLE_ACCURACY_METERS = 100;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (Haversine).
+ */
+export const distanceInMeters = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Ray-casting point-in-polygon test. The polygon is treated as closed.
+ */
+export const isPointInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Shortest distance from a point to the polygon outline, in meters.
+ * Uses a local equirectangular projection, which is accurate at bund scale.
+ */
+export const distanceToPolygonBoundary = (point: Coordinates, polygon: Coordinates[]): number => {
+  const cosLat = Math.cos(toRad(point.latitude));
+  const project = (c: Coordinates) => ({
+    x: toRad(c.longitude - point.longitude) * cosLat * EARTH_RADIUS_METERS,
+    y: toRad(c.latitude - point.latitude) * EARTH_RADIUS_METERS
+  });
+
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project(polygon[j]);
+    const b = project(polygon[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    // Parameter of the projection of the origin (the point) onto segment a-b
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return min;
+};
+
+/**
+ * Distance from a point to a reservoir's geofence: 0 inside the polygon,
+ * otherwise the distance beyond its outline (or from the bund point when no polygon is stored).
+ */
+const distanceToGeofence = (point: Coordinates, reservoir: Reservoir): number => {
+  const polygon = reservoir.geofence?.polygon;
+  if (polygon && polygon.length >= 3) {
+    return isPointInPolygon(point, polygon) ? 0 : distanceToPolygonBoundary(point, polygon);
+  }
+  return distanceInMeters(point, reservoir.coordinates);
+};
+
+const allowanceFor = (reservoir: Reservoir): number => {
+  const polygon = reservoir.geofence?.polygon;
+  if (polygon && polygon.length >= 3) return reservoir.geofence!.bufferMeters;
+  return reservoir.geofence?.bufferMeters ?? DEFAULT_RADIUS_METERS;
+};
+
+/**
+ * Deterministic geofence check of a GPS fix against the reservoir registry.
+ * Runs entirely on the device; no network calls.
+ */
+export const evaluateGeofence = (point: Coordinates, accuracyMeters: number, reservoirs: Reservoir[]): GeofenceVerdict => {
+  let best: { reservoir: Reservoir, distance: number } | null = null;
+  for (const reservoir of reservoirs) {
+    const distance = distanceToGeofence(point, reservoir);
+    // Prefer the reservoir whose zone the fix is most clearly within
+    if (!best || distance - allowanceFor(reservoir) < best.distance - allowanceFor(best.reservoir)) {
+      best = { reservoir, distance };
+    }
+  }
+
+  if (!best) {
+    return {
+      isInside: false,
+      reservoir: null,
+      distanceMeters: Infinity,
+      accuracyMeters,
+      reason: "The reservoir registry is empty or unavailable on this device."
+    };
+  }
+
+  const { reservoir, distance } = best;
+  const withinZone = distance <= allowanceFor(reservoir);
+
+  if (accuracyMeters > MAX_ACCEPTABLE_ACCURACY_METERS) {
+    return {
+      isInside: false,
+      reservoir,
+      distanceMeters: distance,
+      accuracyMeters,
+      reason: `GPS accuracy is ±${Math.round(accuracyMeters)} m. Wait for a fix better than ±${MAX_ACCEPTABLE_ACCURACY_METERS} m.`
+    };
+  }
+
+  return {
+    isInside: withinZone,
+    reservoir,
+    distanceMeters: distance,
+    accuracyMeters,
+    reason: withinZone
+      ? (distance === 0 ? `Inside the ${reservoir.name} geofence.` : `Within ${Math.round(distance)} m of the ${reservoir.name} geofence.`)
+      : `${Math.round(distance)} m outside the ${reservoir.name} geofence.`
+  };
+};
@@ -0,0 +1,93 @@
+import { HistoryRange, RateOfChange, ReservoirEntry, TimeWindow } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Readings closer together than this are too noisy to report a daily rate from
+const MIN_RATE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export const HISTORY_RANGES: { value: HistoryRange, label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: 'season', label: 'Season' },
+  { value: 'year', label: '12 months' }
+];
+
+/**
+ * Start of the current cultivation season: Maha runs October to March, Yala April to September.
+ */
+export const seasonStart = (now: number): { start: number, name: 'Maha' | 'Yala' } => {
+  const date = new Date(now);
+  const month = date.getMonth();
+  if (month >= 3 && month <= 8) {
+    return { start: new Date(date.getFullYear(), 3, 1).getTime(), name: 'Yala' };
+  }
+  const year = month >= 9 ? date.getFullYear() : date.getFullYear() - 1;
+  return { start: new Date(year, 9, 1).getTime(), name: 'Maha' };
+};
+
+export const rangeWindow = (range: HistoryRange, now: number = Date.now()): TimeWindow => {
+  switch (range) {
+    case '7d': return { start: now - 7 * DAY_MS, end: now, label: 'Last 7 days' };
+    case '30d': return { start: now - 30 * DAY_MS, end: now, label: 'Last 30 days' };
+    case 'season': {
+      const season = seasonStart(now);
+      return { start: season.start, end: now, label: `${season.name} ${new Date(season.start).getFullYear()}` };
+    }
+    case 'year': {
+      const start = new Date(now);
+      start.setFullYear(start.getFullYear() - 1);
+      return { start: start.getTime(), end: now, label: 'Last 12 months' };
+    }
+  }
+};
+
+const shiftYears = (timestamp: number, years: number): number => {
+  const date = new Date(timestamp);
+  date.setFullYear(date.getFullYear() + years);
+  return date.getTime();
+};
+
+/**
+ * The same calendar period one year earlier.
+ */
+export const previousYearWindow = (window: TimeWindow): TimeWindow => ({
+  start: shiftYears(window.start, -1),
+  end: shiftYears(window.end, -1),
+  label: `Same period ${new Date(shiftYears(window.start, -1)).getFullYear()}`
+});
+
+/**
+ * Readings inside the window, oldest first.
+ */
+export const readingsInWindow = (entries: ReservoirEntry[], window: TimeWindow): ReservoirEntry[] =>
+  entries
+    .filter(e => e.timestamp >= window.start && e.timestamp <= window.end)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Move last year's readings onto this year's time axis so both series share a chart.
+ */
+export const alignToCurrentYear = (entries: ReservoirEntry[]): ReservoirEntry[] =>
+  entries.map(e => ({ ...e, timestamp: shiftYears(e.timestamp, 1) }));
+
+/**
+ * Rate of change in m/day between consecutive readings (oldest first).
+ * Readings taken within a few hours of the previous one are merged into the next interval.
+ */
+export const ratesOfChange = (entries: ReservoirEntry[]): RateOfChange[] => {
+  const rates: RateOfChange[] = [];
+  let from = entries[0];
+  for (let i = 1; i < entries.length; i++) {
+    const to = entries[i];
+    const elapsed = to.timestamp - from.timestamp;
+    if (elapsed < MIN_RATE_INTERVAL_MS) continue;
+    rates.push({
+      timestamp: from.timestamp + elapsed / 2,
+      metersPerDay: (to.waterLevel - from.waterLevel) / (elapsed / DAY_MS),
+      from,
+      to
+    });
+    from = to;
+  }
+  return rates;
+};
@@ -0,0 +1,279 @@
+import { ImportColumnMapping, ImportField, ImportOptions, ImportRowResult, Reservoir, ReservoirEntry, ReservoirStatus, User } from '../types';
+import { computeStorage } from './storageService';
+
+const FEET_TO_METERS = 0.3048;
+
+// Levels further than this outside the DSL-FSL band are treated as typos or wrong units
+const LEVEL_TOLERANCE_M = 3;
+
+export const IMPORT_FIELDS: { field: ImportField, label: string, required: boolean, aliases: string[] }[] = [
+  { field: 'reservoir', label: 'Reservoir (name or ID)', required: true, aliases: ['reservoir', 'tank', 'wewa', 'reservoir id', 'name'] },
+  { field: 'date', label: 'Date (or date and time)', required: true, aliases: ['date', 'datetime', 'timestamp', 'time'] },
+  { field: 'time', label: 'Time', required: false, aliases: ['time', 'hour'] },
+  { field: 'waterLevel', label: 'Water level', required: true, aliases: ['level', 'water level', 'gauge', 'reading', 'wl'] },
+  { field: 'capacityPercentage', label: 'Capacity (%)', required: false, aliases: ['capacity', 'percent', '%', 'storage %'] },
+  { field: 'status', label: 'Status', required: false, aliases: ['status'] },
+  { field: 'observer', label: 'Original observer', required: false, aliases: ['observer', 'recorded by', 'submitted by', 'reporter', 'officer'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'remarks', 'comment', 'comments'] },
+  { field: 'rainfallMm', label: 'Rainfall (mm)', required: false, aliases: ['rainfall', 'rainfall mm', 'rain'] },
+  { field: 'gatesOpen', label: 'Spill gates open', required: false, aliases: ['gates open', 'spill gates', 'gates'] },
+  { field: 'sluiceDischarge', label: 'Sluice discharge (m³/s)', required: false, aliases: ['sluice discharge', 'sluice', 'discharge'] },
+  { field: 'inflowEstimate', label: 'Inflow estimate (m³/s)', required: false, aliases: ['inflow estimate', 'inflow'] }
+];
+
+/**
+ * RFC 4180 CSV parsing: quoted fields, doubled quotes, CRLF. The delimiter (comma,
+ * semicolon or tab) is taken from whichever is most common on the header line.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\ufeff/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Best guess of which column holds each field, from the header names.
+ */
+export const guessMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<number>();
+  const names = headers.map(normalize);
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    // Aliases are in order of preference; exact header matches beat partial ones
+    const find = (matches: (name: string, alias: string) => boolean) => {
+      for (const alias of aliases) {
+        const index = names.findIndex((name, i) => !used.has(i) && matches(name, alias));
+        if (index >= 0) return index;
+      }
+      return -1;
+    };
+    const exact = find((name, alias) => name === alias);
+    const index = exact >= 0 ? exact : find((name, alias) => alias.length > 2 && name.includes(alias));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+const parseDate = (value: string, format: ImportOptions['dateFormat']): { date: Date, hasTime: boolean } | null => {
+  const trimmed = value.trim();
+  const timePart = /[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*$/.exec(trimmed);
+  const datePart = timePart ? trimmed.slice(0, timePart.index) : trimmed;
+
+  let year: number, month: number, day: number;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(datePart);
+  const slashed = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(datePart);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed && format !== 'YYYY-MM-DD') {
+    const [a, b] = [Number(slashed[1]), Number(slashed[2])];
+    [day, month] = format === 'DD/MM/YYYY' ? [a, b] : [b, a];
+    year = Number(slashed[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day, Number(timePart?.[1] ?? 0), Number(timePart?.[2] ?? 0), Number(timePart?.[3] ?? 0));
+  // Reject rollovers such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return { date, hasTime: !!timePart };
+};
+
+const parseTime = (value: string): { hours: number, minutes: number } | null => {
+  const match = /^(\d{1,2})(?::|\.)?(\d{2})?\s*(am|pm)?$/i.exec(value.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+};
+
+/**
+ * Level in meters. An explicit "m" or "ft" suffix overrides the file-wide unit.
+ */
+const parseLevel = (value: string, unit: ImportOptions['levelUnit']): number | null => {
+  const match = /^(-?\d+(?:\.\d+)?)\s*(m|meters?|metres?|ft|feet|')?$/i.exec(value.trim().replace(/,/g, ''));
+  if (!match) return null;
+  const suffix = match[2]?.toLowerCase();
+  const isFeet = suffix ? suffix === 'ft' || suffix === 'feet' || suffix === "'" : unit === 'ft';
+  const level = Number(match[1]);
+  return isFeet ? level * FEET_TO_METERS : level;
+};
+
+export const readingKey = (reservoirId: string, timestamp: number) => `${reservoirId}:${timestamp}`;
+
+/**
+ * Turn mapped CSV rows into entries, collecting errors (row skipped) and warnings.
+ * `existingKeys` holds readingKey()s already in the database; `inScope` says whether the
+ * importer may write to a reservoir. Rows whose reservoir and time repeat an earlier row
+ * or an existing reading are rejected as duplicates.
+ */
+export const validateRows = (
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  options: ImportOptions,
+  reservoirs: Reservoir[],
+  importer: User,
+  inScope: (reservoir: Reservoir) => boolean,
+  existingKeys: Set<string>,
+  batchId: string,
+  now: number = Date.now()
+): ImportRowResult[] => {
+  const seen = new Set<string>();
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const result = (entry: ReservoirEntry | null): ImportRowResult => ({ row: i + 2, entry, errors, warnings });
+
+    const reservoirValue = cell(row, 'reservoir');
+    const reservoir = reservoirs.find(r => r.id === reservoirValue)
+      || reservoirs.find(r => normalize(r.name) === normalize(reservoirValue));
+    if (!reservoirValue) errors.push('Reservoir is missing');
+    else if (!reservoir) errors.push(`Unknown reservoir "${reservoirValue}"`);
+    else if (!inScope(reservoir)) errors.push(`${reservoir.name} is outside your assignments`);
+
+    const parsedDate = parseDate(cell(row, 'date'), options.dateFormat);
+    let timestamp: number | null = null;
+    if (!cell(row, 'date')) {
+      errors.push('Date is missing');
+    } else if (!parsedDate) {
+      errors.push(`Unrecognised date "${cell(row, 'date')}" (expected ${options.dateFormat})`);
+    } else {
+      const date = parsedDate.date;
+      const timeValue = cell(row, 'time');
+      if (timeValue) {
+        const time = parseTime(timeValue);
+        if (time) date.setHours(time.hours, time.minutes, 0, 0);
+        else errors.push(`Unrecognised time "${timeValue}"`);
+      } else if (!parsedDate.hasTime) {
+        warnings.push('No time given; recorded at 00:00');
+      }
+      timestamp = date.getTime();
+      if (timestamp > now) errors.push('Date is in the future');
+    }
+
+    const levelValue = cell(row, 'waterLevel');
+    const level = levelValue ? parseLevel(levelValue, options.levelUnit) : null;
+    if (!levelValue) errors.push('Water level is missing');
+    else if (level === null) errors.push(`Water level "${levelValue}" is not a number`);
+    else if (reservoir && (level < reservoir.deadStorageLevel - LEVEL_TOLERANCE_M || level > reservoir.fullSupplyLevel + LEVEL_TOLERANCE_M)) {
+      errors.push(`Level ${level.toFixed(2)} m is outside the plausible range for ${reservoir.name} (DSL ${reservoir.deadStorageLevel} m, FSL ${reservoir.fullSupplyLevel} m); check the unit`);
+    }
+
+    const capacityValue = cell(row, 'capacityPercentage').replace(/%$/, '').trim();
+    const capacity = capacityValue ? Number(capacityValue) : null;
+    if (capacityValue && (capacity === null || !Number.isFinite(capacity) || capacity < 0 || capacity > 100)) {
+      errors.push(`Capacity "${capacityValue}" must be a percentage between 0 and 100`);
+    }
+
+    // Optional operational columns: blank, or a non-negative number
+    const quantity = (field: ImportField, label: string, integer = false): number | undefined => {
+      const value = cell(row, field);
+      if (!value) return undefined;
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+        errors.push(`${label} "${value}" must be a non-negative ${integer ? 'whole number' : 'number'}`);
+        return undefined;
+      }
+      return number;
+    };
+    const rainfallMm = quantity('rainfallMm', 'Rainfall');
+    const gatesOpen = quantity('gatesOpen', 'Gates open', true);
+    const sluiceDischarge = quantity('sluiceDischarge', 'Sluice discharge');
+    const inflowEstimate = quantity('inflowEstimate', 'Inflow estimate');
+
+    const statusValue = cell(row, 'status').toUpperCase();
+    const status = Object.values(ReservoirStatus).find(s => s === statusValue);
+    if (statusValue && !status) errors.push(`Unknown status "${cell(row, 'status')}"`);
+
+    if (reservoir && timestamp !== null) {
+      const key = readingKey(reservoir.id, timestamp);
+      if (seen.has(key)) errors.push('Duplicate of an earlier row (same reservoir and time)');
+      else if (existingKeys.has(key)) errors.push('A reading for this reservoir and time already exists');
+      seen.add(key);
+    }
+
+    if (errors.length > 0 || !reservoir || timestamp === null || level === null) return result(null);
+
+    const derived = computeStorage(reservoir, level);
+    if (status && status !== derived.status) warnings.push(`Status ${status} differs from the derived ${derived.status}`);
+    const observer = cell(row, 'observer');
+    const notes = [cell(row, 'notes'), observer && `Recorded by ${observer}`].filter(Boolean).join(' · ');
+
+    return result({
+      id: crypto.randomUUID(),
+      reservoirId: reservoir.id,
+      name: reservoir.name,
+      locationName: 'Imported record',
+      coordinates: reservoir.coordinates,
+      waterLevel: Math.round(level * 1000) / 1000,
+      capacityPercentage: capacity ?? derived.capacityPercentage,
+      storageVolume: derived.volume,
+      status: status ?? derived.status,
+      isManualOverride: capacity !== null || !!status,
+      notes,
+      rainfallMm,
+      gatesOpen,
+      sluiceDischarge,
+      inflowEstimate,
+      timestamp,
+      updatedAt: now,
+      submittedBy: importer.name,
+      submittedById: importer.id,
+      isVerified: false, // Never field-verified: no GPS fix was taken
+      source: 'IMPORT',
+      importBatchId: batchId
+    });
+  });
+};
@@ -0,0 +1,113 @@
+import { Alert, Reservoir } from '../types';
+
+/**
+ * A delivery channel for alerts. Channels are registered by name and referenced from
+ * AlertRule.channels; deliver should throw when the alert could not be handed over.
+ */
+export interface AlertChannel {
+  name: string;
+  label: string;
+  deliver(alert: Alert, reservoir: Reservoir | null): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+const describeAlert = (alert: Alert, reservoir: Reservoir | null) =>
+  `${reservoir ? reservoir.name : alert.reservoirId}: ${alert.message}`;
+
+export const browserNotificationChannel: AlertChannel = {
+  name: 'browser',
+  label: 'Browser notification',
+  async deliver(alert, reservoir) {
+    if (typeof Notification === 'undefined') throw new Error("Notifications are not supported in this browser");
+    if (Notification.permission === 'default') await Notification.requestPermission();
+    if (Notification.permission !== 'granted') throw new Error("Notification permission denied");
+    new Notification(`LankaReservoir Watch · ${alert.severity.toUpperCase()}`, {
+      body: describeAlert(alert, reservoir),
+      tag: alert.id,
+      icon: '/icon.svg'
+    });
+  }
+};
+
+/**
+ * POSTs the alert as JSON to a relay that sends email or SMS (e.g. a Supabase function or Zapier hook).
+ */
+export const createWebhookChannel = (name: string, label: string, url: string): AlertChannel => ({
+  name,
+  label,
+  async deliver(alert, reservoir) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: describeAlert(alert, reservoir), alert, reservoir })
+    });
+    if (!response.ok) throw new Error(`${label} webhook returned ${response.status}`);
+  }
+});
+
+/**
+ * Local stub that records deliveries instead of sending them, for testing rules end to end.
+ */
+export const createRecordingChannel = (name = 'stub', label = 'Local stub') => {
+  const delivered: { alert: Alert, reservoir: Reservoir | null }[] = [];
+  const channel: AlertChannel = {
+    name,
+    label,
+    async deliver(alert, reservoir) {
+      delivered.push({ alert, reservoir });
+      console.info(`[${name}] ${describeAlert(alert, reservoir)}`);
+    }
+  };
+  return { channel, delivered };
+};
+
+const channels = new Map<string, AlertChannel>();
+
+const registerDefaults = () => {
+  channels.set(browserNotificationChannel.name, browserNotificationChannel);
+  if (process.env.ALERT_EMAIL_WEBHOOK) {
+    channels.set('email', createWebhookChannel('email', 'Email', process.env.ALERT_EMAIL_WEBHOOK));
+  }
+  if (process.env.ALERT_SMS_WEBHOOK) {
+    channels.set('sms', createWebhookChannel('sms', 'SMS', process.env.ALERT_SMS_WEBHOOK));
+  }
+};
+
+registerDefaults();
+
+export const notificationService = {
+
+  registerChannel(channel: AlertChannel) {
+    channels.set(channel.name, channel);
+  },
+
+  unregisterChannel(name: string) {
+    channels.delete(name);
+  },
+
+  getChannels(): AlertChannel[] {
+    return Array.from(channels.values());
+  },
+
+  /**
+   * Deliver to each named channel; unknown channels and failures are reported, not thrown.
+   */
+  async deliver(alert: Alert, reservoir: Reservoir | null, channelNames: string[]): Promise<DeliveryResult[]> {
+    return Promise.all(channelNames.map(async (name): Promise<DeliveryResult> => {
+      const channel = channels.get(name);
+      if (!channel) return { channel: name, ok: false, error: 'Channel not configured' };
+      try {
+        await channel.deliver(alert, reservoir);
+        return { channel: name, ok: true };
+      } catch (e: any) {
+        console.warn(`Alert delivery via ${name} failed:`, e.message);
+        return { channel: name, ok: false, error: e.message };
+      }
+    }));
+  }
+};
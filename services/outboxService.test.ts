@@ -0,0 +1,185 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxRecord, ReservoirEntry, ReservoirStatus } from '../types';
+import { RejectedChangeError, VersionConflictError, outboxService } from './outboxService';
+import { reconcileEntries, versionOf } from './reconciliationService';
+
+const V0 = Date.UTC(2026, 9, 1, 6, 0);
+
+const reading = (changes: Partial<ReservoirEntry> = {}): ReservoirEntry => ({
+  id: 'entry-1',
+  reservoirId: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  locationName: 'Nachchaduwa',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  waterLevel: 95,
+  capacityPercentage: 50,
+  status: ReservoirStatus.NORMAL,
+  notes: '',
+  timestamp: V0,
+  updatedAt: V0,
+  submittedBy: 'Nimal Perera',
+  isVerified: true,
+  ...changes
+});
+
+/**
+ * The server side of dataService.pushEntry: inserts once, and applies an edit only while
+ * the row is still at the edit's baseVersion.
+ */
+const createServer = (rows: ReservoirEntry[] = []) => {
+  const table = new Map(rows.map(r => [r.id, r]));
+  return {
+    table,
+    async send(record: OutboxRecord) {
+      const current = table.get(record.id);
+      if (record.baseVersion === undefined) {
+        if (!current) table.set(record.id, record.entry);
+        return;
+      }
+      if (!current || versionOf(current) !== record.baseVersion) {
+        throw new VersionConflictError('The reading was changed on the server since this edit was made');
+      }
+      table.set(record.id, record.entry);
+    }
+  };
+};
+
+// Edits as dataService.updateEntry makes them: against the version the user is looking at
+const edit = async (entry: ReservoirEntry, changes: Partial<ReservoirEntry>, at: number) => {
+  const updated = { ...entry, ...changes, updatedAt: at };
+  await outboxService.enqueue(updated, versionOf(entry));
+  return updated;
+};
+
+const recordOf = async (id = 'entry-1') => (await outboxService.getRecords()).find(r => r.id === id);
+
+describe('outboxService', () => {
+  beforeEach(async () => {
+    for (const record of await outboxService.getRecords()) await outboxService.remove(record.id);
+  });
+
+  it('keeps the server version a second offline edit was made on top of', async () => {
+    const server = createServer([reading()]);
+    const corrected = await edit(reading(), { waterLevel: 95.4 }, V0 + 1000);
+    const deleted = await edit(corrected, { deletedAt: V0 + 2000, deletedBy: 'Admin' }, V0 + 2000);
+
+    expect(await recordOf()).toMatchObject({ baseVersion: V0, entry: deleted });
+
+    await outboxService.flush(r => server.send(r));
+    expect(await outboxService.getRecords()).toEqual([]);
+    expect(server.table.get('entry-1')).toEqual(deleted);
+  });
+
+  it('keeps a reading that never reached the server an insert when it is edited', async () => {
+    const server = createServer();
+    await outboxService.enqueue(reading());
+    await edit(reading(), { notes: 'Gauge partly submerged' }, V0 + 1000);
+
+    expect((await recordOf())?.baseVersion).toBeUndefined();
+    await outboxService.flush(r => server.send(r));
+    expect(server.table.get('entry-1')?.notes).toBe('Gauge partly submerged');
+  });
+
+  it('moves a change queued while the previous one was being delivered onto the delivered version', async () => {
+    const server = createServer([reading()]);
+    const corrected = await edit(reading(), { waterLevel: 95.4 }, V0 + 1000);
+
+    let reviewed: ReservoirEntry | null = null;
+    await outboxService.flush(async r => {
+      await server.send(r);
+      reviewed = await edit(corrected, { reviewStatus: 'APPROVED' }, V0 + 2000);
+    });
+    expect(await recordOf()).toMatchObject({ state: 'pending', baseVersion: V0 + 1000 });
+
+    await outboxService.flush(r => server.send(r));
+    expect(await outboxService.getRecords()).toEqual([]);
+    expect(server.table.get('entry-1')).toEqual(reviewed);
+  });
+
+  it('still reports a real conflict', async () => {
+    const server = createServer([reading({ waterLevel: 96, updatedAt: V0 + 500 })]);
+    await edit(reading(), { waterLevel: 95.4 }, V0 + 1000);
+
+    await outboxService.flush(r => server.send(r));
+    expect(await recordOf()).toMatchObject({ state: 'conflict', baseVersion: V0 });
+  });
+
+  it('takes the new base version when a conflict is resolved in favour of the local change', async () => {
+    const cloud = reading({ waterLevel: 96, updatedAt: V0 + 500 });
+    const server = createServer([cloud]);
+    const local = await edit(reading(), { waterLevel: 95.4 }, V0 + 1000);
+    await outboxService.flush(r => server.send(r));
+
+    await outboxService.enqueue({ ...local, updatedAt: V0 + 3000 }, versionOf(cloud));
+    expect((await recordOf())?.baseVersion).toBe(V0 + 500);
+    await outboxService.flush(r => server.send(r));
+    expect(server.table.get('entry-1')?.waterLevel).toBe(95.4);
+  });
+
+  it('parks a change the server refuses instead of retrying it', async () => {
+    await edit(reading(), { waterLevel: -1 }, V0 + 1000);
+    let sends = 0;
+    const refuse = async () => {
+      sends++;
+      throw new RejectedChangeError('new row violates check constraint "reservoir_entries_water_level_positive"');
+    };
+
+    await outboxService.flush(refuse);
+    await outboxService.flush(refuse, true);
+
+    expect(sends).toBe(1);
+    expect(await recordOf()).toMatchObject({ state: 'failed', rejected: true, nextAttemptAt: Number.POSITIVE_INFINITY });
+  });
+});
+
+describe('reconciling two offline edits of one reading', () => {
+  beforeEach(async () => {
+    for (const record of await outboxService.getRecords()) await outboxService.remove(record.id);
+  });
+
+  it('shows the latest local change, not a conflict, while the server is still at the original', async () => {
+    const corrected = await edit(reading(), { waterLevel: 95.4 }, V0 + 1000);
+    const deleted = await edit(corrected, { deletedAt: V0 + 2000 }, V0 + 2000);
+
+    const report = reconcileEntries([reading()], [deleted], await outboxService.getRecords());
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.entries).toEqual([deleted]);
+    expect(report.localOnly).toEqual([{ entry: deleted, reason: 'pending' }]);
+  });
+});
+
+describe('upgrading an outbox from before soft delete', () => {
+  // A version 1 database holding a queued hard delete and one already delivered
+  const seedVersion1 = () => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('lrw_offline', 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('outbox', { keyPath: 'id' });
+      const tombstone = { op: 'delete', attempts: 2, nextAttemptAt: V0, updatedAt: V0 + 1000 };
+      store.put({ ...tombstone, id: 'entry-1', entry: reading(), state: 'failed' });
+      store.put({ ...tombstone, id: 'entry-2', entry: reading({ id: 'entry-2' }), state: 'synced' });
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  it('turns pending hard deletes into soft deletes of the version they were made on', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+    await seedVersion1();
+    const { outboxService: upgraded } = await import('./outboxService');
+    const server = createServer([reading()]);
+
+    const records = await upgraded.getRecords();
+    expect(records).toEqual([expect.objectContaining({ id: 'entry-1', op: 'upsert', state: 'pending', baseVersion: V0 })]);
+
+    await upgraded.flush(r => server.send(r));
+    expect(server.table.get('entry-1')).toMatchObject({ waterLevel: 95, deletedAt: V0 + 1000 });
+    vi.unstubAllGlobals();
+  });
+});
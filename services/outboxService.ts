@@ -0,0 +1,233 @@
+import { OutboxRecord, ReservoirEntry, SyncState } from '../types';
+import { versionOf } from './reconciliationService';
+
+const DB_NAME = 'lrw_offline';
+const DB_VERSION = 2;
+const STORE = 'outbox';
+
+// Retry backoff: 5s, 10s, 20s ... capped at 10 minutes
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+type Listener = (records: OutboxRecord[]) => void;
+const listeners = new Set<Listener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushInFlight: Promise<void> | null = null;
+
+// Version 1 queued hard deletes as { op: 'delete' } tombstones. Readings are never removed
+// from the server any more, so pending ones become soft deletes of the version they were made on.
+const convertDeleteTombstones = (store: IDBObjectStore) => {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const record = cursor.value;
+    if (record.op === 'delete' && record.state === 'synced') {
+      cursor.delete();
+    } else if (record.op === 'delete') {
+      const entry: ReservoirEntry = record.entry;
+      cursor.update({
+        ...record,
+        op: 'upsert',
+        entry: {
+          ...entry,
+          deletedAt: record.updatedAt,
+          updatedAt: Math.max(record.updatedAt, versionOf(entry) + 1),
+          revisionReason: 'Deleted while offline'
+        },
+        baseVersion: versionOf(entry),
+        state: 'pending',
+        rejected: undefined,
+        nextAttemptAt: Date.now()
+      });
+    }
+    cursor.continue();
+  };
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion === 1) convertDeleteTombstones(request.transaction!.objectStore(STORE));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const readAll = () => withStore<OutboxRecord[]>('readonly', store => store.getAll());
+const readOne = (id: string) => withStore<OutboxRecord | undefined>('readonly', store => store.get(id));
+const write = (record: OutboxRecord) => withStore('readwrite', store => store.put(record));
+
+// Drop a delivered record unless a newer change to the same entry was queued meanwhile.
+// That newer change now applies on top of the delivered one.
+const removeDelivered = (record: OutboxRecord) => withStore('readwrite', store => {
+  const request = store.get(record.id);
+  request.onsuccess = () => {
+    const current: OutboxRecord | undefined = request.result;
+    if (current && versionOf(current.entry) === versionOf(record.entry)) {
+      store.delete(record.id);
+    } else if (current && current.baseVersion === record.baseVersion) {
+      store.put({ ...current, baseVersion: versionOf(record.entry) });
+    }
+  };
+  return request;
+});
+
+const notify = async () => {
+  const records = await readAll();
+  listeners.forEach(listener => listener(records));
+};
+
+const retryDelay = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * Thrown by a send function when the server refused the change for good (RLS, a check
+ * constraint, a trigger). The record is parked as failed and not retried on a schedule.
+ */
+export class RejectedChangeError extends Error {}
+
+/**
+ * Thrown by a send function when the server copy changed since the record's baseVersion.
+ * The record waits in the 'conflict' state for the user to choose a side.
+ */
+export class VersionConflictError extends Error {}
+
+/**
+ * Durable IndexedDB outbox for readings captured without connectivity.
+ * Each record carries its own sync state; records are retried with exponential backoff,
+ * replayed idempotently keyed by entry id, and removed once delivered. Deletions are soft and travel as upserts.
+ */
+export const outboxService = {
+
+  /**
+   * Queue the latest state of an entry. A change to an entry whose earlier change has not
+   * reached the server yet replaces it but keeps its baseVersion (none for a new reading),
+   * since the server is still at that version. A conflict is resolved with a new baseVersion.
+   */
+  async enqueue(entry: ReservoirEntry, baseVersion?: number): Promise<void> {
+    const queued = await readOne(entry.id);
+    const unsent = queued && queued.state !== 'conflict' && queued.state !== 'synced';
+    await write({
+      id: entry.id,
+      op: 'upsert',
+      entry,
+      baseVersion: unsent ? queued.baseVersion : baseVersion,
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      updatedAt: Date.now()
+    });
+    await notify();
+  },
+
+  async getRecords(): Promise<OutboxRecord[]> {
+    try {
+      return await readAll();
+    } catch (e) {
+      console.warn("IndexedDB outbox unavailable", e);
+      return [];
+    }
+  },
+
+  async remove(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    await notify();
+  },
+
+  /**
+   * Remove records whose change the server is known to hold.
+   */
+  async acknowledge(records: OutboxRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    for (const record of records) await removeDelivered(record);
+    await notify();
+  },
+
+  async setState(ids: string[], state: SyncState): Promise<void> {
+    if (ids.length === 0) return;
+    const records = await readAll();
+    for (const record of records.filter(r => ids.includes(r.id) && r.state !== state)) {
+      await write({ ...record, state, updatedAt: Date.now() });
+    }
+    await notify();
+  },
+
+  /**
+   * Push every due pending/failed record through `send`. Conflicts wait for manual resolution;
+   * rejected records wait until the entry is changed again. Concurrent calls share the same run.
+   * Pass `force` to ignore backoff (manual "Sync now").
+   */
+  flush(send: (record: OutboxRecord) => Promise<void>, force = false): Promise<void> {
+    if (flushInFlight) return flushInFlight;
+
+    flushInFlight = (async () => {
+      const now = Date.now();
+      const records = await this.getRecords();
+      const due = records.filter(r =>
+        (r.state === 'pending' || r.state === 'failed') && !r.rejected && (force || r.nextAttemptAt <= now)
+      );
+      // Earlier versions kept delivered records as 'synced'
+      const delivered = records.filter(r => r.state === 'synced');
+
+      for (const record of due) {
+        try {
+          await send(record);
+          delivered.push(record);
+        } catch (error: any) {
+          if (error instanceof VersionConflictError) {
+            await write({ ...record, state: 'conflict', lastError: error.message, updatedAt: Date.now() });
+            continue;
+          }
+          const attempts = record.attempts + 1;
+          const rejected = error instanceof RejectedChangeError;
+          await write({
+            ...record,
+            state: 'failed',
+            attempts,
+            rejected: rejected || undefined,
+            lastError: error?.message || 'Unknown error',
+            nextAttemptAt: rejected ? Number.POSITIVE_INFINITY : Date.now() + retryDelay(attempts),
+            updatedAt: Date.now()
+          });
+        }
+      }
+      for (const record of delivered) await removeDelivered(record);
+      if (due.length > 0 || delivered.length > 0) await notify();
+    })().finally(() => {
+      flushInFlight = null;
+    });
+
+    return flushInFlight;
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    readAll().then(listener).catch(() => listener([]));
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,324 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { createSoftwareAuthenticator, SoftwareAuthenticator } from '../test/softwareAuthenticator';
+
+const RP_ID = 'reservoir.example.lk';
+const ORIGIN = `https://${RP_ID}`;
+
+const supabaseMock = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  verifyOtp: vi.fn()
+}));
+
+vi.mock('./supabaseClient', () => ({
+  supabase: {
+    functions: { invoke: supabaseMock.invoke },
+    auth: { verifyOtp: supabaseMock.verifyOtp }
+  }
+}));
+
+import { passkeyService } from './passkeyService';
+
+interface StoredPasskey {
+  credentialId: string;
+  userId: string;
+  publicKey: Uint8Array;
+  counter: number;
+  revoked: boolean;
+}
+
+const MATCH = { matched: true, score: 0.93, threshold: 0.8, matcher: 'test' };
+const MISMATCH = { matched: false, score: 0.41, threshold: 0.8, matcher: 'test' };
+
+/**
+ * In-memory stand-in for the `passkey` edge function: same actions, same verification
+ * library, same error messages. Session tokens are "token:<userId>"; every officer's PIN is
+ * 4321. Attempt limits are counted without the time windows.
+ */
+const createPasskeyBackend = () => {
+  const challenges = new Map<string, { kind: string, challenge: string, userId: string | null, credentialId?: string }>();
+  const passkeys: StoredPasskey[] = [];
+  const attempts: { userId: string, method: 'FACE' | 'PIN', matched: boolean }[] = [];
+  let caller: string | null = null;
+  let nextUser = 0;
+
+  const loginTicket = (id: string) => {
+    const ticket = challenges.get(id);
+    if (!ticket || ticket.kind !== 'login') throw new Error('Sign-in expired. Unlock with your passkey again.');
+    return ticket;
+  };
+
+  const attemptStatus = (userId: string) => {
+    const own = attempts.filter(a => a.userId === userId);
+    const lastPin = own.map(a => a.method === 'PIN' && a.matched).lastIndexOf(true);
+    const failures = own.slice(lastPin + 1).filter(a => !a.matched);
+    return {
+      pinRequired: failures.filter(a => a.method === 'FACE').length >= 3,
+      lockedUntil: failures.filter(a => a.method === 'PIN').length >= 5 ? Date.now() + 15 * 60 * 1000 : undefined
+    };
+  };
+
+  const redeemTicket = (id: string) => {
+    const ticket = loginTicket(id);
+    challenges.delete(id);
+    return { credentialId: ticket.credentialId, tokenHash: `token:${ticket.userId}` };
+  };
+
+  const takeChallenge = (id: string, kind: string) => {
+    const challenge = challenges.get(id);
+    challenges.delete(id);
+    if (!challenge || challenge.kind !== kind) throw new Error('Unknown or expired challenge');
+    return challenge;
+  };
+
+  const actions: Record<string, (body: any) => Promise<unknown>> = {
+    'register-options': async (body) => {
+      const userId = caller ?? `officer-${++nextUser}`;
+      const options = await generateRegistrationOptions({
+        rpName: 'LankaReservoir Watch',
+        rpID: RP_ID,
+        userName: body.name,
+        userID: new TextEncoder().encode(userId),
+        attestationType: 'none',
+        excludeCredentials: passkeys.filter(p => p.userId === caller && !p.revoked).map(p => ({ id: p.credentialId })),
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+      });
+      const challengeId = crypto.randomUUID();
+      challenges.set(challengeId, { kind: 'registration', challenge: options.challenge, userId });
+      return { challengeId, options };
+    },
+
+    'register-verify': async (body) => {
+      const challenge = takeChallenge(body.challengeId, 'registration');
+      const verification = await verifyRegistrationResponse({
+        response: body.credential,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: ORIGIN,
+        expectedRPID: RP_ID,
+        requireUserVerification: true,
+      });
+      if (!verification.verified || !verification.registrationInfo) throw new Error('Passkey registration failed');
+      const { credentialID, credentialPublicKey, counter } = verification.registrationInfo;
+      passkeys.push({ credentialId: credentialID, userId: challenge.userId!, publicKey: credentialPublicKey, counter, revoked: false });
+      return { credentialId: credentialID, tokenHash: `token:${challenge.userId}` };
+    },
+
+    'login-options': async (body) => {
+      const options = await generateAuthenticationOptions({
+        rpID: RP_ID,
+        userVerification: 'required',
+        allowCredentials: (body.credentialIds || []).map((id: string) => ({ id })),
+      });
+      const challengeId = crypto.randomUUID();
+      challenges.set(challengeId, { kind: 'authentication', challenge: options.challenge, userId: null });
+      return { challengeId, options };
+    },
+
+    'login-verify': async (body) => {
+      const challenge = takeChallenge(body.challengeId, 'authentication');
+      const passkey = passkeys.find(p => p.credentialId === body.credential?.id && !p.revoked);
+      if (!passkey) throw new Error('This passkey is not registered or has been revoked');
+      const verification = await verifyAuthenticationResponse({
+        response: body.credential,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: ORIGIN,
+        expectedRPID: RP_ID,
+        requireUserVerification: true,
+        authenticator: { credentialID: passkey.credentialId, credentialPublicKey: passkey.publicKey, counter: passkey.counter },
+      });
+      if (!verification.verified) throw new Error('Passkey verification failed');
+      passkey.counter = verification.authenticationInfo.newCounter;
+      const ticketId = crypto.randomUUID();
+      challenges.set(ticketId, { kind: 'login', challenge: challenge.challenge, userId: passkey.userId, credentialId: passkey.credentialId });
+      return { ticketId, credentialId: passkey.credentialId, ...attemptStatus(passkey.userId) };
+    },
+
+    'attempt-status': async (body) => attemptStatus(loginTicket(body.ticketId).userId!),
+
+    'record-face': async (body) => {
+      const userId = loginTicket(body.ticketId).userId!;
+      attempts.push({ userId, method: 'FACE', matched: body.matched === true });
+      const status = attemptStatus(userId);
+      if (body.matched !== true || status.pinRequired || status.lockedUntil) return status;
+      return { ...status, ...redeemTicket(body.ticketId) };
+    },
+
+    'verify-pin': async (body) => {
+      const userId = loginTicket(body.ticketId).userId!;
+      if (attemptStatus(userId).lockedUntil) throw new Error('Too many incorrect PINs.');
+      const matched = body.pin === '4321';
+      attempts.push({ userId, method: 'PIN', matched });
+      const after = { matched, ...attemptStatus(userId) };
+      return matched ? { ...after, ...redeemTicket(body.ticketId) } : after;
+    },
+
+    revoke: async (body) => {
+      if (!caller) throw new Error('Sign in required');
+      const passkey = passkeys.find(p => p.credentialId === body.credentialId);
+      if (!passkey) throw new Error('Passkey not found');
+      if (passkey.userId !== caller) throw new Error('Not allowed to revoke this passkey');
+      passkey.revoked = true;
+      return { revoked: true };
+    }
+  };
+
+  return {
+    passkeys,
+    signIn(tokenHash: string) {
+      caller = tokenHash.replace(/^token:/, '');
+    },
+    signOut() {
+      caller = null;
+    },
+    // Shaped like supabase.functions.invoke, including the FunctionsHttpError context
+    async invoke(_name: string, { body }: { body: { action: string } }) {
+      const { action, ...rest } = body;
+      try {
+        return { data: await actions[action](rest), error: null };
+      } catch (e: any) {
+        return { data: null, error: { message: 'Edge Function returned a non-2xx status code', context: { json: async () => ({ error: e.message }) } } };
+      }
+    }
+  };
+};
+
+describe('passkeyService with a software authenticator', () => {
+  let backend: ReturnType<typeof createPasskeyBackend>;
+  let authenticator: SoftwareAuthenticator;
+
+  beforeEach(() => {
+    backend = createPasskeyBackend();
+    authenticator = createSoftwareAuthenticator(ORIGIN);
+    passkeyService.setAuthenticator(authenticator);
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 (Linux; Android 14)' });
+    supabaseMock.invoke.mockImplementation((name, options) => backend.invoke(name, options));
+    supabaseMock.verifyOtp.mockImplementation(async ({ token_hash }) => {
+      backend.signIn(token_hash);
+      return { error: null };
+    });
+  });
+
+  afterEach(() => {
+    passkeyService.setAuthenticator(null);
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('reports support once a software authenticator is plugged in', () => {
+    expect(passkeyService.isSupported()).toBe(true);
+  });
+
+  it('registers a passkey for a new enrollee and signs them in', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+
+    expect(authenticator.credentials).toHaveLength(1);
+    expect(backend.passkeys).toEqual([expect.objectContaining({ credentialId, userId: 'officer-1', revoked: false })]);
+    expect(supabaseMock.verifyOtp).toHaveBeenCalledWith({ token_hash: 'token:officer-1', type: 'magiclink' });
+    expect(supabaseMock.invoke).toHaveBeenCalledWith('passkey', {
+      body: expect.objectContaining({ action: 'register-verify', deviceName: 'Android device' })
+    });
+  });
+
+  it('adds a second device to the signed-in account', async () => {
+    await passkeyService.register('Nimal Perera');
+    const second = createSoftwareAuthenticator(ORIGIN);
+    passkeyService.setAuthenticator(second);
+
+    await passkeyService.register('Nimal Perera');
+
+    expect(backend.passkeys.map(p => p.userId)).toEqual(['officer-1', 'officer-1']);
+  });
+
+  it('refuses to enroll the same authenticator twice for one account', async () => {
+    await passkeyService.register('Nimal Perera');
+    await expect(passkeyService.register('Nimal Perera')).rejects.toThrow('InvalidStateError');
+    expect(backend.passkeys).toHaveLength(1);
+  });
+
+  it('verifies a registered passkey and advances its counter', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+    backend.signOut();
+
+    await expect(passkeyService.authenticate([credentialId])).resolves.toMatchObject({ credentialId, pinRequired: false });
+    await expect(passkeyService.authenticate()).resolves.toMatchObject({ credentialId });
+
+    expect(backend.passkeys[0].counter).toBe(2);
+  });
+
+  it('only signs in once the face check passes against the login ticket', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+    backend.signOut();
+    supabaseMock.verifyOtp.mockClear();
+
+    const { ticketId } = await passkeyService.authenticate([credentialId]);
+    expect(supabaseMock.verifyOtp).not.toHaveBeenCalled();
+
+    await expect(passkeyService.recordFaceAttempt(ticketId, MISMATCH)).resolves.toMatchObject({ signedIn: false });
+    await expect(passkeyService.recordFaceAttempt(ticketId, MATCH)).resolves.toMatchObject({ signedIn: true });
+    expect(supabaseMock.verifyOtp).toHaveBeenCalledWith({ token_hash: 'token:officer-1', type: 'magiclink' });
+
+    // The ticket is single use
+    await expect(passkeyService.recordFaceAttempt(ticketId, MATCH)).rejects.toThrow('Sign-in expired');
+  });
+
+  it('requires the PIN after repeated mismatches, whatever the device reports next', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+    backend.signOut();
+    supabaseMock.verifyOtp.mockClear();
+
+    const { ticketId } = await passkeyService.authenticate([credentialId]);
+    for (let i = 0; i < 3; i++) await passkeyService.recordFaceAttempt(ticketId, MISMATCH);
+    await expect(passkeyService.recordFaceAttempt(ticketId, MATCH)).resolves.toEqual({ pinRequired: true, lockedUntil: undefined, signedIn: false });
+    await expect(passkeyService.authenticate([credentialId])).resolves.toMatchObject({ pinRequired: true });
+
+    await expect(passkeyService.verifyPin(ticketId, '0000')).resolves.toMatchObject({ matched: false, pinRequired: true });
+    expect(supabaseMock.verifyOtp).not.toHaveBeenCalled();
+
+    await expect(passkeyService.verifyPin(ticketId, '4321')).resolves.toEqual({ matched: true, pinRequired: false, lockedUntil: undefined });
+    expect(supabaseMock.verifyOtp).toHaveBeenCalledWith({ token_hash: 'token:officer-1', type: 'magiclink' });
+  });
+
+  it('rejects an assertion made on another origin', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+    backend.signOut();
+    authenticator.origin = 'https://reservoir-example-lk.phish.example';
+
+    await expect(passkeyService.authenticate([credentialId])).rejects.toThrow(/origin/);
+    expect(backend.passkeys[0].counter).toBe(0);
+  });
+
+  it('surfaces a cancelled prompt without contacting the verifier', async () => {
+    authenticator.cancelNext();
+    await expect(passkeyService.register('Nimal Perera')).rejects.toThrow('Passkey creation was cancelled.');
+
+    await passkeyService.register('Nimal Perera');
+    authenticator.cancelNext();
+    await expect(passkeyService.authenticate()).rejects.toThrow('Passkey sign-in was cancelled.');
+    expect(supabaseMock.invoke).not.toHaveBeenCalledWith('passkey', { body: expect.objectContaining({ action: 'login-verify' }) });
+  });
+
+  it('revokes a passkey so it can no longer sign in', async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+
+    await passkeyService.revoke(credentialId);
+    backend.signOut();
+
+    expect(backend.passkeys[0].revoked).toBe(true);
+    await expect(passkeyService.authenticate([credentialId])).rejects.toThrow('This passkey is not registered or has been revoked');
+  });
+
+  it("does not let one officer revoke another's passkey", async () => {
+    const credentialId = await passkeyService.register('Nimal Perera');
+    backend.signOut();
+    passkeyService.setAuthenticator(createSoftwareAuthenticator(ORIGIN));
+    await passkeyService.register('Kamala Silva');
+
+    await expect(passkeyService.revoke(credentialId)).rejects.toThrow('Not allowed to revoke this passkey');
+    expect(backend.passkeys[0].revoked).toBe(false);
+  });
+});
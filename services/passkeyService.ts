@@ -0,0 +1,212 @@
+import { FaceMatchResult, LoginAttemptStatus, LoginTicket, Passkey } from '../types';
+import { supabase } from './supabaseClient';
+
+/**
+ * The platform side of a WebAuthn ceremony. Defaults to the browser's navigator.credentials;
+ * a software authenticator can be swapped in with setAuthenticator (e.g. in tests).
+ */
+export interface PasskeyAuthenticator {
+  create(options: CredentialCreationOptions): Promise<Credential | null>;
+  get(options: CredentialRequestOptions): Promise<Credential | null>;
+}
+
+const browserAuthenticator: PasskeyAuthenticator = {
+  create: (options) => navigator.credentials.create(options),
+  get: (options) => navigator.credentials.get(options),
+};
+
+let authenticator: PasskeyAuthenticator = browserAuthenticator;
+
+// --- base64url <-> ArrayBuffer (WebAuthn JSON wire format) ---
+
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const decodeDescriptors = (list?: { id: string, type?: string, transports?: string[] }[]) =>
+  (list || []).map(c => ({ ...c, type: 'public-key' as const, id: fromBase64Url(c.id) })) as PublicKeyCredentialDescriptor[];
+
+const invoke = async <T>(action: string, body: Record<string, unknown> = {}): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('passkey', { body: { action, ...body } });
+  if (error) {
+    // Surface the function's own message rather than the generic non-2xx error
+    const detail = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(detail?.error || error.message || 'Passkey service unavailable');
+  }
+  return data as T;
+};
+
+const describeDevice = (): string => {
+  const ua = navigator.userAgent;
+  if (/android/i.test(ua)) return 'Android device';
+  if (/iphone|ipad/i.test(ua)) return 'iOS device';
+  if (/windows/i.test(ua)) return 'Windows device';
+  if (/mac os/i.test(ua)) return 'Mac';
+  return 'Browser';
+};
+
+/**
+ * Runs WebAuthn registration/assertion ceremonies against the `passkey` edge function
+ * and exchanges the verified result for a Supabase session.
+ */
+export const passkeyService = {
+
+  isSupported(): boolean {
+    return authenticator !== browserAuthenticator || (typeof window !== 'undefined' && !!window.PublicKeyCredential);
+  },
+
+  setAuthenticator(custom: PasskeyAuthenticator | null) {
+    authenticator = custom ?? browserAuthenticator;
+  },
+
+  /**
+   * Create a passkey on this device. Signed in: adds a device to the current account.
+   * Signed out: enrolls a new officer. Returns the credential id.
+   */
+  async register(name: string): Promise<string> {
+    const { challengeId, options } = await invoke<{ challengeId: string, options: any }>('register-options', { name });
+
+    const credential = await authenticator.create({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        user: { ...options.user, id: fromBase64Url(options.user.id) },
+        excludeCredentials: decodeDescriptors(options.excludeCredentials),
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error("Passkey creation was cancelled.");
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const { credentialId, tokenHash } = await invoke<{ credentialId: string, tokenHash: string }>('register-verify', {
+      challengeId,
+      deviceName: describeDevice(),
+      credential: {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: credential.type,
+        authenticatorAttachment: credential.authenticatorAttachment,
+        clientExtensionResults: credential.getClientExtensionResults(),
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          attestationObject: toBase64Url(response.attestationObject),
+          transports: response.getTransports?.() ?? [],
+        },
+      },
+    });
+
+    await this.establishSession(tokenHash);
+    return credentialId;
+  },
+
+  /**
+   * Assert a passkey (optionally restricted to known credential ids). Returns a login ticket;
+   * the session follows once recordFaceAttempt or verifyPin passes against it.
+   */
+  async authenticate(credentialIds: string[] = []): Promise<LoginTicket> {
+    const { challengeId, options } = await invoke<{ challengeId: string, options: any }>('login-options', { credentialIds });
+
+    const credential = await authenticator.get({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        allowCredentials: decodeDescriptors(options.allowCredentials),
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error("Passkey sign-in was cancelled.");
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return invoke<LoginTicket>('login-verify', {
+      challengeId,
+      credential: {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: credential.type,
+        authenticatorAttachment: credential.authenticatorAttachment,
+        clientExtensionResults: credential.getClientExtensionResults(),
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          authenticatorData: toBase64Url(response.authenticatorData),
+          signature: toBase64Url(response.signature),
+          userHandle: response.userHandle ? toBase64Url(response.userHandle) : undefined,
+        },
+      },
+    });
+  },
+
+  async establishSession(tokenHash: string): Promise<void> {
+    const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+    if (error) throw new Error(`Session could not be established: ${error.message}`);
+  },
+
+  /**
+   * Passkeys of one officer, or every passkey visible to the caller (all of them for SUPER_ADMIN).
+   */
+  async listPasskeys(userId?: string): Promise<Passkey[]> {
+    let query = supabase
+      .from('user_passkeys')
+      .select('credential_id, user_id, device_name, created_at, last_used_at, revoked_at');
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+
+    return (data || []).map((row: any) => ({
+      credentialId: row.credential_id,
+      userId: row.user_id,
+      deviceName: row.device_name,
+      createdAt: new Date(row.created_at).getTime(),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at).getTime() : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at).getTime() : undefined,
+    }));
+  },
+
+  async revoke(credentialId: string): Promise<void> {
+    await invoke('revoke', { credentialId });
+  },
+
+  // --- Face/PIN attempts. Recorded and limited server-side, per officer owning the passkey ---
+
+  async getAttemptStatus(ticketId: string): Promise<LoginAttemptStatus> {
+    return invoke<LoginAttemptStatus>('attempt-status', { ticketId });
+  },
+
+  /**
+   * Report the on-device face match. Signs in when it matched and the PIN is not required.
+   */
+  async recordFaceAttempt(ticketId: string, result: FaceMatchResult): Promise<LoginAttemptStatus & { signedIn: boolean }> {
+    const { matched, score, threshold, matcher } = result;
+    const { tokenHash, ...status } = await invoke<LoginAttemptStatus & { tokenHash?: string }>(
+      'record-face', { ticketId, matched, score, threshold, matcher }
+    );
+    if (tokenHash) await this.establishSession(tokenHash);
+    return { pinRequired: status.pinRequired, lockedUntil: status.lockedUntil, signedIn: !!tokenHash };
+  },
+
+  /**
+   * Check the fallback PIN and sign in if it is correct. Fails once too many wrong PINs
+   * have locked the officer out.
+   */
+  async verifyPin(ticketId: string, pin: string): Promise<LoginAttemptStatus & { matched: boolean }> {
+    const { tokenHash, ...result } = await invoke<LoginAttemptStatus & { matched: boolean, tokenHash?: string }>(
+      'verify-pin', { ticketId, pin }
+    );
+    if (tokenHash) await this.establishSession(tokenHash);
+    return { matched: result.matched, pinRequired: result.pinRequired, lockedUntil: result.lockedUntil };
+  },
+
+  /**
+   * Set the signed-in officer's fallback PIN.
+   */
+  async setPin(pin: string): Promise<void> {
+    await invoke('set-pin', { pin });
+  }
+};
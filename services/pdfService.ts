@@ -0,0 +1,109 @@
+/**
+ * Minimal PDF writer for reports generated in the browser: A4 pages, the standard
+ * Helvetica fonts, text, filled rectangles and lines. Coordinates are in points with
+ * the origin at the top left; text outside Latin-1 is replaced with '?'.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type RGB = [number, number, number]; // 0-255
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  align?: 'left' | 'right';
+  maxWidth?: number; // Truncated with '...' beyond this width
+}
+
+// Average Helvetica glyph width as a fraction of the font size, for layout estimates
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+const toLatin1 = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapeText = (text: string) => toLatin1(text).replace(/[\\()]/g, '\\$&');
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const colorOp = ([r, g, b]: RGB, op: 'rg' | 'RG') => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)} ${op}`;
+
+export const textWidth = (text: string, size: number) => text.length * size * AVERAGE_GLYPH_WIDTH;
+
+const fitText = (text: string, size: number, maxWidth?: number) => {
+  if (maxWidth === undefined || textWidth(text, size) <= maxWidth) return text;
+  const chars = Math.max(0, Math.floor(maxWidth / (size * AVERAGE_GLYPH_WIDTH)) - 3);
+  return `${text.slice(0, chars)}...`;
+};
+
+export const createPdf = () => {
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  const addPage = () => {
+    current = [];
+    pages.push(current);
+  };
+  addPage();
+
+  const y = (top: number) => PAGE_HEIGHT - top;
+
+  return {
+    addPage,
+
+    text(value: string, x: number, top: number, options: TextOptions = {}) {
+      const size = options.size ?? 10;
+      const fitted = fitText(value, size, options.maxWidth);
+      const left = options.align === 'right' ? x - textWidth(fitted, size) : x;
+      current.push(
+        `BT ${colorOp(options.color ?? [15, 23, 42], 'rg')} /${options.bold ? 'F2' : 'F1'} ${size} Tf ${num(left)} ${num(y(top) - size)} Td (${escapeText(fitted)}) Tj ET`
+      );
+    },
+
+    rect(x: number, top: number, width: number, height: number, color: RGB) {
+      current.push(`${colorOp(color, 'rg')} ${num(x)} ${num(y(top) - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    line(x1: number, top1: number, x2: number, top2: number, color: RGB = [203, 213, 225], width = 0.5) {
+      current.push(`${colorOp(color, 'RG')} ${num(width)} w ${num(x1)} ${num(y(top1))} m ${num(x2)} ${num(y(top2))} l S`);
+    },
+
+    pageCount: () => pages.length,
+
+    toBlob(): Blob {
+      // 1: catalog, 2: page tree, 3-4: fonts, then a page and a content stream per page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, i) => 5 + i * 2);
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      pages.forEach((ops, i) => {
+        const content = ops.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        );
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Everything is Latin-1, so string offsets are byte offsets
+      let body = '%PDF-1.4\n';
+      const offsets = objects.map((object, i) => {
+        const offset = body.length;
+        body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = body.length;
+      body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+      const bytes = new Uint8Array(body.length);
+      for (let i = 0; i < body.length; i++) bytes[i] = body.charCodeAt(i);
+      return new Blob([bytes], { type: 'application/pdf' });
+    }
+  };
+};
+
+export type PdfDocument = ReturnType<typeof createPdf>;
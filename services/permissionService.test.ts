@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { AccountStatus, Reservoir, ReservoirAssignment, ReservoirEntry, ReservoirStatus, User, UserRole } from '../types';
+import {
+  SUBMITTER_EDIT_WINDOW_MS,
+  canDeleteEntry,
+  canEditEntry,
+  canExportEntries,
+  canHandleAlerts,
+  canImportEntries,
+  canManageAlertRules,
+  canManageUsers,
+  canResolveSync,
+  canReviewEntries,
+  canReviewEntry,
+  canReviewQuality,
+  canSubmitEntries,
+  canSubmitReading,
+  canViewAuditLog,
+  canViewEntry,
+  isInScope
+} from './permissionService';
+
+const NOW = Date.UTC(2026, 9, 1, 6, 0);
+
+const reservoir = (id: string, district: string): Reservoir => ({
+  id,
+  name: id,
+  district,
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  fullSupplyLevel: 100,
+  deadStorageLevel: 90,
+  grossCapacity: 50
+});
+
+// Two reservoirs in Anuradhapura, one in Kurunegala
+const NACHCHADUWA = reservoir('nachchaduwa', 'Anuradhapura');
+const TISSA_WEWA = reservoir('tissa-wewa', 'Anuradhapura');
+const KURUNEGALA_WEWA = reservoir('kurunegala-wewa', 'Kurunegala');
+const RESERVOIRS = [NACHCHADUWA, TISSA_WEWA, KURUNEGALA_WEWA];
+
+const user = (id: string, role: UserRole, status: AccountStatus = AccountStatus.ACTIVE): User =>
+  ({ id, name: id, role, status, avatarUrl: '' });
+
+const USERS = {
+  superAdmin: user('super-admin', UserRole.SUPER_ADMIN),
+  districtAdmin: user('district-admin', UserRole.ADMIN),
+  reservoirAdmin: user('reservoir-admin', UserRole.ADMIN),
+  districtWorker: user('district-worker', UserRole.DATA_ENTRY_WORKER),
+  reservoirWorker: user('reservoir-worker', UserRole.DATA_ENTRY_WORKER),
+  unassignedAdmin: user('unassigned-admin', UserRole.ADMIN),
+  unassignedWorker: user('unassigned-worker', UserRole.DATA_ENTRY_WORKER)
+};
+type UserKey = keyof typeof USERS;
+
+const ASSIGNMENTS: ReservoirAssignment[] = [
+  { id: 'a1', userId: 'district-admin', district: 'Anuradhapura' },
+  { id: 'a2', userId: 'reservoir-admin', reservoirId: 'kurunegala-wewa' },
+  { id: 'a3', userId: 'district-worker', district: 'Kurunegala' },
+  { id: 'a4', userId: 'reservoir-worker', reservoirId: 'nachchaduwa' }
+];
+
+const entry = (reservoirId: string, changes: Partial<ReservoirEntry> = {}): ReservoirEntry => ({
+  id: `${reservoirId}-entry`,
+  reservoirId,
+  name: reservoirId,
+  locationName: reservoirId,
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  waterLevel: 95,
+  capacityPercentage: 50,
+  status: ReservoirStatus.NORMAL,
+  notes: '',
+  timestamp: NOW - 60 * 60 * 1000,
+  submittedBy: 'someone else',
+  submittedById: 'someone-else',
+  isVerified: true,
+  ...changes
+});
+
+describe('isInScope', () => {
+  it.each<[UserKey, Reservoir, boolean]>([
+    ['superAdmin', NACHCHADUWA, true],
+    ['superAdmin', KURUNEGALA_WEWA, true],
+    // Assigned a district: every reservoir in it, nothing outside
+    ['districtAdmin', NACHCHADUWA, true],
+    ['districtAdmin', TISSA_WEWA, true],
+    ['districtAdmin', KURUNEGALA_WEWA, false],
+    ['districtWorker', KURUNEGALA_WEWA, true],
+    ['districtWorker', NACHCHADUWA, false],
+    // Assigned a reservoir: that reservoir only, not its neighbours in the district
+    ['reservoirAdmin', KURUNEGALA_WEWA, true],
+    ['reservoirAdmin', NACHCHADUWA, false],
+    ['reservoirWorker', NACHCHADUWA, true],
+    ['reservoirWorker', TISSA_WEWA, false],
+    ['unassignedAdmin', NACHCHADUWA, false],
+    ['unassignedWorker', NACHCHADUWA, false]
+  ])('%s → %s: %s', (key, target, expected) => {
+    expect(isInScope(USERS[key], ASSIGNMENTS, target)).toBe(expected);
+  });
+
+  it('never matches a reading whose reservoir is unknown, except for SUPER_ADMIN', () => {
+    expect(isInScope(USERS.districtAdmin, ASSIGNMENTS, null)).toBe(false);
+    expect(isInScope(USERS.superAdmin, ASSIGNMENTS, null)).toBe(true);
+  });
+
+  it("ignores other users' assignments", () => {
+    expect(isInScope(USERS.unassignedAdmin, ASSIGNMENTS.map(a => ({ ...a, userId: 'someone-else' })), NACHCHADUWA)).toBe(false);
+  });
+});
+
+describe('role-wide permissions', () => {
+  it.each<[UserRole, { submit: boolean, alerts: boolean, export: boolean, import: boolean, manageUsers: boolean, auditLog: boolean, review: boolean }]>([
+    [UserRole.SUPER_ADMIN, { submit: true, alerts: true, export: true, import: true, manageUsers: true, auditLog: true, review: true }],
+    [UserRole.ADMIN, { submit: false, alerts: true, export: true, import: true, manageUsers: false, auditLog: false, review: true }],
+    [UserRole.DATA_ENTRY_WORKER, { submit: true, alerts: false, export: false, import: false, manageUsers: false, auditLog: false, review: false }]
+  ])('%s', (role, expected) => {
+    const subject = user('subject', role);
+    expect({
+      submit: canSubmitEntries(subject),
+      alerts: canHandleAlerts(subject),
+      export: canExportEntries(subject),
+      import: canImportEntries(subject),
+      manageUsers: canManageUsers(subject),
+      auditLog: canViewAuditLog(subject),
+      review: canReviewEntries(subject)
+    }).toEqual(expected);
+  });
+});
+
+describe('entry permissions by role and scope', () => {
+  type Expected = {
+    submit: boolean, view: boolean, edit: boolean, delete: boolean,
+    resolveSync: boolean, review: boolean, reviewQuality: boolean, alertRules: boolean
+  };
+
+  // Every case is about a reading someone else took at Nachchaduwa (Anuradhapura)
+  it.each<[UserKey, Expected]>([
+    ['superAdmin', { submit: true, view: true, edit: true, delete: true, resolveSync: true, review: true, reviewQuality: true, alertRules: true }],
+    ['districtAdmin', { submit: false, view: true, edit: true, delete: true, resolveSync: true, review: true, reviewQuality: true, alertRules: true }],
+    ['reservoirAdmin', { submit: false, view: false, edit: false, delete: false, resolveSync: false, review: false, reviewQuality: false, alertRules: false }],
+    ['reservoirWorker', { submit: true, view: true, edit: false, delete: false, resolveSync: false, review: false, reviewQuality: false, alertRules: false }],
+    ['districtWorker', { submit: false, view: false, edit: false, delete: false, resolveSync: false, review: false, reviewQuality: false, alertRules: false }],
+    ['unassignedAdmin', { submit: false, view: false, edit: false, delete: false, resolveSync: false, review: false, reviewQuality: false, alertRules: false }],
+    ['unassignedWorker', { submit: false, view: false, edit: false, delete: false, resolveSync: false, review: false, reviewQuality: false, alertRules: false }]
+  ])('%s', (key, expected) => {
+    const subject = USERS[key];
+    const reading = entry(NACHCHADUWA.id);
+    expect({
+      submit: canSubmitReading(subject, ASSIGNMENTS, NACHCHADUWA),
+      view: canViewEntry(subject, ASSIGNMENTS, RESERVOIRS, reading),
+      edit: canEditEntry(subject, ASSIGNMENTS, RESERVOIRS, reading, NOW),
+      delete: canDeleteEntry(subject, ASSIGNMENTS, RESERVOIRS, reading),
+      resolveSync: canResolveSync(subject, ASSIGNMENTS, RESERVOIRS, reading),
+      review: canReviewEntry(subject, ASSIGNMENTS, RESERVOIRS, reading),
+      reviewQuality: canReviewQuality(subject, ASSIGNMENTS, RESERVOIRS, reading),
+      alertRules: canManageAlertRules(subject, ASSIGNMENTS, NACHCHADUWA)
+    }).toEqual(expected);
+  });
+});
+
+describe('own readings', () => {
+  const own = (changes: Partial<ReservoirEntry> = {}) =>
+    entry(NACHCHADUWA.id, { submittedBy: 'reservoir-worker', submittedById: 'reservoir-worker', ...changes });
+
+  it('lets a submitter correct a reading within the edit window', () => {
+    expect(canEditEntry(USERS.reservoirWorker, ASSIGNMENTS, RESERVOIRS, own({ timestamp: NOW - SUBMITTER_EDIT_WINDOW_MS }), NOW)).toBe(true);
+    expect(canEditEntry(USERS.reservoirWorker, ASSIGNMENTS, RESERVOIRS, own({ timestamp: NOW - SUBMITTER_EDIT_WINDOW_MS - 1 }), NOW)).toBe(false);
+  });
+
+  it('reopens editing after the window when a reviewer requests a correction', () => {
+    const old = own({ timestamp: NOW - 3 * SUBMITTER_EDIT_WINDOW_MS, reviewStatus: 'CORRECTION_REQUESTED' });
+    expect(canEditEntry(USERS.reservoirWorker, ASSIGNMENTS, RESERVOIRS, old, NOW)).toBe(true);
+    expect(canEditEntry(USERS.reservoirWorker, ASSIGNMENTS, RESERVOIRS, { ...old, reviewStatus: 'REJECTED' }, NOW)).toBe(false);
+  });
+
+  it('keeps a reading visible to its submitter after the assignment is removed', () => {
+    expect(canViewEntry(USERS.reservoirWorker, [], RESERVOIRS, own())).toBe(true);
+    expect(canViewEntry(USERS.reservoirWorker, [], RESERVOIRS, entry(NACHCHADUWA.id))).toBe(false);
+  });
+
+  it('never lets an admin review their own reading', () => {
+    const mine = entry(NACHCHADUWA.id, { submittedBy: 'district-admin', submittedById: 'district-admin' });
+    expect(canReviewEntry(USERS.districtAdmin, ASSIGNMENTS, RESERVOIRS, mine)).toBe(false);
+    expect(canReviewEntry(USERS.superAdmin, ASSIGNMENTS, RESERVOIRS, { ...mine, submittedById: 'super-admin' })).toBe(false);
+  });
+});
+
+describe('accounts that are not active', () => {
+  it.each([AccountStatus.PENDING, AccountStatus.DEACTIVATED])('%s accounts get nothing, whatever the role', (status) => {
+    for (const role of Object.values(UserRole)) {
+      const subject = user('district-admin', role, status);
+      const own = entry(NACHCHADUWA.id, { submittedById: 'district-admin' });
+      expect([
+        isInScope(subject, ASSIGNMENTS, NACHCHADUWA),
+        canSubmitEntries(subject),
+        canViewEntry(subject, ASSIGNMENTS, RESERVOIRS, own),
+        canEditEntry(subject, ASSIGNMENTS, RESERVOIRS, own, NOW),
+        canDeleteEntry(subject, ASSIGNMENTS, RESERVOIRS, own),
+        canExportEntries(subject),
+        canManageUsers(subject),
+        canReviewEntries(subject)
+      ]).toEqual([false, false, false, false, false, false, false, false]);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { AccountStatus, Reservoir, ReservoirAssignment, ReservoirEntry, User, UserRole } from '../types';
+
+/**
+ * Client-side mirror of the access policies in supabase/migrations/009_entry_access.sql.
+ * The database enforces them; the UI uses these to hide actions a user cannot perform.
+ *
+ * SUPER_ADMIN: everything. ADMIN: reads and deletes within assigned reservoirs/districts.
+ * DATA_ENTRY_WORKER: reads and submits within assigned reservoirs/districts.
+ */
+
+const isActive = (user: User) => user.status === AccountStatus.ACTIVE;
+
+const findReservoir = (reservoirs: Reservoir[], id?: string) =>
+  id ? reservoirs.find(r => r.id === id) || null : null;
+
+/**
+ * Whether a reservoir falls within the user's assignments, either directly or through its district.
+ */
+export const isInScope = (user: User, assignments: ReservoirAssignment[], reservoir: Reservoir | null): boolean => {
+  if (!isActive(user)) return false;
+  if (user.role === UserRole.SUPER_ADMIN) return true;
+  if (!reservoir) return false;
+  return assignments.some(a =>
+    a.userId === user.id && (a.reservoirId === reservoir.id || (!!a.district && a.district === reservoir.district))
+  );
+};
+
+export const canSubmitEntries = (user: User): boolean =>
+  isActive(user) && (user.role === UserRole.DATA_ENTRY_WORKER || user.role === UserRole.SUPER_ADMIN);
+
+export const canSubmitReading = (user: User, assignments: ReservoirAssignment[], reservoir: Reservoir): boolean =>
+  canSubmitEntries(user) && isInScope(user, assignments, reservoir);
+
+export const canViewEntry = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry): boolean =>
+  (isActive(user) && !!entry.submittedById && entry.submittedById === user.id)
+  || isInScope(user, assignments, findReservoir(reservoirs, entry.reservoirId));
+
+export const canDeleteEntry = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry): boolean =>
+  (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN)
+  && isInScope(user, assignments, findReservoir(reservoirs, entry.reservoirId));
+
+// Submitters may correct their own readings for this long after taking them; admins any time
+export const SUBMITTER_EDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// ...or until it is fixed, when a reviewer has asked for a correction
+export const canEditEntry = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry, now: number = Date.now()): boolean =>
+  canDeleteEntry(user, assignments, reservoirs, entry)
+  || (canSubmitEntries(user) && entry.submittedById === user.id
+    && (now - entry.timestamp <= SUBMITTER_EDIT_WINDOW_MS || entry.reviewStatus === 'CORRECTION_REQUESTED'));
+
+/**
+ * Sync conflicts and the not-on-server report are for admins within scope of the entry.
+ */
+export const canResolveSync = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry): boolean =>
+  user.role !== UserRole.DATA_ENTRY_WORKER && canViewEntry(user, assignments, reservoirs, entry);
+
+export const canManageAlertRules = (user: User, assignments: ReservoirAssignment[], reservoir: Reservoir): boolean =>
+  (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) && isInScope(user, assignments, reservoir);
+
+// Acknowledging and resolving alerts; the 022 update policy limits it to admins in scope
+export const canHandleAlerts = (user: User): boolean =>
+  isActive(user) && (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN);
+
+// Exports cover whatever the user can already see; RLS scopes the rows
+export const canExportEntries = (user: User): boolean =>
+  isActive(user) && (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN);
+
+// Imported rows are attributed to the importer; the 013 insert policy limits them to admins
+export const canImportEntries = (user: User): boolean =>
+  isActive(user) && (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN);
+
+export const canManageUsers = (user: User): boolean =>
+  isActive(user) && user.role === UserRole.SUPER_ADMIN;
+
+
+// The 015 audit_log select policy admits SUPER_ADMIN only
+export const canViewAuditLog = (user: User): boolean =>
+  isActive(user) && user.role === UserRole.SUPER_ADMIN;
+// Clearing quality flags is a review decision; the 018 guard trigger limits it to admins
+export const canReviewQuality = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry): boolean =>
+  canDeleteEntry(user, assignments, reservoirs, entry);
+
+export const canReviewEntries = (user: User): boolean =>
+  isActive(user) && (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN);
+
+// QA needs a second pair of eyes: nobody reviews their own reading (guard_entry_review in 019)
+export const canReviewEntry = (user: User, assignments: ReservoirAssignment[], reservoirs: Reservoir[], entry: ReservoirEntry): boolean =>
+  canReviewEntries(user) && entry.submittedById !== user.id
+  && isInScope(user, assignments, findReservoir(reservoirs, entry.reservoirId));
\ No newline at end of file
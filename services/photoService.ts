@@ -0,0 +1,296 @@
+import { Coordinates, EntryPhoto } from '../types';
+import { supabase } from './supabaseClient';
+
+const BUCKET = 'entry-photos';
+
+const DB_NAME = 'lrw_photos';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+// Longest edge after compression; enough to read a staff gauge
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.72;
+
+// Signed URLs are cached for a little less than they last
+const SIGNED_URL_TTL_S = 60 * 60;
+const SIGNED_URL_REUSE_MS = (SIGNED_URL_TTL_S - 300) * 1000;
+
+// Photos must have been taken on site; older files from the gallery are refused
+export const MAX_PHOTO_AGE_MS = 60 * 60 * 1000;
+export const MAX_PHOTOS_PER_ENTRY = 5;
+
+export interface PhotoCapture {
+  capturedAt: number;
+  coordinates?: Coordinates;
+  gpsAccuracy?: number;
+  caption: string; // Reservoir name, burned into the image with the time and position
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const urlCache = new Map<string, { url: string, expiresAt: number }>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const readLocal = (id: string) => withStore<Blob | undefined>('readonly', store => store.get(id));
+
+// --- EXIF (TIFF, little-endian) ---
+
+type IfdTag = { tag: number, type: number, count: number, value: Uint8Array };
+
+const BYTE = 1, ASCII = 2, LONG = 4, RATIONAL = 5;
+
+const ascii = (tag: number, text: string): IfdTag => {
+  const value = new TextEncoder().encode(`${text}\0`);
+  return { tag, type: ASCII, count: value.length, value };
+};
+
+const long = (tag: number, n: number): IfdTag => {
+  const value = new Uint8Array(4);
+  new DataView(value.buffer).setUint32(0, n, true);
+  return { tag, type: LONG, count: 1, value };
+};
+
+const rationals = (tag: number, pairs: [number, number][]): IfdTag => {
+  const value = new Uint8Array(pairs.length * 8);
+  const view = new DataView(value.buffer);
+  pairs.forEach(([num, den], i) => {
+    view.setUint32(i * 8, num, true);
+    view.setUint32(i * 8 + 4, den, true);
+  });
+  return { tag, type: RATIONAL, count: pairs.length, value };
+};
+
+// Values over four bytes go in the data area after the entries, padded to an even offset
+const ifdSize = (tags: IfdTag[]) =>
+  2 + tags.length * 12 + 4 + tags.reduce((n, t) => n + (t.value.length > 4 ? t.value.length + (t.value.length % 2) : 0), 0);
+
+const writeIfd = (bytes: Uint8Array, offset: number, tags: IfdTag[]) => {
+  const view = new DataView(bytes.buffer);
+  const sorted = [...tags].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length, true);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  sorted.forEach((t, i) => {
+    const entry = offset + 2 + i * 12;
+    view.setUint16(entry, t.tag, true);
+    view.setUint16(entry + 2, t.type, true);
+    view.setUint32(entry + 4, t.count, true);
+    if (t.value.length <= 4) {
+      bytes.set(t.value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      bytes.set(t.value, dataOffset);
+      dataOffset += t.value.length + (t.value.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const exifDate = (d: Date) =>
+  `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+
+const exifOffset = (d: Date) => {
+  const minutes = -d.getTimezoneOffset();
+  return `${minutes >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+const toDms = (degrees: number): [number, number][] => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  const s = ((abs - d) * 60 - m) * 60;
+  return [[d, 1], [m, 1], [Math.round(s * 10000), 10000]];
+};
+
+/**
+ * APP1 segment with DateTimeOriginal (and its UTC offset) and, when known, GPS position and accuracy.
+ */
+export const buildExif = (capture: PhotoCapture): Uint8Array => {
+  const date = new Date(capture.capturedAt);
+  const exif = [ascii(0x9003, exifDate(date)), ascii(0x9011, exifOffset(date))];
+  const gps: IfdTag[] = [];
+  if (capture.coordinates) {
+    const { latitude, longitude } = capture.coordinates;
+    gps.push(
+      { tag: 0x0000, type: BYTE, count: 4, value: new Uint8Array([2, 3, 0, 0]) },
+      ascii(0x0001, latitude >= 0 ? 'N' : 'S'),
+      rationals(0x0002, toDms(latitude)),
+      ascii(0x0003, longitude >= 0 ? 'E' : 'W'),
+      rationals(0x0004, toDms(longitude))
+    );
+    if (capture.gpsAccuracy !== undefined) gps.push(rationals(0x001f, [[Math.round(capture.gpsAccuracy * 100), 100]]));
+  }
+
+  // Pointer values do not change the IFD sizes, so placeholders are enough to lay them out
+  const ifd0 = [ascii(0x010e, capture.caption), ascii(0x0131, 'LankaReservoir Watch'), ascii(0x0132, exifDate(date)), long(0x8769, 0)];
+  if (gps.length > 0) ifd0.push(long(0x8825, 0));
+  const exifOffsetPos = 8 + ifdSize(ifd0);
+  const gpsOffsetPos = exifOffsetPos + ifdSize(exif);
+  ifd0[3] = long(0x8769, exifOffsetPos);
+  if (gps.length > 0) ifd0[4] = long(0x8825, gpsOffsetPos);
+
+  const tiff = new Uint8Array(gpsOffsetPos + (gps.length > 0 ? ifdSize(gps) : 0));
+  tiff.set([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  writeIfd(tiff, 8, ifd0);
+  writeIfd(tiff, exifOffsetPos, exif);
+  if (gps.length > 0) writeIfd(tiff, gpsOffsetPos, gps);
+
+  const segment = new Uint8Array(4 + 6 + tiff.length);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00], 4); // "Exif\0\0"
+  segment.set(tiff, 10);
+  return segment;
+};
+
+/**
+ * Insert an APP1 segment straight after the JPEG start-of-image marker.
+ */
+export const embedExif = async (jpeg: Blob, segment: Uint8Array): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error("Not a JPEG image");
+  return new Blob([bytes.subarray(0, 2), segment, bytes.subarray(2)], { type: 'image/jpeg' });
+};
+
+// Visible stamp in the bottom-left corner, which survives any later re-encoding that drops EXIF
+const drawStamp = (ctx: CanvasRenderingContext2D, width: number, height: number, capture: PhotoCapture) => {
+  const lines = [
+    `${capture.caption} · ${new Date(capture.capturedAt).toLocaleString()}`,
+    capture.coordinates
+      ? `${capture.coordinates.latitude.toFixed(5)}, ${capture.coordinates.longitude.toFixed(5)}${capture.gpsAccuracy !== undefined ? ` ±${Math.round(capture.gpsAccuracy)} m` : ''}`
+      : 'No GPS fix'
+  ];
+  const fontSize = Math.max(12, Math.round(width / 50));
+  ctx.font = `${fontSize}px sans-serif`;
+  const boxWidth = Math.max(...lines.map(l => ctx.measureText(l).width)) + fontSize;
+  const boxHeight = fontSize * 1.4 * lines.length + fontSize * 0.6;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - boxHeight, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, fontSize / 2, height - boxHeight + fontSize * (1.2 + 1.4 * i)));
+};
+
+const compress = async (file: Blob, capture: PhotoCapture): Promise<{ blob: Blob, width: number, height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  drawStamp(ctx, width, height, capture);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error("Could not encode the photo");
+  return { blob, width, height };
+};
+
+/**
+ * Gauge photos attached to readings. Captures are compressed and stamped on the device and
+ * kept in IndexedDB until the reading syncs, so they survive going offline or closing the app.
+ */
+export const photoService = {
+
+  /**
+   * Compress a camera capture, embed its metadata and keep it locally until upload.
+   */
+  async capture(file: Blob, reservoirId: string, capture: PhotoCapture): Promise<EntryPhoto> {
+    const { blob, width, height } = await compress(file, capture);
+    const stored = await embedExif(blob, buildExif(capture));
+    const id = crypto.randomUUID();
+    await withStore('readwrite', store => store.put(stored, id));
+    return {
+      id,
+      path: `${reservoirId}/${id}.jpg`,
+      capturedAt: capture.capturedAt,
+      coordinates: capture.coordinates,
+      gpsAccuracy: capture.gpsAccuracy,
+      width,
+      height,
+      sizeBytes: stored.size
+    };
+  },
+
+  /**
+   * Drop a capture that was removed before the reading was submitted.
+   */
+  async discard(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    urlCache.delete(id);
+  },
+
+  /**
+   * Upload any photos still held locally. Safe to replay: an object that already exists
+   * was uploaded by an earlier attempt. Throws so the outbox retries the reading.
+   */
+  async uploadPending(photos: EntryPhoto[] = []): Promise<void> {
+    for (const photo of photos) {
+      const blob = await readLocal(photo.id);
+      if (!blob) continue;
+      const { error } = await supabase.storage.from(BUCKET).upload(photo.path, blob, { contentType: 'image/jpeg', upsert: false });
+      if (error && !/already exists|duplicate/i.test(error.message)) {
+        throw new Error(`Photo upload failed: ${error.message}`);
+      }
+      await withStore('readwrite', store => store.delete(photo.id));
+    }
+  },
+
+  /**
+   * The stored JPEG while it is still on the device (before upload), for on-device processing.
+   */
+  async getLocalBlob(photo: EntryPhoto): Promise<Blob | undefined> {
+    return readLocal(photo.id);
+  },
+
+  /**
+   * Displayable URL: the local copy while it is waiting to upload, otherwise a signed URL.
+   */
+  async getUrl(photo: EntryPhoto): Promise<string> {
+    const cached = urlCache.get(photo.id);
+    if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+    const local = await readLocal(photo.id).catch(() => undefined);
+    if (local) {
+      const url = URL.createObjectURL(local);
+      urlCache.set(photo.id, { url, expiresAt: Infinity });
+      return url;
+    }
+
+    const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(photo.path, SIGNED_URL_TTL_S);
+    if (error || !data) throw new Error(error?.message || "Photo unavailable");
+    urlCache.set(photo.id, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_REUSE_MS });
+    return data.signedUrl;
+  }
+};
@@ -0,0 +1,107 @@
+const OUTBOX_SYNC_TAG = 'lrw-outbox';
+
+// The worker's cache of Supabase responses (API_CACHE in service-worker.js)
+const API_CACHE = 'lrw-api';
+
+type UpdateListener = (updateAvailable: boolean) => void;
+const updateListeners = new Set<UpdateListener>();
+
+let waitingWorker: ServiceWorker | null = null;
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  updateListeners.forEach(listener => listener(!!worker));
+};
+
+/**
+ * Service worker registration, update prompt and Background Sync plumbing.
+ * The worker itself is service-worker.js, built to /sw.js by vite.config.ts.
+ */
+export const pwaService = {
+
+  async register(): Promise<void> {
+    if (!('serviceWorker' in navigator) || !process.env.ENABLE_SERVICE_WORKER) return;
+
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+
+      // A worker already waiting from a previous visit
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaiting(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.addEventListener('statechange', () => {
+          // Only an update if a previous worker controls the page; the first install is silent
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            setWaiting(installing);
+          }
+        });
+      });
+
+      let reloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloading) return;
+        reloading = true;
+        window.location.reload();
+      });
+    } catch (e) {
+      console.warn("Service worker registration failed", e);
+    }
+  },
+
+  onUpdateAvailable(listener: UpdateListener): () => void {
+    updateListeners.add(listener);
+    listener(!!waitingWorker);
+    return () => {
+      updateListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Activate the waiting worker; the page reloads on controllerchange.
+   */
+  applyUpdate() {
+    waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+  },
+
+  /**
+   * Drop the cached API responses so the next person to sign in on a shared device
+   * is never served this user's data offline.
+   */
+  async clearApiCache(): Promise<void> {
+    if (!('caches' in window)) return;
+    try {
+      await caches.delete(API_CACHE);
+    } catch (e) {
+      console.warn("Clearing cached API responses failed", e);
+    }
+  },
+
+  /**
+   * Ask the browser to wake the app when connectivity returns (where Background Sync is supported).
+   */
+  async requestOutboxSync(): Promise<void> {
+    if (!('serviceWorker' in navigator) || !process.env.ENABLE_SERVICE_WORKER) return;
+    try {
+      const registration: any = await navigator.serviceWorker.ready;
+      await registration.sync?.register(OUTBOX_SYNC_TAG);
+    } catch (e) {
+      console.warn("Background sync registration failed", e);
+    }
+  },
+
+  /**
+   * Listen for the worker's request to flush the outbox.
+   */
+  onSyncRequested(handler: () => void): () => void {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const listener = (event: MessageEvent) => {
+      if (event.data?.type === 'SYNC_OUTBOX') handler();
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+  }
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { OutboxRecord, ReservoirEntry, ReservoirStatus } from '../types';
+import { applyEntryChange, reconcileEntries, versionOf } from './reconciliationService';
+
+const V0 = Date.UTC(2026, 9, 1, 6, 0);
+
+const reading = (id: string, changes: Partial<ReservoirEntry> = {}): ReservoirEntry => ({
+  id,
+  reservoirId: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  locationName: 'Nachchaduwa',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  waterLevel: 95,
+  capacityPercentage: 50,
+  status: ReservoirStatus.NORMAL,
+  notes: '',
+  timestamp: V0,
+  submittedBy: 'Nimal Perera',
+  isVerified: true,
+  ...changes
+});
+
+const queued = (entry: ReservoirEntry, changes: Partial<OutboxRecord> = {}): OutboxRecord => ({
+  id: entry.id,
+  op: 'upsert',
+  entry,
+  state: 'pending',
+  attempts: 0,
+  nextAttemptAt: V0,
+  updatedAt: V0,
+  ...changes
+});
+
+describe('versionOf', () => {
+  it('falls back to the timestamp for readings never edited', () => {
+    expect(versionOf(reading('a'))).toBe(V0);
+    expect(versionOf(reading('a', { updatedAt: V0 + 1000 }))).toBe(V0 + 1000);
+  });
+});
+
+describe('reconcileEntries', () => {
+  it('takes the cloud rows when nothing is pending, newest first', () => {
+    const older = reading('a', { timestamp: V0 - 1000 });
+    const newer = reading('b');
+    const report = reconcileEntries([older, newer], [reading('a', { waterLevel: 90, timestamp: V0 - 1000 })], []);
+
+    expect(report.entries).toEqual([newer, older]);
+    expect(report.localOnly).toEqual([]);
+  });
+
+  it('keeps cached readings the cloud and outbox do not know, reported as cache-only', () => {
+    const cached = reading('legacy');
+    const report = reconcileEntries([reading('a')], [cached], []);
+
+    expect(report.entries.map(e => e.id)).toContain('legacy');
+    expect(report.localOnly).toEqual([{ entry: cached, reason: 'cache-only' }]);
+  });
+
+  it('falls back to the cache when the cloud is unreachable', () => {
+    const cached = reading('a');
+    const report = reconcileEntries(null, [cached], []);
+
+    expect(report.entries).toEqual([cached]);
+    expect(report.localOnly).toEqual([]);
+  });
+
+  it('shows a pending change made against the current server version', () => {
+    const local = reading('a', { waterLevel: 95.4, updatedAt: V0 + 1000 });
+    const report = reconcileEntries([reading('a')], [], [queued(local, { baseVersion: V0 })]);
+
+    expect(report.entries).toEqual([local]);
+    expect(report.localOnly).toEqual([{ entry: local, reason: 'pending' }]);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it('reports a failed push as failed', () => {
+    const local = reading('new');
+    const report = reconcileEntries([], [], [queued(local, { state: 'failed' })]);
+
+    expect(report.localOnly).toEqual([{ entry: local, reason: 'failed' }]);
+  });
+
+  it('reports a conflict when the server moved on since the change was made', () => {
+    const cloud = reading('a', { waterLevel: 96, updatedAt: V0 + 500 });
+    const local = reading('a', { waterLevel: 95.4, updatedAt: V0 + 1000 });
+    const report = reconcileEntries([cloud], [], [queued(local, { baseVersion: V0 })]);
+
+    expect(report.conflicts).toEqual([{ id: 'a', local, cloud }]);
+    expect(report.localOnly).toEqual([{ entry: local, reason: 'conflict' }]);
+    expect(report.entries).toEqual([cloud]);
+  });
+
+  it('recognises a push whose acknowledgement was lost', () => {
+    const local = reading('a', { updatedAt: V0 + 1000 });
+    const report = reconcileEntries([local], [], [queued(local, { baseVersion: V0 })]);
+
+    expect(report.alreadySynced).toEqual(['a']);
+    expect(report.localOnly).toEqual([]);
+  });
+
+  it('ignores records already marked synced', () => {
+    const cloud = reading('a');
+    const report = reconcileEntries([cloud], [], [queued(reading('a', { updatedAt: V0 - 1000 }), { state: 'synced' })]);
+
+    expect(report.entries).toEqual([cloud]);
+    expect(report.conflicts).toEqual([]);
+  });
+});
+
+describe('applyEntryChange', () => {
+  const entries = [reading('b', { timestamp: V0 + 1000 }), reading('a')];
+
+  it('removes a deleted entry', () => {
+    expect(applyEntryChange(entries, { type: 'delete', id: 'a' }).map(e => e.id)).toEqual(['b']);
+  });
+
+  it('inserts a new entry in timestamp order', () => {
+    const between = reading('c', { timestamp: V0 + 500 });
+    expect(applyEntryChange(entries, { type: 'upsert', entry: between }).map(e => e.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('replaces an entry with a newer version', () => {
+    const edited = reading('a', { waterLevel: 95.4, updatedAt: V0 + 2000 });
+    expect(applyEntryChange(entries, { type: 'upsert', entry: edited })).toEqual([entries[0], edited]);
+  });
+
+  it('ignores a replayed older version', () => {
+    const current = [reading('a', { waterLevel: 95.4, updatedAt: V0 + 2000 })];
+    expect(applyEntryChange(current, { type: 'upsert', entry: reading('a') })).toBe(current);
+  });
+});
@@ -0,0 +1,80 @@
+import { EntryChange, LocalOnlyRecord, OutboxRecord, ReconciliationReport, ReservoirEntry, SyncConflict } from '../types';
+
+export const versionOf = (entry: ReservoirEntry): number => entry.updatedAt ?? entry.timestamp;
+
+/**
+ * Merge the cloud result, the LocalStorage cache and the outbox into one view keyed by id.
+ *
+ * - Cloud rows are authoritative once nothing local is pending for them.
+ * - Unsynced local changes win unless the server copy moved on since the change was made
+ *   (its version differs from the record's baseVersion), which is reported as a conflict.
+ * - Cached rows the cloud does not know about and the outbox does not track are kept and
+ *   reported as cache-only (typically readings saved before the outbox existed).
+ *
+ * Pass `cloud` as null when the server could not be reached.
+ */
+export const reconcileEntries = (
+  cloud: ReservoirEntry[] | null,
+  cache: ReservoirEntry[],
+  outbox: OutboxRecord[]
+): ReconciliationReport & {
+  entries: ReservoirEntry[];
+  alreadySynced: string[]; // Outbox ids whose change is already on the server
+} => {
+  const byId = new Map<string, ReservoirEntry>();
+  const localOnly: LocalOnlyRecord[] = [];
+  const conflicts: SyncConflict[] = [];
+  const alreadySynced: string[] = [];
+  const tracked = new Map(outbox.map(r => [r.id, r]));
+
+  (cloud ?? cache).forEach(e => byId.set(e.id, e));
+
+  if (cloud) {
+    cache
+      .filter(e => !byId.has(e.id) && !tracked.has(e.id))
+      .forEach(e => {
+        byId.set(e.id, e);
+        localOnly.push({ entry: e, reason: 'cache-only' });
+      });
+  }
+
+  for (const record of outbox) {
+    if (record.state === 'synced') continue;
+
+    const remote = cloud?.find(e => e.id === record.id);
+    if (remote && versionOf(remote) === versionOf(record.entry)) {
+      // The push landed but its acknowledgement was lost
+      alreadySynced.push(record.id);
+      continue;
+    }
+    if (remote && (record.state === 'conflict' || versionOf(remote) !== record.baseVersion)) {
+      conflicts.push({ id: record.id, local: record.entry, cloud: remote });
+      localOnly.push({ entry: record.entry, reason: 'conflict' });
+      continue;
+    }
+
+    byId.set(record.id, record.entry);
+    localOnly.push({ entry: record.entry, reason: record.state === 'failed' ? 'failed' : 'pending' });
+  }
+
+  return {
+    entries: Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp),
+    localOnly,
+    conflicts,
+    alreadySynced
+  };
+};
+
+
+/**
+ * Apply a single pushed change to an entry list (newest first). Older versions of an
+ * entry never replace newer ones, so replayed or out-of-order events are harmless.
+ */
+export const applyEntryChange = (entries: ReservoirEntry[], change: EntryChange): ReservoirEntry[] => {
+  if (change.type === 'delete') return entries.filter(e => e.id !== change.id);
+
+  const existing = entries.find(e => e.id === change.entry.id);
+  if (existing && versionOf(existing) > versionOf(change.entry)) return entries;
+  return [change.entry, ...entries.filter(e => e.id !== change.entry.id)]
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
\ No newline at end of file
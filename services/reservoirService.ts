@@ -0,0 +1,106 @@
+import { Reservoir } from '../types';
+import { supabase } from './supabaseClient';
+
+const LOCAL_STORAGE_KEY = 'reservoir_registry';
+
+const mapRow = (row: any): Reservoir => ({
+  id: row.id,
+  name: row.name,
+  district: row.district,
+  coordinates: {
+    latitude: row.latitude,
+    longitude: row.longitude
+  },
+  fullSupplyLevel: row.full_supply_level,
+  deadStorageLevel: row.dead_storage_level,
+  grossCapacity: row.gross_capacity,
+  geofence: row.geofence_polygon
+    ? { polygon: row.geofence_polygon, bufferMeters: row.geofence_buffer ?? 0 }
+    : undefined,
+  stageStorage: row.stage_storage ?? undefined,
+  thresholds: row.thresholds ?? undefined
+});
+
+const toDbPayload = (reservoir: Reservoir) => ({
+  id: reservoir.id,
+  name: reservoir.name,
+  district: reservoir.district,
+  latitude: reservoir.coordinates.latitude,
+  longitude: reservoir.coordinates.longitude,
+  full_supply_level: reservoir.fullSupplyLevel,
+  dead_storage_level: reservoir.deadStorageLevel,
+  gross_capacity: reservoir.grossCapacity,
+  geofence_polygon: reservoir.geofence?.polygon ?? null,
+  geofence_buffer: reservoir.geofence?.bufferMeters ?? null,
+  stage_storage: reservoir.stageStorage ?? null,
+  thresholds: reservoir.thresholds ?? null
+});
+
+const readCache = (): Reservoir[] => {
+  const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+const writeCache = (reservoirs: Reservoir[]) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(reservoirs));
+  } catch (e) {
+    console.warn("LocalStorage write failed", e);
+  }
+};
+
+/**
+ * Master registry of reservoirs. Every ReservoirEntry references one of these by id,
+ * so names are taken from here rather than from free-text AI output.
+ * The last successful fetch is cached in LocalStorage for offline use in the field.
+ */
+export const reservoirService = {
+
+  async getReservoirs(): Promise<{ data: Reservoir[], source: 'MYSQL' | 'LOCAL' }> {
+    try {
+      const { data, error } = await supabase
+        .from('reservoirs')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const mappedData = (data || []).map(mapRow);
+      writeCache(mappedData);
+      return { data: mappedData, source: 'MYSQL' };
+    } catch (error: any) {
+      console.warn('Reservoir registry unavailable, using cached copy:', error.message);
+      return { data: readCache(), source: 'LOCAL' };
+    }
+  },
+
+  async getReservoir(id: string): Promise<Reservoir | null> {
+    const { data } = await this.getReservoirs();
+    return data.find(r => r.id === id) || null;
+  },
+
+  async addReservoir(reservoir: Reservoir): Promise<void> {
+    const { error } = await supabase.from('reservoirs').insert([toDbPayload(reservoir)]);
+    if (error) throw new Error(error.message || "Failed to register reservoir");
+    writeCache([...readCache().filter(r => r.id !== reservoir.id), reservoir]);
+  },
+
+  async updateReservoir(reservoir: Reservoir): Promise<void> {
+    const { data, error } = await supabase
+      .from('reservoirs')
+      .update(toDbPayload(reservoir))
+      .eq('id', reservoir.id)
+      .select('id');
+    if (error) throw new Error(error.message || "Failed to update reservoir");
+    // Row-level security skips reservoirs outside the admin's scope without an error
+    if (data.length === 0) throw new Error("This reservoir is outside your assigned scope");
+    writeCache(readCache().map(r => (r.id === reservoir.id ? reservoir : r)));
+  },
+
+  async deleteReservoir(id: string): Promise<void> {
+    const { data, error } = await supabase.from('reservoirs').delete().eq('id', id).select('id');
+    if (error) throw new Error(error.message || "Failed to delete reservoir");
+    if (data.length === 0) throw new Error("This reservoir is outside your assigned scope");
+    writeCache(readCache().filter(r => r.id !== id));
+  }
+};
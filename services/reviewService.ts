@@ -0,0 +1,28 @@
+import { ReservoirEntry, ReviewStatus } from '../types';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  PENDING: 'Pending review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  CORRECTION_REQUESTED: 'Correction requested'
+};
+
+// Versioning, deletion, evidence and review state. Every other field is a value the reviewer
+// signed off on; changing one sends the reading back to the queue (mirrors entry_values in 024)
+const NON_VALUE_FIELDS = new Set<keyof ReservoirEntry>([
+  'id', 'updatedAt', 'revisionReason', 'deletedAt', 'deletedBy', 'photos', 'gaugeReading', 'qualityFlags',
+  'reviewStatus', 'reviewedBy', 'reviewedById', 'reviewedAt', 'reviewComment'
+]);
+
+export const reviewStatusOf = (entry: ReservoirEntry): ReviewStatus => entry.reviewStatus ?? 'PENDING';
+
+/**
+ * Whether `changes` alter what the reviewer signed off on.
+ */
+export const changesReviewedValues = (entry: ReservoirEntry, changes: Partial<ReservoirEntry>): boolean =>
+  (Object.keys(changes) as (keyof ReservoirEntry)[])
+    .some(field => !NON_VALUE_FIELDS.has(field) && JSON.stringify(changes[field]) !== JSON.stringify(entry[field]));
+
+// Rejecting or asking for a correction must tell the submitter why
+export const requiresReviewComment = (status: ReviewStatus): boolean =>
+  status === 'REJECTED' || status === 'CORRECTION_REQUESTED';
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Reservoir, ReservoirStatus, StageStoragePoint } from '../types';
+import { computeStorage, deriveStatus, interpolateLevel, interpolateVolume, levelAtVolume, volumeAtLevel } from './storageService';
+
+const CURVE: StageStoragePoint[] = [
+  { level: 90, volume: 0 },
+  { level: 95, volume: 10 },
+  { level: 100, volume: 40 }
+];
+
+const reservoir = (changes: Partial<Reservoir> = {}): Reservoir => ({
+  id: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  district: 'Anuradhapura',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  fullSupplyLevel: 100,
+  deadStorageLevel: 90,
+  grossCapacity: 40,
+  ...changes
+});
+
+describe('interpolateVolume', () => {
+  it('returns table volumes at table levels', () => {
+    CURVE.forEach(point => expect(interpolateVolume(CURVE, point.level)).toBe(point.volume));
+  });
+
+  it('interpolates linearly within each segment', () => {
+    expect(interpolateVolume(CURVE, 92.5)).toBe(5);
+    expect(interpolateVolume(CURVE, 97.5)).toBe(25);
+  });
+
+  it('extrapolates above the table along the last segment', () => {
+    expect(interpolateVolume(CURVE, 101)).toBe(46);
+  });
+
+  it('never goes below zero under the table', () => {
+    expect(interpolateVolume(CURVE, 85)).toBe(0);
+  });
+
+  it('copes with repeated levels', () => {
+    expect(interpolateVolume([{ level: 90, volume: 0 }, { level: 90, volume: 5 }], 90)).toBe(5);
+  });
+});
+
+describe('interpolateLevel', () => {
+  it('inverts interpolateVolume', () => {
+    [91, 94.2, 96, 99.9].forEach(level => {
+      expect(interpolateLevel(CURVE, interpolateVolume(CURVE, level))).toBeCloseTo(level, 9);
+    });
+  });
+});
+
+describe('stage-storage table per reservoir', () => {
+  it('sorts a surveyed table given in any order', () => {
+    const surveyed = reservoir({ stageStorage: [CURVE[2], CURVE[0], CURVE[1]] });
+    expect(volumeAtLevel(surveyed, 97.5)).toBe(25);
+    expect(levelAtVolume(surveyed, 25)).toBe(97.5);
+  });
+
+  it('falls back to a straight line from dead storage to full supply', () => {
+    expect(volumeAtLevel(reservoir(), 95)).toBe(20);
+  });
+});
+
+describe('deriveStatus', () => {
+  // Default thresholds: spill at FSL 100, flood watch from 99.5, low storage below 92.5, critical at DSL 90
+  it('maps levels to statuses with the default thresholds', () => {
+    const r = reservoir();
+    expect(deriveStatus(r, 100)).toBe(ReservoirStatus.SPILLING);
+    expect(deriveStatus(r, 99.6)).toBe(ReservoirStatus.WARNING);
+    expect(deriveStatus(r, 96)).toBe(ReservoirStatus.NORMAL);
+    expect(deriveStatus(r, 92)).toBe(ReservoirStatus.WARNING);
+    expect(deriveStatus(r, 90)).toBe(ReservoirStatus.CRITICAL);
+  });
+
+  it('uses stored thresholds when present', () => {
+    const r = reservoir({
+      thresholds: { spillCrestLevel: 101, floodWarningLevel: 100.5, lowStorageWarningLevel: 91, minimumOperatingLevel: 90.5 }
+    });
+    expect(deriveStatus(r, 100)).toBe(ReservoirStatus.NORMAL);
+    expect(deriveStatus(r, 90.5)).toBe(ReservoirStatus.CRITICAL);
+  });
+});
+
+describe('computeStorage', () => {
+  it('derives rounded volume, percent full and status', () => {
+    expect(computeStorage(reservoir({ stageStorage: CURVE }), 96.123)).toEqual({
+      volume: 16.74,
+      capacityPercentage: 41.8,
+      status: ReservoirStatus.NORMAL
+    });
+  });
+
+  it('caps percent full at 100 above the spill crest', () => {
+    expect(computeStorage(reservoir({ stageStorage: CURVE }), 101)).toMatchObject({ volume: 46, capacityPercentage: 100 });
+  });
+});
@@ -0,0 +1,92 @@
+import { Reservoir, ReservoirStatus, StageStoragePoint, StatusThresholds } from '../types';
+
+// Default band below FSL in which a rising reservoir is flagged for flood watch.
+const DEFAULT_FLOOD_WARNING_MARGIN_METERS = 0.5;
+
+// Default low-storage warning: this fraction of the live range (DSL -> FSL) above dead storage.
+const DEFAULT_LOW_STORAGE_FRACTION = 0.25;
+
+/**
+ * The reservoir's stage-storage table sorted by level. Reservoirs without a surveyed
+ * table fall back to a straight line from dead storage (empty) to full supply (gross capacity).
+ */
+const curveFor = (reservoir: Reservoir): StageStoragePoint[] => {
+  if (reservoir.stageStorage && reservoir.stageStorage.length >= 2) {
+    return [...reservoir.stageStorage].sort((a, b) => a.level - b.level);
+  }
+  return [
+    { level: reservoir.deadStorageLevel, volume: 0 },
+    { level: reservoir.fullSupplyLevel, volume: reservoir.grossCapacity }
+  ];
+};
+
+/**
+ * Piecewise-linear interpolation of volume at the given level.
+ * Levels outside the table extrapolate along the nearest segment; volume never goes below zero.
+ */
+export const interpolateVolume = (curve: StageStoragePoint[], level: number): number => {
+  let i = 1;
+  while (i < curve.length - 1 && level > curve[i].level) i++;
+  const a = curve[i - 1];
+  const b = curve[i];
+  const span = b.level - a.level;
+  const volume = span === 0 ? b.volume : a.volume + ((level - a.level) / span) * (b.volume - a.volume);
+  return Math.max(0, volume);
+};
+
+/**
+ * Inverse of interpolateVolume: the level at which the table holds the given volume.
+ */
+export const interpolateLevel = (curve: StageStoragePoint[], volume: number): number => {
+  let i = 1;
+  while (i < curve.length - 1 && volume > curve[i].volume) i++;
+  const a = curve[i - 1];
+  const b = curve[i];
+  const span = b.volume - a.volume;
+  return span === 0 ? b.level : a.level + ((volume - a.volume) / span) * (b.level - a.level);
+};
+
+export const volumeAtLevel = (reservoir: Reservoir, level: number): number =>
+  interpolateVolume(curveFor(reservoir), level);
+
+export const levelAtVolume = (reservoir: Reservoir, volume: number): number =>
+  interpolateLevel(curveFor(reservoir), volume);
+
+export const thresholdsFor = (reservoir: Reservoir): StatusThresholds => {
+  if (reservoir.thresholds) return reservoir.thresholds;
+  const liveRange = reservoir.fullSupplyLevel - reservoir.deadStorageLevel;
+  return {
+    spillCrestLevel: reservoir.fullSupplyLevel,
+    floodWarningLevel: reservoir.fullSupplyLevel - DEFAULT_FLOOD_WARNING_MARGIN_METERS,
+    lowStorageWarningLevel: reservoir.deadStorageLevel + liveRange * DEFAULT_LOW_STORAGE_FRACTION,
+    minimumOperatingLevel: reservoir.deadStorageLevel
+  };
+};
+
+/**
+ * Rules engine mapping a water level to an operational status.
+ */
+export const deriveStatus = (reservoir: Reservoir, level: number): ReservoirStatus => {
+  const t = thresholdsFor(reservoir);
+  if (level >= t.spillCrestLevel) return ReservoirStatus.SPILLING;
+  if (level <= t.minimumOperatingLevel) return ReservoirStatus.CRITICAL;
+  if (level >= t.floodWarningLevel || level <= t.lowStorageWarningLevel) return ReservoirStatus.WARNING;
+  return ReservoirStatus.NORMAL;
+};
+
+/**
+ * Derive storage volume, percent full and status from a gauge reading.
+ */
+export const computeStorage = (reservoir: Reservoir, level: number): {
+  volume: number;
+  capacityPercentage: number;
+  status: ReservoirStatus;
+} => {
+  const volume = interpolateVolume(curveFor(reservoir), level);
+  const percent = reservoir.grossCapacity > 0 ? (volume / reservoir.grossCapacity) * 100 : 0;
+  return {
+    volume: Math.round(volume * 100) / 100,
+    capacityPercentage: Math.round(Math.min(100, percent) * 10) / 10,
+    status: deriveStatus(reservoir, level)
+  };
+};
@@ -0,0 +1,121 @@
+import { AccountStatus, ReservoirAssignment, UserProfile, UserRole } from '../types';
+import { supabase } from './supabaseClient';
+
+// The signed-in officer's own assignments, kept for offline permission checks
+const ASSIGNMENTS_CACHE_KEY = 'lrw_assignments';
+
+const mapRow = (row: any): UserProfile => ({
+  id: row.id,
+  name: row.name,
+  role: row.role as UserRole,
+  status: (row.status as AccountStatus) || AccountStatus.PENDING,
+  avatarUrl: row.avatar_url,
+  createdAt: new Date(row.created_at).getTime(),
+  approvedBy: row.approved_by ?? undefined,
+  approvedAt: row.approved_at ? new Date(row.approved_at).getTime() : undefined,
+  lastLoginAt: row.last_login_at ? new Date(row.last_login_at).getTime() : undefined
+});
+
+const mapAssignment = (row: any): ReservoirAssignment => ({
+  id: row.id,
+  userId: row.user_id,
+  reservoirId: row.reservoir_id ?? undefined,
+  district: row.district ?? undefined
+});
+
+/**
+ * Account approval and administration for SUPER_ADMIN. Role and status changes go
+ * through security-definer RPCs; the profiles table rejects them from anyone else.
+ */
+export const userService = {
+
+  async getUsers(): Promise<UserProfile[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .order('name', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapRow);
+  },
+
+  async getPendingUsers(): Promise<UserProfile[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('status', AccountStatus.PENDING)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapRow);
+  },
+
+  /**
+   * Activate a pending account with the given role (also used to promote or demote).
+   */
+  async approveUser(userId: string, role: UserRole): Promise<void> {
+    const { error } = await supabase.rpc('approve_user', { target_user: userId, new_role: role });
+    if (error) throw new Error(error.message);
+  },
+
+  async rejectUser(userId: string): Promise<void> {
+    await this.setStatus(userId, AccountStatus.DEACTIVATED);
+  },
+
+  /**
+   * Change the role of an existing account without touching its status.
+   */
+  async setRole(userId: string, role: UserRole): Promise<void> {
+    const { error } = await supabase.rpc('set_user_role', { target_user: userId, new_role: role });
+    if (error) throw new Error(error.message);
+  },
+
+  async setStatus(userId: string, status: AccountStatus): Promise<void> {
+    const { error } = await supabase.rpc('set_user_status', { target_user: userId, new_status: status });
+    if (error) throw new Error(error.message);
+  },
+
+  /**
+   * Revoke every passkey and delete the face template, forcing the officer to enroll again.
+   */
+  async resetEnrollment(userId: string): Promise<void> {
+    const { error } = await supabase.rpc('reset_user_enrollment', { target_user: userId });
+    if (error) throw new Error(error.message);
+  },
+
+  async getAssignments(userId?: string): Promise<ReservoirAssignment[]> {
+    let query = supabase.from('user_assignments').select('*');
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(mapAssignment);
+  },
+
+  /**
+   * Assignments of the signed-in officer, falling back to the last fetched copy when offline.
+   */
+  async getOwnAssignments(userId: string): Promise<ReservoirAssignment[]> {
+    try {
+      const assignments = await this.getAssignments(userId);
+      localStorage.setItem(ASSIGNMENTS_CACHE_KEY, JSON.stringify(assignments));
+      return assignments;
+    } catch (e: any) {
+      console.warn('Assignments unavailable, using cached copy:', e.message);
+      const saved = localStorage.getItem(ASSIGNMENTS_CACHE_KEY);
+      const cached: ReservoirAssignment[] = saved ? JSON.parse(saved) : [];
+      return cached.filter(a => a.userId === userId);
+    }
+  },
+
+  async addAssignment(userId: string, target: { reservoirId?: string, district?: string }): Promise<void> {
+    const { error } = await supabase.from('user_assignments').insert([{
+      user_id: userId,
+      reservoir_id: target.reservoirId ?? null,
+      district: target.reservoirId ? null : target.district ?? null
+    }]);
+    if (error) throw new Error(error.message);
+  },
+
+  async removeAssignment(id: string): Promise<void> {
+    const { error } = await supabase.from('user_assignments').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { GaugeReading, Reservoir, ReservoirEntry, ReservoirStatus } from '../types';
+import { clearQualityFlags, openQualityFlags, toQualityFlags, validateReading } from './validationService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 1, 6, 0);
+
+// Dead storage at 90 m, spill crest at 100 m
+const NACHCHADUWA: Reservoir = {
+  id: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  district: 'Anuradhapura',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  fullSupplyLevel: 100,
+  deadStorageLevel: 90,
+  grossCapacity: 50
+};
+
+const reading = (hoursAgo: number, waterLevel: number, changes: Partial<ReservoirEntry> = {}): ReservoirEntry => ({
+  id: `reading-${hoursAgo}`,
+  reservoirId: 'nachchaduwa',
+  name: 'Nachchaduwa',
+  locationName: 'Nachchaduwa',
+  coordinates: { latitude: 8.3, longitude: 80.4 },
+  waterLevel,
+  capacityPercentage: 50,
+  status: ReservoirStatus.NORMAL,
+  notes: '',
+  timestamp: NOW - hoursAgo * HOUR_MS,
+  submittedBy: 'Nimal Perera',
+  isVerified: true,
+  ...changes
+});
+
+// Daily readings over the last week, steady around 95 m
+const STEADY = [24, 48, 72, 96, 120, 144].map((hours, i) => reading(hours, 95 + (i % 2) * 0.05));
+
+const codesFor = (waterLevel: number, history: ReservoirEntry[] = [], gaugeReading?: GaugeReading) =>
+  validateReading({ waterLevel, capacityPercentage: 50, timestamp: NOW }, NACHCHADUWA, history, gaugeReading).map(i => i.code);
+
+describe('validateReading', () => {
+  it('accepts a plausible reading', () => {
+    expect(codesFor(95.1, STEADY)).toEqual([]);
+  });
+
+  it('blocks a level that is not a positive number', () => {
+    [0, -1, Number.NaN].forEach(level => {
+      const issues = validateReading({ waterLevel: level, capacityPercentage: 50, timestamp: NOW }, NACHCHADUWA, []);
+      expect(issues).toEqual([expect.objectContaining({ code: 'INVALID_VALUE', blocking: true })]);
+    });
+  });
+
+  it('blocks a capacity outside 0-100%', () => {
+    const issues = validateReading({ waterLevel: 95, capacityPercentage: 120, timestamp: NOW }, NACHCHADUWA, []);
+    expect(issues).toEqual([expect.objectContaining({ code: 'INVALID_VALUE', blocking: true })]);
+  });
+
+  it('flags levels far outside the physical range', () => {
+    expect(codesFor(86.9)).toEqual(['BELOW_PHYSICAL_RANGE']);
+    expect(codesFor(87)).toEqual([]);
+    expect(codesFor(103.1)).toEqual(['ABOVE_PHYSICAL_RANGE']);
+  });
+
+  it('flags a change faster than the reservoir can plausibly rise or fall', () => {
+    // 0.25 m/h over 4 hours allows 1 m
+    expect(codesFor(96, [reading(4, 95)])).toEqual([]);
+    expect(codesFor(96.2, [reading(4, 95)])).toEqual(['RATE_OF_CHANGE']);
+    // Readings close together still allow 0.1 m of gauge noise
+    expect(codesFor(95.08, [reading(0.1, 95)])).toEqual([]);
+  });
+
+  it('flags an outlier against the last two weeks of readings', () => {
+    const issues = validateReading({ waterLevel: 97, capacityPercentage: 50, timestamp: NOW }, NACHCHADUWA, STEADY);
+    expect(issues.map(i => i.code)).toContain('STATISTICAL_OUTLIER');
+    expect(issues.every(i => !i.blocking)).toBe(true);
+  });
+
+  it('needs five recent readings before testing for outliers', () => {
+    expect(codesFor(97, STEADY.slice(0, 4))).not.toContain('STATISTICAL_OUTLIER');
+  });
+
+  it('ignores deleted, later and other reservoirs\' readings', () => {
+    const history = [
+      reading(1, 80, { deletedAt: NOW }),
+      reading(-1, 80),
+      reading(2, 80, { reservoirId: 'tissa-wewa' })
+    ];
+    expect(codesFor(95, history)).toEqual([]);
+  });
+
+  it('flags a mismatch with the gauge photo', () => {
+    const gauge: GaugeReading = { photoId: 'p1', recognizer: 'test', value: 9.51, confidence: 0.9, verdict: 'MISMATCH', difference: 85.49 };
+    expect(codesFor(95, [], gauge)).toEqual(['GAUGE_MISMATCH']);
+    expect(codesFor(95, [], { ...gauge, value: 95, verdict: 'MATCH', difference: 0 })).toEqual([]);
+  });
+});
+
+describe('quality flags', () => {
+  const issues = validateReading({ waterLevel: 103.5, capacityPercentage: 120, timestamp: NOW }, NACHCHADUWA, []);
+
+  it('stores only the non-blocking issues', () => {
+    expect(toQualityFlags(issues, NOW)).toEqual([
+      { code: 'ABOVE_PHYSICAL_RANGE', message: expect.any(String), raisedAt: NOW }
+    ]);
+  });
+
+  it('clears open flags and keeps earlier reviews as they were', () => {
+    const earlier = { code: 'RATE_OF_CHANGE' as const, message: 'Rise', raisedAt: NOW - HOUR_MS, clearedAt: NOW - 1000, clearedBy: 'Kamala', clearedById: 'k', reviewNote: 'Sluice opened' };
+    const flags = [earlier, ...toQualityFlags(issues, NOW)];
+    const cleared = clearQualityFlags(flags, { id: 'a', name: 'Admin' }, 'Confirmed on site', NOW + 1000);
+
+    expect(cleared[0]).toBe(earlier);
+    expect(cleared[1]).toMatchObject({ clearedAt: NOW + 1000, clearedBy: 'Admin', clearedById: 'a', reviewNote: 'Confirmed on site' });
+    expect(openQualityFlags(reading(0, 95, { qualityFlags: flags }))).toEqual([flags[1]]);
+    expect(openQualityFlags(reading(0, 95, { qualityFlags: cleared }))).toEqual([]);
+  });
+});
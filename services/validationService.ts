@@ -0,0 +1,129 @@
+import { GaugeReading, QualityFlag, Reservoir, ReservoirEntry, ValidationIssue } from '../types';
+import { thresholdsFor } from './storageService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far outside DSL..spill crest a level may be before it is physically implausible
+const PHYSICAL_MARGIN_M = 3;
+
+// Fastest plausible rise or fall; flood inflows into the larger tanks stay well under this
+const MAX_RATE_M_PER_HOUR = 0.25;
+// Gauge-reading noise allowed between readings taken close together
+const MIN_ALLOWED_CHANGE_M = 0.1;
+
+// Outlier test: robust z-score against recent readings of the same reservoir
+export const HISTORY_WINDOW_MS = 14 * 24 * HOUR_MS;
+const MIN_HISTORY_FOR_OUTLIERS = 5;
+const OUTLIER_Z = 3.5;
+const MIN_OUTLIER_DEVIATION_M = 0.5;
+
+export interface ReadingCandidate {
+  waterLevel: number;
+  capacityPercentage: number;
+  timestamp: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const formatHours = (ms: number) => {
+  const hours = ms / HOUR_MS;
+  return hours < 48 ? `${Math.max(1, Math.round(hours))} h` : `${Math.round(hours / 24)} days`;
+};
+
+/**
+ * Check a new reading against the reservoir's physical limits and its recent history.
+ * `history` holds earlier readings of the same reservoir in any order; deleted ones are ignored.
+ */
+export const validateReading = (
+  candidate: ReadingCandidate,
+  reservoir: Reservoir,
+  history: ReservoirEntry[],
+  gaugeReading?: GaugeReading
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const level = candidate.waterLevel;
+
+  if (!Number.isFinite(level) || level <= 0) {
+    return [{ code: 'INVALID_VALUE', message: 'Water level must be a positive number of meters above MSL', blocking: true }];
+  }
+  if (!Number.isFinite(candidate.capacityPercentage) || candidate.capacityPercentage < 0 || candidate.capacityPercentage > 100) {
+    issues.push({ code: 'INVALID_VALUE', message: 'Capacity must be between 0 and 100%', blocking: true });
+  }
+
+  const crest = thresholdsFor(reservoir).spillCrestLevel;
+  if (level < reservoir.deadStorageLevel - PHYSICAL_MARGIN_M) {
+    issues.push({
+      code: 'BELOW_PHYSICAL_RANGE',
+      message: `${level} m is more than ${PHYSICAL_MARGIN_M} m below dead storage (${reservoir.deadStorageLevel} m)`,
+      blocking: false
+    });
+  } else if (level > crest + PHYSICAL_MARGIN_M) {
+    issues.push({
+      code: 'ABOVE_PHYSICAL_RANGE',
+      message: `${level} m is more than ${PHYSICAL_MARGIN_M} m above the spill crest (${crest} m)`,
+      blocking: false
+    });
+  }
+
+  const earlier = history
+    .filter(e => !e.deletedAt && e.reservoirId === reservoir.id && e.timestamp < candidate.timestamp)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const previous = earlier[0];
+  if (previous) {
+    const elapsed = candidate.timestamp - previous.timestamp;
+    const change = level - previous.waterLevel;
+    const allowed = Math.max(MIN_ALLOWED_CHANGE_M, MAX_RATE_M_PER_HOUR * (elapsed / HOUR_MS));
+    if (Math.abs(change) > allowed) {
+      issues.push({
+        code: 'RATE_OF_CHANGE',
+        message: `${change > 0 ? 'Rise' : 'Fall'} of ${Math.abs(change).toFixed(2)} m in ${formatHours(elapsed)} since the last reading (${previous.waterLevel} m); at most ${allowed.toFixed(2)} m is plausible`,
+        blocking: false
+      });
+    }
+  }
+
+  const recent = earlier.filter(e => candidate.timestamp - e.timestamp <= HISTORY_WINDOW_MS).map(e => e.waterLevel);
+  if (recent.length >= MIN_HISTORY_FOR_OUTLIERS) {
+    const center = median(recent);
+    // 1.4826 scales the median absolute deviation to a standard deviation for normal data
+    const spread = 1.4826 * median(recent.map(v => Math.abs(v - center)));
+    const deviation = Math.abs(level - center);
+    if (deviation > MIN_OUTLIER_DEVIATION_M && (spread === 0 || deviation / spread > OUTLIER_Z)) {
+      issues.push({
+        code: 'STATISTICAL_OUTLIER',
+        message: `${level} m is far from the recent median of ${center.toFixed(2)} m (${recent.length} readings in the last ${formatHours(HISTORY_WINDOW_MS)})`,
+        blocking: false
+      });
+    }
+  }
+
+  if (gaugeReading?.verdict === 'MISMATCH') {
+    issues.push({
+      code: 'GAUGE_MISMATCH',
+      message: `Gauge photo reads ${gaugeReading.value} m`,
+      blocking: false
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * The non-blocking issues, as flags to store on the entry.
+ */
+export const toQualityFlags = (issues: ValidationIssue[], now: number = Date.now()): QualityFlag[] =>
+  issues.filter(i => !i.blocking).map(i => ({ code: i.code, message: i.message, raisedAt: now }));
+
+export const openQualityFlags = (entry: ReservoirEntry): QualityFlag[] =>
+  (entry.qualityFlags || []).filter(f => !f.clearedAt);
+
+/**
+ * Mark every open flag as reviewed.
+ */
+export const clearQualityFlags = (flags: QualityFlag[], reviewer: { id: string, name: string }, note: string, now: number = Date.now()): QualityFlag[] =>
+  flags.map(f => (f.clearedAt ? f : { ...f, clearedBy: reviewer.name, clearedById: reviewer.id, clearedAt: now, reviewNote: note }));
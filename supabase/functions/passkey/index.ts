@@ -0,0 +1,372 @@
+// Passkey (WebAuthn) registration and sign-in for officer devices.
+//
+// Actions (POST JSON { action, ...body }):
+//   register-options  { name }                  -> { challengeId, options }
+//   register-verify   { challengeId, credential, deviceName } -> { credentialId, tokenHash }
+//   login-options     { credentialIds? }        -> { challengeId, options }
+//   login-verify      { challengeId, credential } -> { ticketId, credentialId, pinRequired, lockedUntil? }
+//   revoke            { credentialId }          -> { revoked: true }
+//   attempt-status    { ticketId }              -> { pinRequired, lockedUntil? }
+//   record-face       { ticketId, matched, score, threshold, matcher } -> { pinRequired, lockedUntil?, credentialId?, tokenHash? }
+//   verify-pin        { ticketId, pin }         -> { matched, pinRequired, lockedUntil?, credentialId?, tokenHash? }
+//   set-pin           { pin }                   -> { saved: true }
+//
+// Signing in takes two steps. login-verify checks the passkey and hands out a single-use
+// login ticket; the session is only issued against that ticket once the face or PIN check
+// passes, so a client cannot skip the face check, and only the holder of the passkey can
+// record attempts for its officer. Face matching runs on the device, so a reported match is
+// trusted for that one ticket but never resets the limits: MAX_FACE_FAILURES mismatches
+// within FACE_FAILURE_WINDOW_MS require the PIN, MAX_PIN_FAILURES wrong PINs lock the officer
+// out for PIN_LOCKOUT_MS, and only a correct PIN clears them. The PIN hash never leaves the server.
+//
+// tokenHash is a one-time magic-link token the client exchanges for a session with
+// supabase.auth.verifyOtp, so no password ever exists on the device.
+//
+// Requires WEBAUTHN_RP_ID (e.g. reservoir.example.lk) and WEBAUTHN_ORIGIN (https://reservoir.example.lk).
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from 'npm:@simplewebauthn/server@10';
+import { isoBase64URL } from 'npm:@simplewebauthn/server@10/helpers';
+
+const RP_NAME = 'LankaReservoir Watch';
+const RP_ID = Deno.env.get('WEBAUTHN_RP_ID')!;
+const ORIGIN = Deno.env.get('WEBAUTHN_ORIGIN')!;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const MAX_FACE_FAILURES = 3;
+const FACE_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+const PIN_PATTERN = /^\d{4,8}$/;
+const PBKDF2_ITERATIONS = 210000;
+
+const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const getCaller = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const { data } = await admin.auth.getUser(token);
+  return data.user ?? null;
+};
+
+const saveChallenge = async (row: Record<string, unknown>) => {
+  const { data, error } = await admin
+    .from('webauthn_challenges')
+    .insert([{ ...row, expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString() }])
+    .select('id')
+    .single();
+  if (error) throw new HttpError(500, error.message);
+  return data.id as string;
+};
+
+// Challenges are single use: consumed whether or not verification succeeds
+const takeChallenge = async (id: string, kind: 'registration' | 'authentication' | 'login') => {
+  const { data, error } = await admin.from('webauthn_challenges').delete().eq('id', id).eq('kind', kind).select('*').single();
+  if (error || !data) throw new HttpError(400, 'Unknown or expired challenge');
+  if (new Date(data.expires_at).getTime() < Date.now()) throw new HttpError(400, 'Challenge expired');
+  return data;
+};
+
+// A login ticket outlives failed face and PIN attempts; it is consumed by the one that passes
+const loginTicket = async (id: unknown) => {
+  const { data } = await admin.from('webauthn_challenges').select('*').eq('id', id).eq('kind', 'login').single();
+  if (!data || new Date(data.expires_at).getTime() < Date.now()) {
+    throw new HttpError(401, 'Sign-in expired. Unlock with your passkey again.');
+  }
+  return data;
+};
+
+const issueSessionToken = async (userId: string) => {
+  const { data: userData, error: userError } = await admin.auth.admin.getUserById(userId);
+  if (userError || !userData.user?.email) throw new HttpError(500, 'User not found');
+  const { data, error } = await admin.auth.admin.generateLink({ type: 'magiclink', email: userData.user.email });
+  if (error) throw new HttpError(500, error.message);
+  return data.properties.hashed_token;
+};
+
+const registerOptions = async (req: Request, body: any) => {
+  const caller = await getCaller(req);
+  // Signed-in officers add another device to their own account; otherwise this is a new enrollee
+  const userId = caller?.id ?? crypto.randomUUID();
+  const name = caller?.user_metadata?.name ?? String(body.name || '').trim();
+  if (!name) throw new HttpError(400, 'Name is required');
+
+  const { data: existing } = caller
+    ? await admin.from('user_passkeys').select('credential_id').eq('user_id', caller.id).is('revoked_at', null)
+    : { data: [] };
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userName: name,
+    userID: new TextEncoder().encode(userId),
+    attestationType: 'none',
+    excludeCredentials: (existing ?? []).map((c: any) => ({ id: c.credential_id })),
+    authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+  });
+
+  const challengeId = await saveChallenge({
+    kind: 'registration',
+    challenge: options.challenge,
+    user_id: caller?.id ?? null,
+    name,
+  });
+  return { challengeId, options };
+};
+
+const registerVerify = async (body: any) => {
+  const challenge = await takeChallenge(body.challengeId, 'registration');
+  const verification = await verifyRegistrationResponse({
+    response: body.credential,
+    expectedChallenge: challenge.challenge,
+    expectedOrigin: ORIGIN,
+    expectedRPID: RP_ID,
+    requireUserVerification: true,
+  });
+  if (!verification.verified || !verification.registrationInfo) throw new HttpError(401, 'Passkey registration failed');
+
+  let userId: string = challenge.user_id;
+  if (!userId) {
+    // No role in metadata: the profile trigger starts every enrollee as a pending DATA_ENTRY_WORKER
+    const { data, error } = await admin.auth.admin.createUser({
+      email: `officer.${crypto.randomUUID()}@lankareservoir.secure`,
+      email_confirm: true,
+      user_metadata: {
+        name: challenge.name,
+        avatar_url: `https://ui-avatars.com/api/?name=${encodeURIComponent(challenge.name)}&background=random`,
+      },
+    });
+    if (error || !data.user) throw new HttpError(500, error?.message || 'User creation failed');
+    userId = data.user.id;
+  }
+
+  const { credentialID, credentialPublicKey, counter } = verification.registrationInfo;
+  const { error } = await admin.from('user_passkeys').insert([{
+    credential_id: credentialID,
+    user_id: userId,
+    public_key: isoBase64URL.fromBuffer(credentialPublicKey),
+    counter,
+    transports: body.credential.response?.transports ?? [],
+    device_name: String(body.deviceName || 'Unnamed device').slice(0, 80),
+  }]);
+  if (error) throw new HttpError(500, error.message);
+
+  return { credentialId: credentialID, tokenHash: await issueSessionToken(userId) };
+};
+
+// Derived from the recent failures since the officer's last correct PIN. A face match is
+// reported by the device, so it does not clear anything.
+const attemptStatus = async (userId: string) => {
+  const since = new Date(Date.now() - Math.max(FACE_FAILURE_WINDOW_MS, PIN_LOCKOUT_MS)).toISOString();
+  const { data, error } = await admin
+    .from('face_match_audit')
+    .select('method, matched, attempted_at')
+    .eq('user_id', userId)
+    .gte('attempted_at', since)
+    .order('attempted_at', { ascending: false })
+    .limit(100);
+  if (error) throw new HttpError(500, error.message);
+
+  const rows = data ?? [];
+  const lastPin = rows.findIndex((r: any) => r.method === 'PIN' && r.matched);
+  const failures = (lastPin === -1 ? rows : rows.slice(0, lastPin)).filter((r: any) => !r.matched);
+  const within = (r: any, ms: number) => Date.now() - new Date(r.attempted_at).getTime() < ms;
+  const faceFailures = failures.filter((r: any) => r.method === 'FACE' && within(r, FACE_FAILURE_WINDOW_MS));
+  const pinFailures = failures.filter((r: any) => r.method === 'PIN' && within(r, PIN_LOCKOUT_MS));
+  const lockedUntil = pinFailures.length >= MAX_PIN_FAILURES
+    ? new Date(pinFailures[0].attempted_at).getTime() + PIN_LOCKOUT_MS
+    : undefined;
+  return { pinRequired: faceFailures.length >= MAX_FACE_FAILURES, lockedUntil };
+};
+
+const redeemTicket = async (ticket: any) => {
+  await takeChallenge(ticket.id, 'login');
+  return { credentialId: ticket.credential_id as string, tokenHash: await issueSessionToken(ticket.user_id) };
+};
+
+const recordAttempt = async (userId: string, row: Record<string, unknown>) => {
+  const { error } = await admin
+    .from('face_match_audit')
+    .insert([{ ...row, user_id: userId, attempted_at: new Date().toISOString() }]);
+  if (error) throw new HttpError(500, error.message);
+};
+
+const lockedOut = (lockedUntil: number) =>
+  new HttpError(429, `Too many incorrect PINs. Try again after ${new Date(lockedUntil).toISOString().slice(11, 16)} UTC.`);
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return isoBase64URL.fromBuffer(new Uint8Array(bits));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const recordFace = async (body: any) => {
+  const ticket = await loginTicket(body.ticketId);
+  const matched = body.matched === true;
+  await recordAttempt(ticket.user_id, {
+    method: 'FACE',
+    matched,
+    score: typeof body.score === 'number' ? body.score : null,
+    threshold: typeof body.threshold === 'number' ? body.threshold : null,
+    matcher: typeof body.matcher === 'string' ? body.matcher.slice(0, 80) : null,
+  });
+  const status = await attemptStatus(ticket.user_id);
+  if (!matched || status.pinRequired || status.lockedUntil) return status;
+  return { ...status, ...(await redeemTicket(ticket)) };
+};
+
+const verifyPin = async (body: any) => {
+  const ticket = await loginTicket(body.ticketId);
+  const userId: string = ticket.user_id;
+  const status = await attemptStatus(userId);
+  if (status.lockedUntil) throw lockedOut(status.lockedUntil);
+
+  const { data: stored } = await admin.from('login_pins').select('*').eq('user_id', userId).single();
+  if (!stored) throw new HttpError(404, 'No PIN is set for this officer. Sign in with your password and re-enroll this device.');
+
+  const hash = await hashPin(String(body.pin ?? ''), isoBase64URL.toBuffer(stored.salt), stored.iterations);
+  const matched = timingSafeEqual(hash, stored.hash);
+  await recordAttempt(userId, { method: 'PIN', matched });
+  const after = { matched, ...(await attemptStatus(userId)) };
+  return matched ? { ...after, ...(await redeemTicket(ticket)) } : after;
+};
+
+const setPin = async (req: Request, body: any) => {
+  const caller = await getCaller(req);
+  if (!caller) throw new HttpError(401, 'Sign in required');
+  const pin = String(body.pin ?? '');
+  if (!PIN_PATTERN.test(pin)) throw new HttpError(400, 'PIN must be 4 to 8 digits');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const { error } = await admin.from('login_pins').upsert([{
+    user_id: caller.id,
+    salt: isoBase64URL.fromBuffer(salt),
+    hash: await hashPin(pin, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    updated_at: new Date().toISOString(),
+  }]);
+  if (error) throw new HttpError(500, error.message);
+  return { saved: true };
+};
+
+const loginOptions = async (body: any) => {
+  const ids: string[] = Array.isArray(body.credentialIds) ? body.credentialIds : [];
+  const options = await generateAuthenticationOptions({
+    rpID: RP_ID,
+    userVerification: 'required',
+    allowCredentials: ids.map(id => ({ id })),
+  });
+  const challengeId = await saveChallenge({ kind: 'authentication', challenge: options.challenge });
+  return { challengeId, options };
+};
+
+const loginVerify = async (body: any) => {
+  const challenge = await takeChallenge(body.challengeId, 'authentication');
+  const { data: passkey } = await admin
+    .from('user_passkeys')
+    .select('*')
+    .eq('credential_id', body.credential?.id)
+    .is('revoked_at', null)
+    .single();
+  if (!passkey) throw new HttpError(401, 'This passkey is not registered or has been revoked');
+
+  const verification = await verifyAuthenticationResponse({
+    response: body.credential,
+    expectedChallenge: challenge.challenge,
+    expectedOrigin: ORIGIN,
+    expectedRPID: RP_ID,
+    requireUserVerification: true,
+    authenticator: {
+      credentialID: passkey.credential_id,
+      credentialPublicKey: isoBase64URL.toBuffer(passkey.public_key),
+      counter: passkey.counter,
+      transports: passkey.transports,
+    },
+  });
+  if (!verification.verified) throw new HttpError(401, 'Passkey verification failed');
+
+  await admin
+    .from('user_passkeys')
+    .update({ counter: verification.authenticationInfo.newCounter, last_used_at: new Date().toISOString() })
+    .eq('credential_id', passkey.credential_id);
+
+  const status = await attemptStatus(passkey.user_id);
+  if (status.lockedUntil) throw lockedOut(status.lockedUntil);
+  // No session yet: it is issued by record-face or verify-pin against this ticket
+  const ticketId = await saveChallenge({
+    kind: 'login',
+    challenge: challenge.challenge,
+    user_id: passkey.user_id,
+    credential_id: passkey.credential_id,
+  });
+  return { ticketId, credentialId: passkey.credential_id, ...status };
+};
+
+const revoke = async (req: Request, body: any) => {
+  const caller = await getCaller(req);
+  if (!caller) throw new HttpError(401, 'Sign in required');
+
+  const { data: passkey } = await admin.from('user_passkeys').select('user_id').eq('credential_id', body.credentialId).single();
+  if (!passkey) throw new HttpError(404, 'Passkey not found');
+
+  if (passkey.user_id !== caller.id) {
+    const { data: profile } = await admin.from('profiles').select('role').eq('id', caller.id).single();
+    if (profile?.role !== 'SUPER_ADMIN') throw new HttpError(403, 'Not allowed to revoke this passkey');
+  }
+
+  const { error } = await admin
+    .from('user_passkeys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('credential_id', body.credentialId);
+  if (error) throw new HttpError(500, error.message);
+  return { revoked: true };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const { action, ...body } = await req.json();
+    switch (action) {
+      case 'register-options': return json(await registerOptions(req, body));
+      case 'register-verify': return json(await registerVerify(body));
+      case 'login-options': return json(await loginOptions(body));
+      case 'login-verify': return json(await loginVerify(body));
+      case 'revoke': return json(await revoke(req, body));
+      case 'attempt-status': return json(await attemptStatus((await loginTicket(body.ticketId)).user_id));
+      case 'record-face': return json(await recordFace(body));
+      case 'verify-pin': return json(await verifyPin(body));
+      case 'set-pin': return json(await setPin(req, body));
+      default: throw new HttpError(400, `Unknown action: ${action}`);
+    }
+  } catch (e) {
+    const status = e instanceof HttpError ? e.status : 500;
+    return json({ error: e instanceof Error ? e.message : 'Unknown error' }, status);
+  }
+});
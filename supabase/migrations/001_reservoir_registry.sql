@@ -0,0 +1,40 @@
+-- Master reservoir registry.
+-- Every reading in reservoir_entries references a row here via reservoir_id.
+
+create table if not exists public.reservoirs (
+  id text primary key,
+  name text not null unique,
+  district text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  full_supply_level double precision not null,
+  dead_storage_level double precision not null,
+  gross_capacity double precision not null
+);
+
+alter table public.reservoirs enable row level security;
+
+drop policy if exists "Reservoirs are readable by authenticated users" on public.reservoirs;
+create policy "Reservoirs are readable by authenticated users"
+  on public.reservoirs for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Reservoirs are managed by admins" on public.reservoirs;
+create policy "Reservoirs are managed by admins"
+  on public.reservoirs for all
+  to authenticated
+  using (exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role in ('ADMIN', 'SUPER_ADMIN')
+  ))
+  with check (exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role in ('ADMIN', 'SUPER_ADMIN')
+  ));
+
+alter table public.reservoir_entries
+  add column if not exists reservoir_id text references public.reservoirs (id);
+
+create index if not exists reservoir_entries_reservoir_id_idx
+  on public.reservoir_entries (reservoir_id, timestamp desc);
@@ -0,0 +1,10 @@
+-- Stored geofences for the deterministic location check.
+-- geofence_polygon is a JSON array of { "latitude": ..., "longitude": ... } points around the bund.
+
+alter table public.reservoirs
+  add column if not exists geofence_polygon jsonb,
+  add column if not exists geofence_buffer double precision;
+
+alter table public.reservoir_entries
+  add column if not exists geofence_distance double precision,
+  add column if not exists gps_accuracy double precision;
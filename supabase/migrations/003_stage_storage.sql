@@ -0,0 +1,11 @@
+-- Stage-storage tables and status thresholds per reservoir.
+-- stage_storage: JSON array of { "level": m, "volume": MCM }.
+-- thresholds: { "spillCrestLevel", "floodWarningLevel", "lowStorageWarningLevel", "minimumOperatingLevel" } in m.
+
+alter table public.reservoirs
+  add column if not exists stage_storage jsonb,
+  add column if not exists thresholds jsonb;
+
+alter table public.reservoir_entries
+  add column if not exists storage_volume double precision,
+  add column if not exists is_manual_override boolean not null default false;
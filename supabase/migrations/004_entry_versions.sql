@@ -0,0 +1,6 @@
+-- Version stamp used to detect conflicting offline edits.
+
+alter table public.reservoir_entries
+  add column if not exists updated_at bigint;
+
+update public.reservoir_entries set updated_at = timestamp where updated_at is null;
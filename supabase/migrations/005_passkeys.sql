@@ -0,0 +1,40 @@
+-- WebAuthn passkeys bound to user profiles. Written only by the `passkey` edge function
+-- (service role); officers can list their own devices, SUPER_ADMIN can list all.
+
+create table if not exists public.user_passkeys (
+  credential_id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  public_key text not null,
+  counter bigint not null default 0,
+  transports text[] not null default '{}',
+  device_name text not null default 'Unnamed device',
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists user_passkeys_user_id_idx on public.user_passkeys (user_id);
+
+alter table public.user_passkeys enable row level security;
+
+drop policy if exists "Officers can see their own passkeys" on public.user_passkeys;
+create policy "Officers can see their own passkeys"
+  on public.user_passkeys for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'SUPER_ADMIN')
+  );
+
+-- Pending WebAuthn ceremonies. No client policies: service role only.
+create table if not exists public.webauthn_challenges (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('registration', 'authentication')),
+  challenge text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  name text,
+  role text,
+  expires_at timestamptz not null
+);
+
+alter table public.webauthn_challenges enable row level security;
@@ -0,0 +1,49 @@
+-- Face templates captured at enrollment and an audit trail of every face/PIN attempt.
+-- Matching runs on the device; the server copy lets a template be restored or reviewed.
+
+create table if not exists public.face_templates (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  matcher text not null,
+  template jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.face_templates enable row level security;
+
+drop policy if exists "Officers manage their own face template" on public.face_templates;
+create policy "Officers manage their own face template"
+  on public.face_templates for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Attempts are queued on the device and uploaded after sign-in; rows are never updated
+create table if not exists public.face_match_audit (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  method text not null check (method in ('FACE', 'PIN')),
+  matched boolean not null,
+  score double precision,
+  threshold double precision,
+  matcher text,
+  attempted_at timestamptz not null
+);
+
+create index if not exists face_match_audit_user_id_idx on public.face_match_audit (user_id, attempted_at desc);
+
+alter table public.face_match_audit enable row level security;
+
+drop policy if exists "Officers record their own attempts" on public.face_match_audit;
+create policy "Officers record their own attempts"
+  on public.face_match_audit for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Officers see their own attempts" on public.face_match_audit;
+create policy "Officers see their own attempts"
+  on public.face_match_audit for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'SUPER_ADMIN')
+  );
@@ -0,0 +1,125 @@
+-- Server-enforced roles. New accounts start as pending DATA_ENTRY_WORKERs whatever
+-- the client put in auth metadata; only a SUPER_ADMIN can activate, promote or deactivate.
+
+-- Existing accounts are backfilled as ACTIVE; the default then flips to PENDING
+alter table public.profiles
+  add column if not exists status text not null default 'ACTIVE'
+    check (status in ('PENDING', 'ACTIVE', 'DEACTIVATED')),
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists approved_by uuid references auth.users (id) on delete set null,
+  add column if not exists approved_at timestamptz;
+
+alter table public.profiles alter column status set default 'PENDING';
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, name, role, avatar_url, status)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data ->> 'name', 'Unknown User'),
+    'DATA_ENTRY_WORKER', -- never raw_user_meta_data ->> 'role'
+    new.raw_user_meta_data ->> 'avatar_url',
+    'PENDING'
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Role and status are only writable through the RPCs below (which run as the function
+-- owner) or the service role; direct updates from API clients are rejected
+create or replace function public.guard_profile_privileges()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.role is distinct from old.role
+      or new.status is distinct from old.status
+      or new.approved_by is distinct from old.approved_by
+      or new.approved_at is distinct from old.approved_at)
+     and current_user in ('authenticated', 'anon') then
+    raise exception 'Role and status can only be changed by a SUPER_ADMIN';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_privileges on public.profiles;
+create trigger guard_profile_privileges
+  before update on public.profiles
+  for each row execute function public.guard_profile_privileges();
+
+-- Security definer so profile policies can check the caller's role without recursing
+create or replace function public.is_super_admin()
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (select 1 from profiles p where p.id = auth.uid() and p.role = 'SUPER_ADMIN' and p.status = 'ACTIVE');
+$$;
+
+create or replace function public.approve_user(target_user uuid, new_role text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if not is_super_admin() then
+    raise exception 'Only a SUPER_ADMIN can approve users';
+  end if;
+  if new_role not in ('SUPER_ADMIN', 'ADMIN', 'DATA_ENTRY_WORKER') then
+    raise exception 'Unknown role %', new_role;
+  end if;
+
+  update profiles
+     set role = new_role, status = 'ACTIVE', approved_by = auth.uid(), approved_at = now()
+   where id = target_user;
+end;
+$$;
+
+create or replace function public.set_user_status(target_user uuid, new_status text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if not is_super_admin() then
+    raise exception 'Only a SUPER_ADMIN can change account status';
+  end if;
+  if target_user = auth.uid() then
+    raise exception 'You cannot change your own account status';
+  end if;
+
+  update profiles
+     set status = new_status, approved_by = auth.uid(), approved_at = now()
+   where id = target_user;
+end;
+$$;
+
+revoke all on function public.approve_user(uuid, text) from public;
+revoke all on function public.set_user_status(uuid, text) from public;
+grant execute on function public.approve_user(uuid, text) to authenticated;
+grant execute on function public.set_user_status(uuid, text) to authenticated;
+
+-- SUPER_ADMIN needs to see every profile to review pending accounts
+drop policy if exists "Super admins can see all profiles" on public.profiles;
+create policy "Super admins can see all profiles"
+  on public.profiles for select
+  to authenticated
+  using (
+    id = auth.uid()
+    or public.is_super_admin()
+  );
+
+-- The role no longer travels with the WebAuthn registration challenge
+alter table public.webauthn_challenges drop column if exists role;
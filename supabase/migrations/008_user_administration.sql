@@ -0,0 +1,90 @@
+-- User administration for SUPER_ADMIN: last login, role changes, remote enrollment reset
+-- and the reservoirs or districts each officer is assigned to.
+
+alter table public.profiles add column if not exists last_login_at timestamptz;
+
+-- Mirror auth.users.last_sign_in_at, which clients cannot read; covers password and passkey sign-in
+create or replace function public.sync_last_login()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update profiles set last_login_at = new.last_sign_in_at where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_signed_in on auth.users;
+create trigger on_auth_user_signed_in
+  after update of last_sign_in_at on auth.users
+  for each row execute function public.sync_last_login();
+
+create or replace function public.set_user_role(target_user uuid, new_role text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if not is_super_admin() then
+    raise exception 'Only a SUPER_ADMIN can change roles';
+  end if;
+  if new_role not in ('SUPER_ADMIN', 'ADMIN', 'DATA_ENTRY_WORKER') then
+    raise exception 'Unknown role %', new_role;
+  end if;
+  if target_user = auth.uid() and new_role <> 'SUPER_ADMIN' then
+    raise exception 'You cannot remove your own SUPER_ADMIN role';
+  end if;
+
+  update profiles
+     set role = new_role, approved_by = auth.uid(), approved_at = now()
+   where id = target_user;
+end;
+$$;
+
+-- Server-side counterpart of authService.resetEnrollment: the officer must enroll again
+create or replace function public.reset_user_enrollment(target_user uuid)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if not is_super_admin() then
+    raise exception 'Only a SUPER_ADMIN can reset enrollment';
+  end if;
+
+  update user_passkeys set revoked_at = now() where user_id = target_user and revoked_at is null;
+  delete from face_templates where user_id = target_user;
+end;
+$$;
+
+revoke all on function public.set_user_role(uuid, text) from public;
+revoke all on function public.reset_user_enrollment(uuid) from public;
+grant execute on function public.set_user_role(uuid, text) to authenticated;
+grant execute on function public.reset_user_enrollment(uuid) to authenticated;
+
+create table if not exists public.user_assignments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reservoir_id text references public.reservoirs (id) on delete cascade,
+  district text,
+  created_at timestamptz not null default now(),
+  check ((reservoir_id is null) <> (district is null))
+);
+
+create index if not exists user_assignments_user_id_idx on public.user_assignments (user_id);
+
+alter table public.user_assignments enable row level security;
+
+drop policy if exists "Officers see their own assignments" on public.user_assignments;
+create policy "Officers see their own assignments"
+  on public.user_assignments for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_super_admin());
+
+drop policy if exists "Super admins manage assignments" on public.user_assignments;
+create policy "Super admins manage assignments"
+  on public.user_assignments for all
+  to authenticated
+  using (public.is_super_admin())
+  with check (public.is_super_admin());
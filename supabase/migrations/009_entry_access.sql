@@ -0,0 +1,85 @@
+-- Row-level access to readings based on user_assignments (008).
+-- Mirrored client-side by services/permissionService.ts; keep the two in sync.
+--   SUPER_ADMIN        read / write / delete everything
+--   ADMIN              read and delete within assigned reservoirs/districts
+--   DATA_ENTRY_WORKER  read and submit within assigned reservoirs/districts
+-- Deactivated and pending accounts get nothing.
+
+alter table public.reservoir_entries
+  add column if not exists submitted_by_id uuid references auth.users (id) on delete set null default auth.uid();
+
+create or replace function public.current_role_if_active()
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select role from profiles where id = auth.uid() and status = 'ACTIVE';
+$$;
+
+create or replace function public.can_access_reservoir(target_reservoir text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select case coalesce(current_role_if_active(), '')
+    when 'SUPER_ADMIN' then true
+    when '' then false
+    else exists (
+      select 1
+        from user_assignments a
+        left join reservoirs r on r.id = target_reservoir
+       where a.user_id = auth.uid()
+         and (a.reservoir_id = target_reservoir or (a.district is not null and a.district = r.district))
+    )
+  end;
+$$;
+
+-- Replace whatever policies the original schema created (they allowed any authenticated user)
+do $$
+declare
+  policy record;
+begin
+  for policy in select policyname from pg_policies where schemaname = 'public' and tablename = 'reservoir_entries' loop
+    execute format('drop policy %I on public.reservoir_entries', policy.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.reservoir_entries enable row level security;
+
+create policy "Entries are readable within scope"
+  on public.reservoir_entries for select
+  to authenticated
+  using (
+    public.can_access_reservoir(reservoir_id)
+    or (submitted_by_id = auth.uid() and public.current_role_if_active() is not null)
+  );
+
+create policy "Workers submit within scope"
+  on public.reservoir_entries for insert
+  to authenticated
+  with check (
+    public.current_role_if_active() in ('DATA_ENTRY_WORKER', 'SUPER_ADMIN')
+    and submitted_by_id = auth.uid()
+    and public.can_access_reservoir(reservoir_id)
+  );
+
+-- Outbox replays upsert, so submitters may rewrite their own readings; admins resolve conflicts in scope
+create policy "Entries are updatable within scope"
+  on public.reservoir_entries for update
+  to authenticated
+  using (
+    public.can_access_reservoir(reservoir_id)
+    and (submitted_by_id = auth.uid() or public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN'))
+  )
+  with check (public.can_access_reservoir(reservoir_id));
+
+create policy "Admins delete within scope"
+  on public.reservoir_entries for delete
+  to authenticated
+  using (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(reservoir_id)
+  );
@@ -0,0 +1,76 @@
+-- Alert rules and alerts. Rules are evaluated on clients (services/alertService.ts);
+-- alert ids are deterministic so concurrent clients insert each alert once.
+
+create table if not exists public.alert_rules (
+  id text primary key,
+  reservoir_id text references public.reservoirs (id) on delete cascade, -- null: every reservoir
+  type text not null check (type in ('STATUS_CHANGE', 'LEVEL_ABOVE', 'RISE_RATE', 'NO_READING')),
+  statuses text[],
+  threshold double precision,
+  severity text not null default 'warning' check (severity in ('info', 'warning', 'critical')),
+  channels text[] not null default '{browser}',
+  enabled boolean not null default true
+);
+
+insert into public.alert_rules (id, type, statuses, severity, channels)
+values ('default-status', 'STATUS_CHANGE', '{SPILLING,CRITICAL}', 'critical', '{browser}')
+on conflict (id) do nothing;
+
+alter table public.alert_rules enable row level security;
+
+drop policy if exists "Alert rules are readable by active officers" on public.alert_rules;
+create policy "Alert rules are readable by active officers"
+  on public.alert_rules for select
+  to authenticated
+  using (public.current_role_if_active() is not null);
+
+drop policy if exists "Admins manage alert rules in scope" on public.alert_rules;
+create policy "Admins manage alert rules in scope"
+  on public.alert_rules for all
+  to authenticated
+  using (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(reservoir_id) -- null (all reservoirs) passes for SUPER_ADMIN only
+  )
+  with check (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(reservoir_id) -- null (all reservoirs) passes for SUPER_ADMIN only
+  );
+
+create table if not exists public.alerts (
+  id text primary key,
+  rule_id text not null,
+  reservoir_id text not null references public.reservoirs (id) on delete cascade,
+  type text not null,
+  severity text not null,
+  message text not null,
+  state text not null default 'OPEN' check (state in ('OPEN', 'ACKNOWLEDGED', 'RESOLVED')),
+  entry_id text,
+  opened_at timestamptz not null default now(),
+  acknowledged_at timestamptz,
+  acknowledged_by text,
+  resolved_at timestamptz
+);
+
+create index if not exists alerts_state_idx on public.alerts (state, opened_at desc);
+
+alter table public.alerts enable row level security;
+
+drop policy if exists "Alerts are visible within scope" on public.alerts;
+create policy "Alerts are visible within scope"
+  on public.alerts for select
+  to authenticated
+  using (public.can_access_reservoir(reservoir_id));
+
+drop policy if exists "Alerts are raised within scope" on public.alerts;
+create policy "Alerts are raised within scope"
+  on public.alerts for insert
+  to authenticated
+  with check (public.can_access_reservoir(reservoir_id));
+
+drop policy if exists "Alerts are handled within scope" on public.alerts;
+create policy "Alerts are handled within scope"
+  on public.alerts for update
+  to authenticated
+  using (public.can_access_reservoir(reservoir_id))
+  with check (public.can_access_reservoir(reservoir_id));
@@ -0,0 +1,15 @@
+-- Push reservoir_entries changes to dashboards (dataService.subscribeToChanges).
+-- Realtime applies the select policies from 009, so clients only receive rows in scope.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'reservoir_entries'
+  ) then
+    alter publication supabase_realtime add table public.reservoir_entries;
+  end if;
+end $$;
+
+-- Deletes carry the full old row so the client can drop it by id
+alter table public.reservoir_entries replica identity full;
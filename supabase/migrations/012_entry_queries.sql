@@ -0,0 +1,18 @@
+-- Indexes for the filtered, keyset-paginated entry list (dataService.queryEntries).
+-- Rows are ordered by (timestamp desc, id desc); reservoir filters use
+-- reservoir_entries_reservoir_id_idx from 001.
+
+create index if not exists reservoir_entries_timestamp_id_idx
+  on public.reservoir_entries (timestamp desc, id desc);
+
+create index if not exists reservoir_entries_status_idx
+  on public.reservoir_entries (status, timestamp desc);
+
+-- Substring search (ilike '%...%') on notes and reporter names
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists reservoir_entries_notes_trgm_idx
+  on public.reservoir_entries using gin (notes extensions.gin_trgm_ops);
+
+create index if not exists reservoir_entries_submitted_by_trgm_idx
+  on public.reservoir_entries using gin (submitted_by extensions.gin_trgm_ops);
@@ -0,0 +1,25 @@
+-- Bulk CSV imports (components/ImportWizard.tsx). Imported rows are never field-verified
+-- and are attributed to the admin who committed them.
+
+alter table public.reservoir_entries
+  add column if not exists source text not null default 'FIELD' check (source in ('FIELD', 'IMPORT')),
+  add column if not exists import_batch_id uuid;
+
+alter table public.reservoir_entries drop constraint if exists reservoir_entries_import_unverified;
+alter table public.reservoir_entries
+  add constraint reservoir_entries_import_unverified check (source <> 'IMPORT' or is_verified = false);
+
+create index if not exists reservoir_entries_import_batch_idx
+  on public.reservoir_entries (import_batch_id) where import_batch_id is not null;
+
+-- Admins cannot submit field readings (009), but may import within their scope
+drop policy if exists "Admins import within scope" on public.reservoir_entries;
+create policy "Admins import within scope"
+  on public.reservoir_entries for insert
+  to authenticated
+  with check (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and source = 'IMPORT'
+    and submitted_by_id = auth.uid()
+    and public.can_access_reservoir(reservoir_id)
+  );
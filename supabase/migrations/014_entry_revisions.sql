@@ -0,0 +1,130 @@
+-- Entry corrections and soft delete (components/EntryEditForm.tsx, EntryHistoryDrawer.tsx).
+-- Every change to a reading's values is recorded in entry_revisions by trigger, so the
+-- history cannot be skipped or rewritten from the client.
+--   DATA_ENTRY_WORKER  correct own readings within 24 hours of the reading time
+--   ADMIN              correct, delete and restore within scope
+-- Mirrored client-side by permissionService.canEditEntry / canDeleteEntry.
+
+alter table public.reservoir_entries
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text,
+  add column if not exists revision_reason text;
+
+create index if not exists reservoir_entries_deleted_idx
+  on public.reservoir_entries (deleted_at desc) where deleted_at is not null;
+
+-- No foreign key: revisions outlive legacy hard deletes
+create table if not exists public.entry_revisions (
+  id uuid primary key default gen_random_uuid(),
+  entry_id text not null,
+  reservoir_id text,
+  action text not null check (action in ('CREATE', 'UPDATE', 'DELETE', 'RESTORE')),
+  changed_by_id uuid references auth.users (id) on delete set null,
+  changed_by text not null,
+  changed_at timestamptz not null default now(),
+  reason text,
+  changes jsonb not null default '{}'::jsonb
+);
+
+create index if not exists entry_revisions_entry_idx
+  on public.entry_revisions (entry_id, changed_at desc);
+
+create or replace function public.guard_entry_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon')
+     or public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN') then
+    return new;
+  end if;
+  if new.deleted_at is distinct from old.deleted_at then
+    raise exception 'Only admins can delete or restore readings';
+  end if;
+  if (new.water_level, new.capacity_percentage, new.storage_volume, new.status,
+      new.is_manual_override, new.notes, new.timestamp, new.reservoir_id)
+     is distinct from
+     (old.water_level, old.capacity_percentage, old.storage_volume, old.status,
+      old.is_manual_override, old.notes, old.timestamp, old.reservoir_id)
+     and now() - to_timestamp(old.timestamp / 1000.0) > interval '24 hours' then
+    raise exception 'Readings can only be corrected within 24 hours; ask an admin';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_entry_edit on public.reservoir_entries;
+create trigger guard_entry_edit
+  before update on public.reservoir_entries
+  for each row execute function public.guard_entry_edit();
+
+-- Security definer so the trigger can write revisions the caller cannot insert directly
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  tracked text[] := array['reservoir_id', 'water_level', 'capacity_percentage', 'storage_volume', 'status',
+                          'is_manual_override', 'notes', 'timestamp', 'deleted_at'];
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  col text;
+  revision_action text;
+  actor text := coalesce((select name from profiles where id = auth.uid()), 'System');
+begin
+  if tg_op = 'INSERT' then
+    revision_action := 'CREATE';
+  elsif tg_op = 'DELETE' then
+    revision_action := 'DELETE';
+  else
+    foreach col in array tracked loop
+      if old_row -> col is distinct from new_row -> col then
+        diff := diff || jsonb_build_object(col, jsonb_build_object('from', old_row -> col, 'to', new_row -> col));
+      end if;
+    end loop;
+    -- Outbox replays rewrite identical values; they are not revisions
+    if diff = '{}'::jsonb then
+      return new;
+    end if;
+    revision_action := case
+      when old.deleted_at is null and new.deleted_at is not null then 'DELETE'
+      when old.deleted_at is not null and new.deleted_at is null then 'RESTORE'
+      else 'UPDATE'
+    end;
+  end if;
+
+  insert into entry_revisions (entry_id, reservoir_id, action, changed_by_id, changed_by, reason, changes)
+  values (
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    coalesce(new_row ->> 'reservoir_id', old_row ->> 'reservoir_id'),
+    revision_action,
+    auth.uid(),
+    actor,
+    case when tg_op = 'UPDATE' then new.revision_reason end,
+    diff
+  );
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists record_entry_revision on public.reservoir_entries;
+create trigger record_entry_revision
+  after insert or update or delete on public.reservoir_entries
+  for each row execute function public.record_entry_revision();
+
+alter table public.entry_revisions enable row level security;
+
+-- Read-only for clients; rows are only written by record_entry_revision()
+drop policy if exists "Revisions are readable within scope" on public.entry_revisions;
+create policy "Revisions are readable within scope"
+  on public.entry_revisions for select
+  to authenticated
+  using (
+    public.can_access_reservoir(reservoir_id)
+    or exists (
+      select 1 from public.reservoir_entries e
+       where e.id::text = entry_id and e.submitted_by_id = auth.uid()
+    )
+  );
@@ -0,0 +1,242 @@
+-- Append-only, hash-chained audit log (components/AuditLogViewer.tsx). Every event is written
+-- by a trigger on the table where the action happens, so clients cannot skip or forge them.
+-- Each row's hash covers its own fields and the previous row's hash; editing or deleting any
+-- row breaks the chain from that point (verified client-side by auditService.verifyChain).
+
+create table if not exists public.audit_log (
+  seq bigint primary key, -- Gapless: a missing number means a deleted row
+  occurred_at timestamptz not null,
+  actor_id uuid,
+  actor_name text not null,
+  action text not null,
+  target_type text,
+  target_id text,
+  details text not null default '{}', -- JSON, kept as text so the hashed bytes are exactly what is stored
+  prev_hash text not null,
+  hash text not null unique
+);
+
+create index if not exists audit_log_occurred_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_action_idx on public.audit_log (action, seq desc);
+create index if not exists audit_log_target_idx on public.audit_log (target_id, seq desc);
+
+-- Must match hashAuditEvent in services/auditService.ts
+create or replace function public.audit_event_hash(
+  seq bigint, occurred_at timestamptz, actor_id uuid, actor_name text, action text,
+  target_type text, target_id text, details text, prev_hash text
+)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(concat_ws(E'\n',
+    seq::text,
+    (extract(epoch from occurred_at) * 1000)::bigint::text,
+    coalesce(actor_id::text, ''),
+    actor_name,
+    action,
+    coalesce(target_type, ''),
+    coalesce(target_id, ''),
+    details,
+    prev_hash
+  ), 'UTF8')), 'hex');
+$$;
+
+create or replace function public.append_audit_event(
+  p_action text,
+  p_target_type text,
+  p_target_id text,
+  p_details jsonb,
+  p_actor_id uuid default auth.uid(),
+  p_actor_name text default null
+)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  last_row audit_log%rowtype;
+  next_seq bigint;
+  prev text;
+  occurred timestamptz := date_trunc('milliseconds', clock_timestamp());
+  actor text := coalesce(p_actor_name, (select name from profiles where id = p_actor_id), 'System');
+  details_text text := coalesce(p_details, '{}'::jsonb)::text;
+begin
+  -- Serialise appends so each row links to the one before it
+  perform pg_advisory_xact_lock(hashtext('public.audit_log'));
+  select * into last_row from audit_log order by seq desc limit 1;
+  next_seq := coalesce(last_row.seq, 0) + 1;
+  prev := coalesce(last_row.hash, repeat('0', 64));
+
+  insert into audit_log (seq, occurred_at, actor_id, actor_name, action, target_type, target_id, details, prev_hash, hash)
+  values (
+    next_seq, occurred, p_actor_id, actor, p_action, p_target_type, p_target_id, details_text, prev,
+    audit_event_hash(next_seq, occurred, p_actor_id, actor, p_action, p_target_type, p_target_id, details_text, prev)
+  );
+end;
+$$;
+
+revoke all on function public.append_audit_event(text, text, text, jsonb, uuid, text) from public;
+
+create or replace function public.reject_audit_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.reject_audit_change();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement execute function public.reject_audit_change();
+
+alter table public.audit_log enable row level security;
+
+-- Read-only, and only for SUPER_ADMIN; there are no insert, update or delete policies
+drop policy if exists "Super admins read the audit log" on public.audit_log;
+create policy "Super admins read the audit log"
+  on public.audit_log for select
+  to authenticated
+  using (public.is_super_admin());
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+-- Entry create / edit / delete / restore, via the revisions written in 014
+create or replace function public.audit_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  perform append_audit_event(
+    'ENTRY_' || new.action, 'ENTRY', new.entry_id,
+    jsonb_build_object('reservoirId', new.reservoir_id, 'reason', new.reason, 'changes', new.changes),
+    new.changed_by_id, new.changed_by
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_entry_revision on public.entry_revisions;
+create trigger audit_entry_revision
+  after insert on public.entry_revisions
+  for each row execute function public.audit_entry_revision();
+
+-- Role and account status changes (approve_user, set_user_role, set_user_status)
+create or replace function public.audit_profile_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.role is distinct from old.role then
+    perform append_audit_event('ROLE_CHANGE', 'USER', new.id::text,
+      jsonb_build_object('name', new.name, 'from', old.role, 'to', new.role));
+  end if;
+  if new.status is distinct from old.status then
+    perform append_audit_event('STATUS_CHANGE', 'USER', new.id::text,
+      jsonb_build_object('name', new.name, 'from', old.status, 'to', new.status));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_profile_change on public.profiles;
+create trigger audit_profile_change
+  after update of role, status on public.profiles
+  for each row execute function public.audit_profile_change();
+
+-- Passkeys are written by the edge function (no auth.uid()); attribute them to the officer
+create or replace function public.audit_passkey_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform append_audit_event('DEVICE_ENROLL', 'USER', new.user_id::text,
+      jsonb_build_object('credentialId', new.credential_id, 'device', new.device_name),
+      coalesce(auth.uid(), new.user_id));
+  elsif new.revoked_at is not null and old.revoked_at is null then
+    perform append_audit_event('DEVICE_REVOKE', 'USER', new.user_id::text,
+      jsonb_build_object('credentialId', new.credential_id, 'device', new.device_name),
+      coalesce(auth.uid(), new.user_id));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_passkey_change on public.user_passkeys;
+create trigger audit_passkey_change
+  after insert or update of revoked_at on public.user_passkeys
+  for each row execute function public.audit_passkey_change();
+
+create or replace function public.audit_face_template()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform append_audit_event('FACE_TEMPLATE_DELETE', 'USER', old.user_id::text, '{}'::jsonb);
+    return old;
+  end if;
+  perform append_audit_event('FACE_ENROLL', 'USER', new.user_id::text, jsonb_build_object('matcher', new.matcher));
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_face_template on public.face_templates;
+create trigger audit_face_template
+  after insert or update or delete on public.face_templates
+  for each row execute function public.audit_face_template();
+
+-- Face and PIN attempts are queued on the device and arrive after the next sign-in (006)
+create or replace function public.audit_face_attempt()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  perform append_audit_event(
+    new.method || case when new.matched then '_LOGIN_SUCCESS' else '_LOGIN_FAILURE' end,
+    'USER', new.user_id::text,
+    jsonb_strip_nulls(jsonb_build_object(
+      'attemptedAt', new.attempted_at, 'score', new.score, 'threshold', new.threshold, 'matcher', new.matcher
+    )),
+    new.user_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_face_attempt on public.face_match_audit;
+create trigger audit_face_attempt
+  after insert on public.face_match_audit
+  for each row execute function public.audit_face_attempt();
+
+-- Password and passkey sign-ins both update auth.users.last_sign_in_at
+create or replace function public.audit_sign_in()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.last_sign_in_at is distinct from old.last_sign_in_at then
+    perform append_audit_event('SIGN_IN', 'USER', new.id::text, '{}'::jsonb, new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_signed_in_audit on auth.users;
+create trigger on_auth_user_signed_in_audit
+  after update of last_sign_in_at on auth.users
+  for each row execute function public.audit_sign_in();
@@ -0,0 +1,51 @@
+-- Gauge photo evidence (services/photoService.ts). Images live in the private entry-photos
+-- bucket under <reservoir_id>/<photo_id>.jpg; the reading keeps their metadata in `photos`.
+-- Uploaded photos are never overwritten or deleted by clients.
+
+alter table public.reservoir_entries
+  add column if not exists photos jsonb not null default '[]'::jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('entry-photos', 'entry-photos', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Entry photos are readable within scope" on storage.objects;
+create policy "Entry photos are readable within scope"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'entry-photos'
+    and (public.can_access_reservoir((storage.foldername(name))[1]) or owner = auth.uid())
+  );
+
+-- Same roles as the 009 insert policy on readings
+drop policy if exists "Workers upload entry photos within scope" on storage.objects;
+create policy "Workers upload entry photos within scope"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'entry-photos'
+    and public.current_role_if_active() in ('DATA_ENTRY_WORKER', 'SUPER_ADMIN')
+    and public.can_access_reservoir((storage.foldername(name))[1])
+  );
+
+-- Once a reading has photos, only admins may change the list (outbox replays send it unchanged)
+create or replace function public.guard_entry_photos()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.photos <> '[]'::jsonb
+     and new.photos is distinct from old.photos
+     and current_user in ('authenticated', 'anon')
+     and coalesce(public.current_role_if_active(), '') not in ('ADMIN', 'SUPER_ADMIN') then
+    raise exception 'Photos attached to a reading cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_entry_photos on public.reservoir_entries;
+create trigger guard_entry_photos
+  before update on public.reservoir_entries
+  for each row execute function public.guard_entry_photos();
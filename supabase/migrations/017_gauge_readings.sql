@@ -0,0 +1,9 @@
+-- Gauge level read from the entry's photo (services/gaugeReadingService.ts) and its
+-- comparison with the typed level. MISMATCH readings are kept but flagged for review.
+
+alter table public.reservoir_entries
+  add column if not exists gauge_reading jsonb;
+
+create index if not exists reservoir_entries_gauge_mismatch_idx
+  on public.reservoir_entries (timestamp desc)
+  where gauge_reading ->> 'verdict' = 'MISMATCH';
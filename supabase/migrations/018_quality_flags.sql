@@ -0,0 +1,94 @@
+-- Quality flags raised when a reading fails validation (services/validationService.ts) and
+-- is submitted anyway. Flags are kept after review, with the reviewer and note; clearing
+-- them is an admin decision and shows in the reading's revision history and the audit log.
+
+alter table public.reservoir_entries
+  add column if not exists quality_flags jsonb not null default '[]'::jsonb;
+
+-- For the "Needs review" filter: any flag not yet cleared
+alter table public.reservoir_entries
+  add column if not exists has_open_flags boolean
+  generated always as (jsonb_path_exists(quality_flags, '$[*] ? (!exists(@.clearedAt))')) stored;
+
+create index if not exists reservoir_entries_open_flags_idx
+  on public.reservoir_entries (timestamp desc)
+  where has_open_flags;
+
+-- The hard limits the form blocks on. Not validated against existing rows, which
+-- include paper-era imports; new and updated rows are checked.
+alter table public.reservoir_entries
+  drop constraint if exists reservoir_entries_water_level_positive,
+  drop constraint if exists reservoir_entries_capacity_range;
+alter table public.reservoir_entries
+  add constraint reservoir_entries_water_level_positive check (water_level > 0) not valid,
+  add constraint reservoir_entries_capacity_range check (capacity_percentage between 0 and 100) not valid;
+
+create or replace function public.guard_entry_quality_flags()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.quality_flags is distinct from old.quality_flags
+     and current_user in ('authenticated', 'anon')
+     and coalesce(public.current_role_if_active(), '') not in ('ADMIN', 'SUPER_ADMIN') then
+    raise exception 'Only admins can review quality flags';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_entry_quality_flags on public.reservoir_entries;
+create trigger guard_entry_quality_flags
+  before update on public.reservoir_entries
+  for each row execute function public.guard_entry_quality_flags();
+
+-- As in 014, with quality_flags tracked so reviews are recorded as revisions
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  tracked text[] := array['reservoir_id', 'water_level', 'capacity_percentage', 'storage_volume', 'status',
+                          'is_manual_override', 'notes', 'timestamp', 'deleted_at', 'quality_flags'];
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  col text;
+  revision_action text;
+  actor text := coalesce((select name from profiles where id = auth.uid()), 'System');
+begin
+  if tg_op = 'INSERT' then
+    revision_action := 'CREATE';
+  elsif tg_op = 'DELETE' then
+    revision_action := 'DELETE';
+  else
+    foreach col in array tracked loop
+      if old_row -> col is distinct from new_row -> col then
+        diff := diff || jsonb_build_object(col, jsonb_build_object('from', old_row -> col, 'to', new_row -> col));
+      end if;
+    end loop;
+    -- Outbox replays rewrite identical values; they are not revisions
+    if diff = '{}'::jsonb then
+      return new;
+    end if;
+    revision_action := case
+      when old.deleted_at is null and new.deleted_at is not null then 'DELETE'
+      when old.deleted_at is not null and new.deleted_at is null then 'RESTORE'
+      else 'UPDATE'
+    end;
+  end if;
+
+  insert into entry_revisions (entry_id, reservoir_id, action, changed_by_id, changed_by, reason, changes)
+  values (
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    coalesce(new_row ->> 'reservoir_id', old_row ->> 'reservoir_id'),
+    revision_action,
+    auth.uid(),
+    actor,
+    case when tg_op = 'UPDATE' then new.revision_reason end,
+    diff
+  );
+  return coalesce(new, old);
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,157 @@
+-- Operational observations recorded with a reading (components/OperationalFields.tsx):
+-- rainfall, spill gates and flows that used to be written into notes. All optional.
+
+alter table public.reservoir_entries
+  add column if not exists rainfall_mm double precision,
+  add column if not exists gates_open integer,
+  add column if not exists gate_openings double precision[], -- meters, one per open gate
+  add column if not exists sluice_discharge double precision, -- m3/s
+  add column if not exists inflow_estimate double precision; -- m3/s
+
+alter table public.reservoir_entries
+  drop constraint if exists reservoir_entries_operations_non_negative,
+  drop constraint if exists reservoir_entries_gate_openings_count;
+alter table public.reservoir_entries
+  add constraint reservoir_entries_operations_non_negative check (
+    coalesce(rainfall_mm, 0) >= 0 and coalesce(gates_open, 0) >= 0
+    and coalesce(sluice_discharge, 0) >= 0 and coalesce(inflow_estimate, 0) >= 0
+    and 0 <= all (coalesce(gate_openings, '{}'))
+  ),
+  add constraint reservoir_entries_gate_openings_count check (
+    gate_openings is null or cardinality(gate_openings) = gates_open
+  );
+
+-- The new columns are corrected, reviewed and versioned like the level: as in 019, with them added
+
+create or replace function public.guard_entry_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon')
+     or public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN') then
+    return new;
+  end if;
+  if new.deleted_at is distinct from old.deleted_at then
+    raise exception 'Only admins can delete or restore readings';
+  end if;
+  if (new.water_level, new.capacity_percentage, new.storage_volume, new.status,
+      new.is_manual_override, new.notes, new.timestamp, new.reservoir_id,
+      new.rainfall_mm, new.gates_open, new.gate_openings, new.sluice_discharge, new.inflow_estimate)
+     is distinct from
+     (old.water_level, old.capacity_percentage, old.storage_volume, old.status,
+      old.is_manual_override, old.notes, old.timestamp, old.reservoir_id,
+      old.rainfall_mm, old.gates_open, old.gate_openings, old.sluice_discharge, old.inflow_estimate)
+     and now() - to_timestamp(old.timestamp / 1000.0) > interval '24 hours'
+     and old.review_status <> 'CORRECTION_REQUESTED' then
+    raise exception 'Readings can only be corrected within 24 hours; ask an admin';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.guard_entry_review()
+returns trigger
+language plpgsql
+as $$
+declare
+  values_changed boolean := false;
+  review_changed boolean;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- An upsert of an existing row is checked by the update that follows
+    if (new.review_status = 'PENDING' and new.reviewed_by_id is null)
+       or exists (select 1 from public.reservoir_entries where id = new.id) then
+      return new;
+    end if;
+    review_changed := true;
+  else
+    values_changed := (new.water_level, new.capacity_percentage, new.storage_volume, new.status,
+                       new.is_manual_override, new.notes, new.timestamp, new.reservoir_id,
+                       new.rainfall_mm, new.gates_open, new.gate_openings, new.sluice_discharge, new.inflow_estimate)
+                      is distinct from
+                      (old.water_level, old.capacity_percentage, old.storage_volume, old.status,
+                       old.is_manual_override, old.notes, old.timestamp, old.reservoir_id,
+                       old.rainfall_mm, old.gates_open, old.gate_openings, old.sluice_discharge, old.inflow_estimate);
+    -- A corrected reading goes back to the queue, whoever corrects it
+    if values_changed and new.reviewed_at is not distinct from old.reviewed_at then
+      new.review_status := 'PENDING';
+    end if;
+    review_changed := (new.reviewed_by_id, new.reviewed_at, new.review_comment)
+                      is distinct from (old.reviewed_by_id, old.reviewed_at, old.review_comment)
+                      or (new.review_status is distinct from old.review_status
+                          and (new.review_status <> 'PENDING' or not values_changed));
+  end if;
+
+  if not review_changed then
+    return new;
+  end if;
+  if coalesce(public.current_role_if_active(), '') not in ('ADMIN', 'SUPER_ADMIN')
+     or not public.can_access_reservoir(new.reservoir_id) then
+    raise exception 'Only admins can review readings';
+  end if;
+  if new.submitted_by_id = auth.uid() then
+    raise exception 'Readings cannot be reviewed by their submitter';
+  end if;
+  if new.reviewed_by_id is distinct from auth.uid() then
+    raise exception 'A review must be recorded under the reviewer''s own account';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  tracked text[] := array['reservoir_id', 'water_level', 'capacity_percentage', 'storage_volume', 'status',
+                          'is_manual_override', 'notes', 'timestamp', 'deleted_at', 'quality_flags',
+                          'review_status', 'review_comment', 'rainfall_mm', 'gates_open', 'gate_openings',
+                          'sluice_discharge', 'inflow_estimate'];
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  col text;
+  revision_action text;
+  actor text := coalesce((select name from profiles where id = auth.uid()), 'System');
+begin
+  if tg_op = 'INSERT' then
+    revision_action := 'CREATE';
+  elsif tg_op = 'DELETE' then
+    revision_action := 'DELETE';
+  else
+    foreach col in array tracked loop
+      if old_row -> col is distinct from new_row -> col then
+        diff := diff || jsonb_build_object(col, jsonb_build_object('from', old_row -> col, 'to', new_row -> col));
+      end if;
+    end loop;
+    -- Outbox replays rewrite identical values; they are not revisions
+    if diff = '{}'::jsonb then
+      return new;
+    end if;
+    revision_action := case
+      when old.deleted_at is null and new.deleted_at is not null then 'DELETE'
+      when old.deleted_at is not null and new.deleted_at is null then 'RESTORE'
+      else 'UPDATE'
+    end;
+  end if;
+
+  insert into entry_revisions (entry_id, reservoir_id, action, changed_by_id, changed_by, reason, changes)
+  values (
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    coalesce(new_row ->> 'reservoir_id', old_row ->> 'reservoir_id'),
+    revision_action,
+    auth.uid(),
+    actor,
+    case when tg_op = 'UPDATE' then new.revision_reason end,
+    diff
+  );
+  return coalesce(new, old);
+end;
+$$;
\ No newline at end of file
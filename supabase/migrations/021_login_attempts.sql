@@ -0,0 +1,20 @@
+-- Face/PIN attempt limits, enforced by the passkey edge function.
+-- The fallback PIN is hashed and checked server-side so it cannot be brute-forced from a
+-- copy of the device's storage, and the function records every face and PIN attempt as it
+-- happens instead of the device queueing them for upload after sign-in.
+
+create table if not exists public.login_pins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  salt text not null,
+  hash text not null, -- PBKDF2-SHA256
+  iterations integer not null,
+  updated_at timestamptz not null default now()
+);
+
+-- No policies: only the service role used by the passkey function touches PIN hashes
+alter table public.login_pins enable row level security;
+revoke all on public.login_pins from anon, authenticated;
+
+-- Attempts are no longer uploaded by the client, so it may not write them either
+drop policy if exists "Officers record their own attempts" on public.face_match_audit;
+revoke insert, update, delete on public.face_match_audit from anon, authenticated;
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Alert delivery and handling. Every client may open an alert when its evaluation finds
+-- one (services/alertService.ts), but only admins acknowledge or resolve it. Alerts are
+-- pushed over Realtime so each admin dashboard in scope raises its own browser notification.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'alerts'
+  ) then
+    alter publication supabase_realtime add table public.alerts;
+  end if;
+end $$;
+
+-- New alerts are always open; acknowledging and resolving are updates
+drop policy if exists "Alerts are raised within scope" on public.alerts;
+create policy "Alerts are raised within scope"
+  on public.alerts for insert
+  to authenticated
+  with check (
+    public.can_access_reservoir(reservoir_id)
+    and state = 'OPEN'
+    and acknowledged_at is null
+    and acknowledged_by is null
+    and resolved_at is null
+  );
+
+drop policy if exists "Alerts are handled within scope" on public.alerts;
+drop policy if exists "Admins handle alerts within scope" on public.alerts;
+create policy "Admins handle alerts within scope"
+  on public.alerts for update
+  to authenticated
+  using (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(reservoir_id)
+  )
+  with check (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(reservoir_id)
+  );
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- append_audit_event is only for the audit triggers in 015, which run as the owner.
+-- Revoking from public (015) leaves Supabase's default grants to the API roles in place,
+-- so a client could still call it over RPC and forge entries with any actor and details.
+
+revoke all on function public.append_audit_event(text, text, text, jsonb, uuid, text) from anon, authenticated;
\ No newline at end of file
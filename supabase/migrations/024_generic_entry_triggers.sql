@@ -0,0 +1,141 @@
+-- Entry guards and revisions compare whole rows instead of listing columns, so a column
+-- added to reservoir_entries is corrected, reviewed and versioned like the level without
+-- touching these triggers again (020 had to add the operational fields to all three).
+-- A column is a measured value unless it is bookkeeping below. Mirrored client-side by
+-- reviewService NON_VALUE_FIELDS.
+
+-- Everything a reading records except versioning, deletion, evidence and review state
+create or replace function public.entry_values(e public.reservoir_entries)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(e) - array[
+    'id', 'updated_at', 'revision_reason', 'deleted_at', 'deleted_by',
+    'photos', 'gauge_reading', 'quality_flags', 'has_open_flags',
+    'review_status', 'reviewed_by', 'reviewed_by_id', 'reviewed_at', 'review_comment'
+  ];
+$$;
+
+-- As in 020
+create or replace function public.guard_entry_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon')
+     or public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN') then
+    return new;
+  end if;
+  if new.deleted_at is distinct from old.deleted_at then
+    raise exception 'Only admins can delete or restore readings';
+  end if;
+  if public.entry_values(new) is distinct from public.entry_values(old)
+     and now() - to_timestamp(old.timestamp / 1000.0) > interval '24 hours'
+     and old.review_status <> 'CORRECTION_REQUESTED' then
+    raise exception 'Readings can only be corrected within 24 hours; ask an admin';
+  end if;
+  return new;
+end;
+$$;
+
+-- As in 020
+create or replace function public.guard_entry_review()
+returns trigger
+language plpgsql
+as $$
+declare
+  values_changed boolean := false;
+  review_changed boolean;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- An upsert of an existing row is checked by the update that follows
+    if (new.review_status = 'PENDING' and new.reviewed_by_id is null)
+       or exists (select 1 from public.reservoir_entries where id = new.id) then
+      return new;
+    end if;
+    review_changed := true;
+  else
+    values_changed := public.entry_values(new) is distinct from public.entry_values(old);
+    -- A corrected reading goes back to the queue, whoever corrects it
+    if values_changed and new.reviewed_at is not distinct from old.reviewed_at then
+      new.review_status := 'PENDING';
+    end if;
+    review_changed := (new.reviewed_by_id, new.reviewed_at, new.review_comment)
+                      is distinct from (old.reviewed_by_id, old.reviewed_at, old.review_comment)
+                      or (new.review_status is distinct from old.review_status
+                          and (new.review_status <> 'PENDING' or not values_changed));
+  end if;
+
+  if not review_changed then
+    return new;
+  end if;
+  if coalesce(public.current_role_if_active(), '') not in ('ADMIN', 'SUPER_ADMIN')
+     or not public.can_access_reservoir(new.reservoir_id) then
+    raise exception 'Only admins can review readings';
+  end if;
+  if new.submitted_by_id = auth.uid() then
+    raise exception 'Readings cannot be reviewed by their submitter';
+  end if;
+  if new.reviewed_by_id is distinct from auth.uid() then
+    raise exception 'A review must be recorded under the reviewer''s own account';
+  end if;
+  return new;
+end;
+$$;
+
+-- As in 020, recording every column except those that only say who or when; the
+-- revision itself carries the actor, time and reason
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  untracked text[] := array['updated_at', 'revision_reason', 'deleted_by', 'gauge_reading', 'has_open_flags',
+                            'reviewed_by', 'reviewed_by_id', 'reviewed_at'];
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) - untracked end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) - untracked end;
+  diff jsonb := '{}'::jsonb;
+  col text;
+  revision_action text;
+  actor text := coalesce((select name from profiles where id = auth.uid()), 'System');
+begin
+  if tg_op = 'INSERT' then
+    revision_action := 'CREATE';
+  elsif tg_op = 'DELETE' then
+    revision_action := 'DELETE';
+  else
+    for col in select jsonb_object_keys(new_row) loop
+      if old_row -> col is distinct from new_row -> col then
+        diff := diff || jsonb_build_object(col, jsonb_build_object('from', old_row -> col, 'to', new_row -> col));
+      end if;
+    end loop;
+    -- Outbox replays rewrite identical values; they are not revisions
+    if diff = '{}'::jsonb then
+      return new;
+    end if;
+    revision_action := case
+      when old.deleted_at is null and new.deleted_at is not null then 'DELETE'
+      when old.deleted_at is not null and new.deleted_at is null then 'RESTORE'
+      else 'UPDATE'
+    end;
+  end if;
+
+  insert into entry_revisions (entry_id, reservoir_id, action, changed_by_id, changed_by, reason, changes)
+  values (
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    coalesce(new_row ->> 'reservoir_id', old_row ->> 'reservoir_id'),
+    revision_action,
+    auth.uid(),
+    actor,
+    case when tg_op = 'UPDATE' then new.revision_reason end,
+    diff
+  );
+  return coalesce(new, old);
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- A corrected reading is validated again in the form (components/EntryEditForm.tsx) and
+-- its open quality flags replaced with what the corrected values raise. As in 018, only
+-- admins review flags; a submitter may re-flag their own reading together with a value
+-- correction, but cannot clear a flag or change one an admin has cleared. The edit window
+-- itself is enforced by guard_entry_edit.
+
+create or replace function public.guard_entry_quality_flags()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.quality_flags is not distinct from old.quality_flags
+     or current_user not in ('authenticated', 'anon')
+     or coalesce(public.current_role_if_active(), '') in ('ADMIN', 'SUPER_ADMIN') then
+    return new;
+  end if;
+  if new.submitted_by_id = auth.uid()
+     and public.entry_values(new) is distinct from public.entry_values(old)
+     and jsonb_path_query_array(new.quality_flags, '$[*] ? (exists(@.clearedAt))')
+         = jsonb_path_query_array(old.quality_flags, '$[*] ? (exists(@.clearedAt))') then
+    return new;
+  end if;
+  raise exception 'Only admins can review quality flags';
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Two-step passkey sign-in (supabase/functions/passkey). A verified passkey assertion
+-- leaves a short-lived 'login' ticket here; the session is only issued against it once the
+-- officer's face or PIN check passes. Service role only, as in 005.
+
+alter table public.webauthn_challenges
+  add column if not exists credential_id text references public.user_passkeys (credential_id) on delete cascade;
+
+alter table public.webauthn_challenges
+  drop constraint if exists webauthn_challenges_kind_check;
+alter table public.webauthn_challenges
+  add constraint webauthn_challenges_kind_check check (kind in ('registration', 'authentication', 'login'));
\ No newline at end of file
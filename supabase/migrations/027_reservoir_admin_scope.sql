@@ -0,0 +1,23 @@
+-- The registry policy from 001 let any ADMIN, active or not, change any reservoir. Apply the
+-- access model from 009: active admins manage the reservoirs in their scope only, and a
+-- reservoir cannot be moved or registered into a district outside it. SUPER_ADMIN manages all.
+
+drop policy if exists "Reservoirs are managed by admins" on public.reservoirs;
+create policy "Reservoirs are managed by admins"
+  on public.reservoirs for all
+  to authenticated
+  using (
+    public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN')
+    and public.can_access_reservoir(id)
+  )
+  with check (
+    public.current_role_if_active() = 'SUPER_ADMIN'
+    or (
+      public.current_role_if_active() = 'ADMIN'
+      and exists (
+        select 1 from public.user_assignments a
+         where a.user_id = auth.uid()
+           and (a.district = reservoirs.district or a.reservoir_id = reservoirs.id)
+      )
+    )
+  );
\ No newline at end of file
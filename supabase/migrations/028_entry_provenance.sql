@@ -0,0 +1,77 @@
+-- Who took a reading, where and when, and what its photo showed, are evidence rather than
+-- values to correct. The update policy from 009 lets submitters rewrite their own rows, so
+-- the guards below keep these columns as submitted for everyone but admins.
+
+-- As in 024, with the provenance columns fixed for non-admins whatever the edit window
+create or replace function public.guard_entry_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon')
+     or public.current_role_if_active() in ('ADMIN', 'SUPER_ADMIN') then
+    return new;
+  end if;
+  if new.deleted_at is distinct from old.deleted_at then
+    raise exception 'Only admins can delete or restore readings';
+  end if;
+  if (new.submitted_by_id, new.submitted_by, new.is_verified, new.source, new.import_batch_id,
+      new.reservoir_id, new.name, new.timestamp, new.latitude, new.longitude,
+      new.geofence_distance, new.gps_accuracy)
+     is distinct from
+     (old.submitted_by_id, old.submitted_by, old.is_verified, old.source, old.import_batch_id,
+      old.reservoir_id, old.name, old.timestamp, old.latitude, old.longitude,
+      old.geofence_distance, old.gps_accuracy) then
+    raise exception 'Who took a reading, where and when can only be changed by an admin';
+  end if;
+  if public.entry_values(new) is distinct from public.entry_values(old)
+     and now() - to_timestamp(old.timestamp / 1000.0) > interval '24 hours'
+     and old.review_status <> 'CORRECTION_REQUESTED' then
+    raise exception 'Readings can only be corrected within 24 hours; ask an admin';
+  end if;
+  return new;
+end;
+$$;
+
+-- Once a reading has a gauge reading, only admins may change what the photo showed (as
+-- guard_entry_photos in 016). The verdict is always worked out here from the level, with
+-- the tolerances of services/gaugeReadingService.ts, so it cannot be sent as MATCH.
+create or replace function public.guard_entry_gauge_reading()
+returns trigger
+language plpgsql
+as $$
+declare
+  derived_fields text[] := array['verdict', 'difference', 'note'];
+  gauge_value numeric;
+  difference numeric;
+begin
+  if tg_op = 'UPDATE'
+     and old.gauge_reading is not null
+     and (new.gauge_reading is null
+          or new.gauge_reading - derived_fields is distinct from old.gauge_reading - derived_fields)
+     and current_user in ('authenticated', 'anon')
+     and coalesce(public.current_role_if_active(), '') not in ('ADMIN', 'SUPER_ADMIN') then
+    raise exception 'The gauge reading of a photo cannot be changed';
+  end if;
+  if new.gauge_reading is null then
+    return new;
+  end if;
+
+  gauge_value := (new.gauge_reading ->> 'value')::numeric;
+  if gauge_value is null or (new.gauge_reading ->> 'confidence')::numeric < 0.5 then
+    new.gauge_reading := (new.gauge_reading - 'difference') || jsonb_build_object('verdict', 'UNREADABLE');
+  else
+    difference := round(new.water_level::numeric - gauge_value, 3);
+    new.gauge_reading := new.gauge_reading || jsonb_build_object(
+      'verdict', case when abs(difference) <= 0.15 then 'MATCH' else 'MISMATCH' end,
+      'difference', difference
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_entry_gauge_reading on public.reservoir_entries;
+create trigger guard_entry_gauge_reading
+  before insert or update on public.reservoir_entries
+  for each row execute function public.guard_entry_gauge_reading();
\ No newline at end of file
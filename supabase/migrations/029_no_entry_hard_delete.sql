@@ -0,0 +1,5 @@
+-- Readings are only ever soft deleted (014), which keeps their revisions and allows restore.
+-- The hard delete policy from 009 still let admins remove rows outright; with no delete
+-- policy, row-level security refuses every delete from the app.
+
+drop policy if exists "Admins delete within scope" on public.reservoir_entries;
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { PasskeyAuthenticator } from '../services/passkeyService';
+
+/**
+ * An in-memory WebAuthn platform authenticator for tests. Creates ES256 credentials with
+ * "none" attestation and signs assertions with them, as a phone or laptop would. Plug it in
+ * with passkeyService.setAuthenticator.
+ */
+
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+interface StoredCredential {
+  id: Uint8Array;
+  rpId: string;
+  userHandle: Uint8Array;
+  keys: CryptoKeyPair;
+  signCount: number;
+}
+
+// Flags in authenticator data: user present, user verified, attested credential data included
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_AT = 0x40;
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  Buffer.from(bytes).toString('base64url');
+
+const bytesOf = (source: BufferSource): Uint8Array =>
+  source instanceof ArrayBuffer ? new Uint8Array(source) : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+const uint32 = (n: number) => new Uint8Array([(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]);
+
+// Just enough CBOR for attestation objects and COSE keys
+const cborHead = (major: number, n: number): Uint8Array => {
+  if (n < 24) return new Uint8Array([(major << 5) | n]);
+  if (n < 0x100) return new Uint8Array([(major << 5) | 24, n]);
+  if (n < 0x10000) return new Uint8Array([(major << 5) | 25, n >> 8, n & 0xff]);
+  return concat(new Uint8Array([(major << 5) | 26]), uint32(n));
+};
+
+const cbor = (value: CborValue): Uint8Array => {
+  if (typeof value === 'number') return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    return concat(cborHead(3, bytes.length), bytes);
+  }
+  if (value instanceof Uint8Array) return concat(cborHead(2, value.length), value);
+  return concat(cborHead(5, value.size), ...Array.from(value).flatMap(([k, v]) => [cbor(k), cbor(v)]));
+};
+
+// WebCrypto signs ECDSA as raw r || s; WebAuthn carries it DER encoded
+const derInteger = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  const trimmed = bytes.slice(start);
+  const body = trimmed[0] & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed;
+  return concat(new Uint8Array([0x02, body.length]), body);
+};
+
+const toDerSignature = (raw: Uint8Array): Uint8Array => {
+  const body = concat(derInteger(raw.slice(0, 32)), derInteger(raw.slice(32)));
+  return concat(new Uint8Array([0x30, body.length]), body);
+};
+
+const clientData = (type: 'webauthn.create' | 'webauthn.get', challenge: BufferSource, origin: string) =>
+  new TextEncoder().encode(JSON.stringify({ type, challenge: toBase64Url(bytesOf(challenge)), origin, crossOrigin: false }));
+
+const asCredential = (id: Uint8Array, response: Record<string, unknown>): Credential => ({
+  id: toBase64Url(id),
+  rawId: id.slice().buffer,
+  type: 'public-key',
+  authenticatorAttachment: 'platform',
+  getClientExtensionResults: () => ({}),
+  response
+}) as unknown as Credential;
+
+export interface SoftwareAuthenticator extends PasskeyAuthenticator {
+  readonly credentials: StoredCredential[];
+  // The origin the browser would report in client data
+  origin: string;
+  // Answer the next ceremony as if the user dismissed the prompt
+  cancelNext(): void;
+}
+
+export const createSoftwareAuthenticator = (origin: string): SoftwareAuthenticator => {
+  const credentials: StoredCredential[] = [];
+  let cancel = false;
+
+  const cancelled = () => {
+    const wasCancelled = cancel;
+    cancel = false;
+    return wasCancelled;
+  };
+
+  return {
+    credentials,
+    origin,
+
+    cancelNext() {
+      cancel = true;
+    },
+
+    async create(this: SoftwareAuthenticator, options) {
+      if (cancelled()) return null;
+      const publicKey = options.publicKey!;
+      const rpId = publicKey.rp.id ?? new URL(this.origin).hostname;
+      const excluded = (publicKey.excludeCredentials || []).map(c => toBase64Url(bytesOf(c.id)));
+      if (credentials.some(c => c.rpId === rpId && excluded.includes(toBase64Url(c.id)))) {
+        throw new Error('InvalidStateError: credential already registered on this authenticator');
+      }
+
+      const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+      const point = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+      const coseKey = new Map<CborValue, CborValue>([[1, 2], [3, -7], [-1, 1], [-2, point.slice(1, 33)], [-3, point.slice(33)]]);
+      const credential: StoredCredential = {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        rpId,
+        userHandle: bytesOf(publicKey.user.id).slice(),
+        keys,
+        signCount: 0
+      };
+      credentials.push(credential);
+
+      const authData = concat(
+        await sha256(new TextEncoder().encode(rpId)),
+        new Uint8Array([FLAG_UP | FLAG_UV | FLAG_AT]),
+        uint32(credential.signCount),
+        new Uint8Array(16), // AAGUID
+        new Uint8Array([credential.id.length >> 8, credential.id.length & 0xff]),
+        credential.id,
+        cbor(coseKey)
+      );
+      const attestationObject = cbor(new Map<CborValue, CborValue>([['fmt', 'none'], ['attStmt', new Map()], ['authData', authData]]));
+
+      return asCredential(credential.id, {
+        clientDataJSON: clientData('webauthn.create', publicKey.challenge, this.origin).buffer,
+        attestationObject: attestationObject.buffer,
+        getTransports: () => ['internal']
+      });
+    },
+
+    async get(this: SoftwareAuthenticator, options) {
+      if (cancelled()) return null;
+      const publicKey = options.publicKey!;
+      const rpId = publicKey.rpId ?? new URL(this.origin).hostname;
+      const allowed = (publicKey.allowCredentials || []).map(c => toBase64Url(bytesOf(c.id)));
+      const credential = credentials.find(c => c.rpId === rpId && (allowed.length === 0 || allowed.includes(toBase64Url(c.id))));
+      if (!credential) throw new Error('NotAllowedError: no matching credential on this authenticator');
+
+      credential.signCount++;
+      const authData = concat(
+        await sha256(new TextEncoder().encode(rpId)),
+        new Uint8Array([FLAG_UP | FLAG_UV]),
+        uint32(credential.signCount)
+      );
+      const clientDataJSON = clientData('webauthn.get', publicKey.challenge, this.origin);
+      const signature = await crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        credential.keys.privateKey,
+        concat(authData, await sha256(clientDataJSON))
+      );
+
+      return asCredential(credential.id, {
+        clientDataJSON: clientDataJSON.buffer,
+        authenticatorData: authData.buffer,
+        signature: toDerSignature(new Uint8Array(signature)).buffer,
+        userHandle: credential.userHandle.buffer
+      });
+    }
+  };
+};
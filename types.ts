@@ -4,6 +4,12 @@ export enum UserRole {
   DATA_ENTRY_WORKER = 'DATA_ENTRY_WORKER',
 }
 
+export enum AccountStatus {
+  PENDING = 'PENDING', // Enrolled, awaiting SUPER_ADMIN approval
+  ACTIVE = 'ACTIVE',
+  DEACTIVATED = 'DEACTIVATED',
+}
+
 export enum ReservoirStatus {
   NORMAL = 'NORMAL',
   WARNING = 'WARNING',
@@ -16,25 +22,414 @@ export interface Coordinates {
   longitude: number;
 }
 
+export interface Geofence {
+  polygon: Coordinates[]; // Bund / water-spread outline, closed implicitly
+  bufferMeters: number; // Tolerance outside the polygon
+}
+
+export interface StageStoragePoint {
+  level: number; // in meters (MSL)
+  volume: number; // in MCM
+}
+
+export interface StatusThresholds {
+  spillCrestLevel: number; // SPILLING at or above
+  floodWarningLevel: number; // WARNING at or above
+  lowStorageWarningLevel: number; // WARNING at or below
+  minimumOperatingLevel: number; // CRITICAL at or below
+}
+
+export interface Reservoir {
+  id: string;
+  name: string; // Official registry name
+  district: string;
+  coordinates: Coordinates; // Bund / gauge location
+  fullSupplyLevel: number; // in meters (MSL)
+  deadStorageLevel: number; // in meters (MSL)
+  grossCapacity: number; // in MCM
+  geofence?: Geofence; // Falls back to a radius around coordinates when absent
+  stageStorage?: StageStoragePoint[]; // Level -> volume table, any order
+  thresholds?: StatusThresholds; // Defaults are derived from FSL / DSL when absent
+}
+
+export interface GeofenceVerdict {
+  isInside: boolean;
+  reservoir: Reservoir | null; // Closest registered reservoir
+  distanceMeters: number; // 0 when inside the polygon
+  accuracyMeters: number; // GPS accuracy reported by the device
+  reason: string;
+}
+
 export interface ReservoirEntry {
   id: string;
-  name: string;
+  reservoirId: string; // References Reservoir.id
+  name: string; // Official name at time of submission
   locationName: string; // From Gemini/Maps
   coordinates: Coordinates;
   waterLevel: number; // in meters
   capacityPercentage: number;
+  storageVolume?: number; // in MCM, derived from the stage-storage table
   status: ReservoirStatus;
+  isManualOverride?: boolean; // Capacity/status typed in by the worker instead of derived
   notes: string;
   timestamp: number;
+  updatedAt?: number; // Version for conflict detection; defaults to timestamp
   submittedBy: string; // Worker ID or Name
-  isVerified: boolean; // Geofence check
+  submittedById?: string; // Profile id of the submitter; absent on legacy readings
+  isVerified: boolean; // Deterministic geofence check
+  geofenceDistance?: number; // meters from the geofence boundary at submission
+  gpsAccuracy?: number; // meters
   geminiAnalysis?: string;
   groundingUrl?: string;
+  source?: EntrySource; // Defaults to FIELD
+  importBatchId?: string; // Set on rows committed together by one CSV import
+  deletedAt?: number; // Soft delete; the row is kept and can be restored
+  deletedBy?: string;
+  revisionReason?: string; // Why the last change was made; copied into its revision
+  photos?: EntryPhoto[]; // Gauge / spillway evidence
+  gaugeReading?: GaugeReading; // Level read off a photo, to catch typos in waterLevel
+  qualityFlags?: QualityFlag[]; // Raised by validationService at submission; cleared by an admin after review
+  reviewStatus?: ReviewStatus; // QA review by an admin; defaults to PENDING
+  reviewedBy?: string;
+  reviewedById?: string;
+  reviewedAt?: number;
+  reviewComment?: string;
+  // Operational observations, all optional
+  rainfallMm?: number; // Rain gauge at the site, last 24 hours
+  gatesOpen?: number; // Spill gates open at the time of the reading
+  gateOpenings?: number[]; // Opening height of each open gate, meters
+  sluiceDischarge?: number; // Canal / sluice outflow, m³/s
+  inflowEstimate?: number; // Worker's estimate of inflow, m³/s
 }
 
+export type OperationalFields = Pick<ReservoirEntry, 'rainfallMm' | 'gatesOpen' | 'gateOpenings' | 'sluiceDischarge' | 'inflowEstimate'>;
+
+// PENDING until an admin reviews the reading. A corrected reading goes back to PENDING.
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CORRECTION_REQUESTED';
+
+// A compressed JPEG with capture time and GPS embedded as EXIF. Stored in the entry-photos
+// bucket; kept in the local photo store until uploaded.
+export interface EntryPhoto {
+  id: string;
+  path: string; // Storage object path: <reservoirId>/<photoId>.jpg
+  capturedAt: number;
+  coordinates?: Coordinates;
+  gpsAccuracy?: number; // meters
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
+
+export type EntrySource = 'FIELD' | 'IMPORT';
+
 export interface User {
   id: string;
   name: string;
-  role: UserRole;
+  role: UserRole; // Always from the profiles table, never from auth metadata
+  status: AccountStatus;
   avatarUrl: string;
+}
+
+export interface UserProfile extends User {
+  createdAt: number;
+  approvedBy?: string; // SUPER_ADMIN who set the current role
+  approvedAt?: number;
+  lastLoginAt?: number;
+}
+
+// A worker or admin may report on / manage a single reservoir or a whole district
+export interface ReservoirAssignment {
+  id: string;
+  userId: string;
+  reservoirId?: string;
+  district?: string;
+}
+
+export interface FaceMatchResult {
+  score: number; // Similarity in [0, 1]
+  threshold: number;
+  matched: boolean;
+  matcher: string; // Name of the FaceMatcher that produced the score
+}
+
+// Face/PIN attempt limits as enforced by the passkey function
+export interface LoginAttemptStatus {
+  pinRequired: boolean; // Too many face mismatches: the PIN must be verified before sign-in
+  lockedUntil?: number; // Too many wrong PINs: no PIN or passkey sign-in before this time
+}
+
+// Issued once the passkey is verified; sign-in completes with a face or PIN check against it
+export interface LoginTicket extends LoginAttemptStatus {
+  ticketId: string;
+  credentialId: string;
+}
+
+export interface Passkey {
+  credentialId: string;
+  userId: string;
+  deviceName: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number; // Revoked passkeys can no longer sign in
+}
+
+export type SyncState = 'pending' | 'synced' | 'failed' | 'conflict';
+
+// Soft deletes are upserts; hard-delete tombstones from earlier versions are converted on upgrade
+export type OutboxOperation = 'upsert';
+
+export interface OutboxRecord {
+  id: string; // Same as entry.id
+  op: OutboxOperation;
+  entry: ReservoirEntry;
+  baseVersion?: number; // Server version the local change was made against
+  state: SyncState;
+  attempts: number;
+  nextAttemptAt: number; // Backoff: not retried before this time
+  rejected?: boolean; // The server refused the change; not retried until the entry changes again
+  lastError?: string;
+  updatedAt: number;
+}
+
+export interface SyncConflict {
+  id: string;
+  local: ReservoirEntry;
+  cloud: ReservoirEntry;
+}
+
+export type LocalOnlyReason = 'pending' | 'failed' | 'conflict' | 'cache-only';
+
+export interface LocalOnlyRecord {
+  entry: ReservoirEntry;
+  reason: LocalOnlyReason;
+}
+
+export interface ReconciliationReport {
+  localOnly: LocalOnlyRecord[]; // Changes that have not reached the server
+  conflicts: SyncConflict[];
+}
+
+export type HistoryRange = '7d' | '30d' | 'season' | 'year';
+
+export interface TimeWindow {
+  start: number; // inclusive, ms
+  end: number; // inclusive, ms
+  label: string;
+}
+
+export interface RateOfChange {
+  timestamp: number; // Midpoint between the two readings
+  metersPerDay: number; // Positive when rising
+  from: ReservoirEntry;
+  to: ReservoirEntry;
+}
+
+export interface ForecastEstimate {
+  days: number; // Central estimate
+  earliestDays: number; // At the fast end of the flow confidence band
+  latestDays: number | null; // At the slow end; null if the band includes a flat or reversed trend
+}
+
+export interface ForecastPoint {
+  timestamp: number;
+  level: number; // in meters (MSL)
+  low: number;
+  high: number;
+}
+
+export interface ReservoirForecast {
+  reservoirId: string;
+  generatedAt: number;
+  readingsUsed: number;
+  inflowMcmPerDay: number; // Apparent gross inflow (rising intervals)
+  outflowMcmPerDay: number; // Apparent gross outflow (falling intervals), positive
+  netFlowMcmPerDay: number; // Trend of storage volume; positive when filling
+  netFlowStdError: number;
+  daysToSpill: ForecastEstimate | null; // null unless filling and within the horizon
+  daysToEmpty: ForecastEstimate | null; // to dead storage; null unless draining and within the horizon
+  projection: ForecastPoint[]; // Daily projected level with confidence band
+}
+
+export type AlertRuleType = 'STATUS_CHANGE' | 'LEVEL_ABOVE' | 'RISE_RATE' | 'NO_READING';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertState = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export interface AlertRule {
+  id: string;
+  reservoirId?: string; // Applies to every reservoir when absent
+  type: AlertRuleType;
+  statuses?: ReservoirStatus[]; // STATUS_CHANGE: statuses that raise the alert
+  threshold?: number; // LEVEL_ABOVE: m MSL; RISE_RATE: m/hr; NO_READING: hours
+  severity: AlertSeverity;
+  channels: string[]; // Names of AlertChannels to deliver to
+  enabled: boolean;
+}
+
+export interface Alert {
+  id: string; // Deterministic per rule, reservoir and triggering reading
+  ruleId: string;
+  reservoirId: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  message: string;
+  state: AlertState;
+  entryId?: string; // Reading that triggered the alert
+  openedAt: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  resolvedAt?: number;
+}
+
+export type EntryChange =
+  | { type: 'upsert', entry: ReservoirEntry }
+  | { type: 'delete', id: string };
+
+export type RealtimeStatus = 'connecting' | 'live' | 'polling';
+
+export interface EntryFilters {
+  from?: string; // YYYY-MM-DD, local time, inclusive
+  to?: string; // YYYY-MM-DD, local time, inclusive
+  reservoirId?: string;
+  district?: string;
+  status?: ReservoirStatus;
+  reporter?: string; // Case-insensitive match on submittedBy
+  isVerified?: boolean;
+  search?: string; // Free text on notes
+  flagged?: boolean; // Only readings with uncleared quality flags
+  reviewStatus?: ReviewStatus;
+}
+
+// Keyset position in the (timestamp desc, id desc) ordering: the last entry of a page
+export interface EntryCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface EntryPage {
+  entries: ReservoirEntry[];
+  nextCursor: EntryCursor | null; // null on the last page
+  source: 'MYSQL' | 'LOCAL';
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// Bulletin figures for one district, from the latest reading of each reservoir
+export interface DistrictSummary {
+  district: string;
+  reservoirs: number; // Reservoirs with at least one reading in the export
+  readings: number;
+  averageCapacity: number | null; // % across the latest readings
+  statusCounts: Record<ReservoirStatus, number>;
+}
+
+export type ImportField = 'reservoir' | 'date' | 'time' | 'waterLevel' | 'capacityPercentage' | 'status' | 'observer' | 'notes'
+  | 'rainfallMm' | 'gatesOpen' | 'sluiceDischarge' | 'inflowEstimate';
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>; // Field -> CSV column index
+
+export type LevelUnit = 'm' | 'ft';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface ImportOptions {
+  levelUnit: LevelUnit; // Unit of level values without an explicit suffix
+  dateFormat: ImportDateFormat;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based line in the file, header included
+  entry: ReservoirEntry | null; // null when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+export type RevisionAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+// Recorded by a database trigger on every change to a reading
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  action: RevisionAction;
+  changedBy: string;
+  changedById?: string;
+  changedAt: number;
+  reason?: string;
+  changes: Record<string, { from: unknown, to: unknown }>; // Column name -> old/new value
+}
+
+// Written by database triggers (015_audit_log.sql); entry actions mirror RevisionAction
+export type AuditAction =
+  | 'ENTRY_CREATE' | 'ENTRY_UPDATE' | 'ENTRY_DELETE' | 'ENTRY_RESTORE'
+  | 'ROLE_CHANGE' | 'STATUS_CHANGE'
+  | 'DEVICE_ENROLL' | 'DEVICE_REVOKE' | 'FACE_ENROLL' | 'FACE_TEMPLATE_DELETE'
+  | 'FACE_LOGIN_SUCCESS' | 'FACE_LOGIN_FAILURE' | 'PIN_LOGIN_SUCCESS' | 'PIN_LOGIN_FAILURE'
+  | 'SIGN_IN';
+
+export interface AuditEvent {
+  seq: number; // Gapless position in the hash chain
+  occurredAt: number;
+  actorId?: string;
+  actorName: string;
+  action: AuditAction;
+  targetType?: 'ENTRY' | 'USER';
+  targetId?: string;
+  details: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilters {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  action?: AuditAction;
+  actor?: string; // Name contains
+  targetId?: string;
+}
+
+export interface AuditChainResult {
+  checked: number;
+  headHash: string | null; // Hash of the newest event; record it elsewhere to detect a rewritten chain
+  brokenAt: number | null; // seq of the first event that fails verification
+  problem?: string;
+}
+
+export type GaugeCheckVerdict = 'MATCH' | 'MISMATCH' | 'UNREADABLE';
+
+// What a GaugeRecognizer read from one of the entry's photos, compared with the typed level
+export interface GaugeReading {
+  photoId: string;
+  recognizer: string;
+  value: number | null; // meters; null when the gauge could not be read
+  confidence: number; // 0-1, as reported by the recognizer
+  verdict: GaugeCheckVerdict;
+  difference?: number; // Typed minus recognized, meters
+  note?: string;
+}
+
+export type QualityFlagCode =
+  | 'INVALID_VALUE' // Non-positive level or capacity outside 0-100; always blocks submission
+  | 'BELOW_PHYSICAL_RANGE'
+  | 'ABOVE_PHYSICAL_RANGE'
+  | 'RATE_OF_CHANGE'
+  | 'STATISTICAL_OUTLIER'
+  | 'GAUGE_MISMATCH';
+
+// A problem found while validating a reading; blocking issues prevent submission
+export interface ValidationIssue {
+  code: QualityFlagCode;
+  message: string;
+  blocking: boolean;
+}
+
+// A non-blocking issue the worker submitted anyway, kept on the entry for review
+export interface QualityFlag {
+  code: QualityFlagCode;
+  message: string;
+  raisedAt: number;
+  clearedBy?: string;
+  clearedById?: string;
+  clearedAt?: number;
+  reviewNote?: string;
 }
\ No newline at end of file
@@ -1,7 +1,25 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits service-worker.js as /sw.js with the build output injected as its precache list
+const serviceWorker = (): Plugin => ({
+  name: 'lrw-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).map(file => `/${file}`);
+    const urls = Array.from(new Set(['/', '/index.html', '/manifest.webmanifest', '/icon.svg', ...files]));
+    const buildId = crypto.createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+      .replace('__PRECACHE_MANIFEST__', JSON.stringify(urls))
+      .replace('__BUILD_ID__', buildId);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +27,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ENABLE_SERVICE_WORKER': JSON.stringify(mode === 'production'),
+        'process.env.ALERT_EMAIL_WEBHOOK': JSON.stringify(env.ALERT_EMAIL_WEBHOOK || ''),
+        'process.env.ALERT_SMS_WEBHOOK': JSON.stringify(env.ALERT_SMS_WEBHOOK || '')
       },
       resolve: {
         alias: {